@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "schedule_blocks" ADD COLUMN "recurrenceRule" TEXT;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "recurrence_exceptions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "blockId" TEXT NOT NULL,
+    "originalStartTime" DATETIME NOT NULL,
+    "cancelled" BOOLEAN NOT NULL DEFAULT false,
+    "title" TEXT,
+    "description" TEXT,
+    "startTime" DATETIME,
+    "endTime" DATETIME,
+    "categoryId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "recurrence_exceptions_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "schedule_blocks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recurrence_exceptions_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recurrence_exceptions_blockId_originalStartTime_key" ON "recurrence_exceptions"("blockId", "originalStartTime");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "schedule_blocks" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'planned';
+
+-- AlterTable
+ALTER TABLE "recurrence_exceptions" ADD COLUMN "status" TEXT;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "time_entries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "blockId" TEXT,
+    "occurrenceStartTime" DATETIME,
+    "categoryId" TEXT,
+    "description" TEXT,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "time_entries_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "schedule_blocks" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "time_entries_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "time_entries_startTime_idx" ON "time_entries"("startTime");
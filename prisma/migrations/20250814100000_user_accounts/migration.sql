@@ -0,0 +1,97 @@
+/*
+  Existing categories, blocks and time entries are given to a legacy account, created only
+  when there is data to keep. It can't sign in (its password hash never verifies); the first
+  account registered afterwards takes it over (see AuthService.register).
+  The unique constraint on `[userId,name]` holds because category names were already unique.
+*/
+-- DropIndex
+DROP INDEX "categories_name_key";
+
+-- DropIndex
+DROP INDEX "time_entries_startTime_idx";
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tokenHash" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Legacy account for the existing data
+INSERT INTO "users" ("id", "email", "name", "passwordHash", "createdAt", "updatedAt")
+SELECT 'legacy-user', 'legacy@planico.local', 'Usuario anterior', '!', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "categories") OR EXISTS (SELECT 1 FROM "schedule_blocks") OR EXISTS (SELECT 1 FROM "time_entries");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_categories" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    CONSTRAINT "categories_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_categories" ("color", "id", "name", "userId") SELECT "color", "id", "name", 'legacy-user' FROM "categories";
+DROP TABLE "categories";
+ALTER TABLE "new_categories" RENAME TO "categories";
+CREATE UNIQUE INDEX "categories_userId_name_key" ON "categories"("userId", "name");
+CREATE TABLE "new_schedule_blocks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "recurrenceRule" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'planned',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "schedule_blocks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "schedule_blocks_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_schedule_blocks" ("categoryId", "createdAt", "description", "endTime", "id", "recurrenceRule", "startTime", "status", "title", "updatedAt", "userId") SELECT "categoryId", "createdAt", "description", "endTime", "id", "recurrenceRule", "startTime", "status", "title", "updatedAt", 'legacy-user' FROM "schedule_blocks";
+DROP TABLE "schedule_blocks";
+ALTER TABLE "new_schedule_blocks" RENAME TO "schedule_blocks";
+CREATE INDEX "schedule_blocks_userId_startTime_idx" ON "schedule_blocks"("userId", "startTime");
+CREATE TABLE "new_time_entries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "blockId" TEXT,
+    "occurrenceStartTime" DATETIME,
+    "categoryId" TEXT,
+    "description" TEXT,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "time_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "time_entries_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "schedule_blocks" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "time_entries_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_time_entries" ("blockId", "categoryId", "createdAt", "description", "endTime", "id", "occurrenceStartTime", "startTime", "updatedAt", "userId") SELECT "blockId", "categoryId", "createdAt", "description", "endTime", "id", "occurrenceStartTime", "startTime", "updatedAt", 'legacy-user' FROM "time_entries";
+DROP TABLE "time_entries";
+ALTER TABLE "new_time_entries" RENAME TO "time_entries";
+CREATE INDEX "time_entries_userId_startTime_idx" ON "time_entries"("userId", "startTime");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_tokenHash_key" ON "sessions"("tokenHash");
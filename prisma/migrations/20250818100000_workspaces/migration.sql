@@ -0,0 +1,72 @@
+/*
+  Existing blocks and categories move to a personal workspace for each user.
+  The personal workspace reuses the id of its owner so rows can be carried over.
+*/
+-- DropIndex
+DROP INDEX "categories_userId_name_key";
+
+-- DropIndex
+DROP INDEX "schedule_blocks_userId_startTime_idx";
+
+-- CreateTable
+CREATE TABLE "workspaces" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "isPersonal" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "workspace_members" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'viewer',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "workspace_members_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "workspace_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Personal workspaces for existing users
+INSERT INTO "workspaces" ("id", "name", "isPersonal", "createdAt", "updatedAt") SELECT "id", 'Personal', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP FROM "users";
+INSERT INTO "workspace_members" ("id", "workspaceId", "userId", "role", "createdAt") SELECT "id", "id", "id", 'owner', CURRENT_TIMESTAMP FROM "users";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_categories" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    CONSTRAINT "categories_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_categories" ("color", "id", "name", "workspaceId") SELECT "color", "id", "name", "userId" FROM "categories";
+DROP TABLE "categories";
+ALTER TABLE "new_categories" RENAME TO "categories";
+CREATE UNIQUE INDEX "categories_workspaceId_name_key" ON "categories"("workspaceId", "name");
+CREATE TABLE "new_schedule_blocks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "startTime" DATETIME NOT NULL,
+    "endTime" DATETIME NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "recurrenceRule" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'planned',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "schedule_blocks_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "schedule_blocks_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_schedule_blocks" ("categoryId", "createdAt", "description", "endTime", "id", "recurrenceRule", "startTime", "status", "title", "updatedAt", "workspaceId") SELECT "categoryId", "createdAt", "description", "endTime", "id", "recurrenceRule", "startTime", "status", "title", "updatedAt", "userId" FROM "schedule_blocks";
+DROP TABLE "schedule_blocks";
+ALTER TABLE "new_schedule_blocks" RENAME TO "schedule_blocks";
+CREATE INDEX "schedule_blocks_workspaceId_startTime_idx" ON "schedule_blocks"("workspaceId", "startTime");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspace_members_workspaceId_userId_key" ON "workspace_members"("workspaceId", "userId");
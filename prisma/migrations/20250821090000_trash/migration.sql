@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "deletedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "schedule_blocks" ADD COLUMN "deletedAt" DATETIME;
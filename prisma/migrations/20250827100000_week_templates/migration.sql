@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "week_templates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "week_templates_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "week_template_blocks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "templateId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "weekday" INTEGER NOT NULL,
+    "startMinutes" INTEGER NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    CONSTRAINT "week_template_blocks_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "week_templates" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "week_template_blocks_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "week_templates_workspaceId_name_key" ON "week_templates"("workspaceId", "name");
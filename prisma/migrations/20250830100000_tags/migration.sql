@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "tags_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_ScheduleBlockToTag" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_ScheduleBlockToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "schedule_blocks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_ScheduleBlockToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "tags" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_workspaceId_name_key" ON "tags"("workspaceId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_ScheduleBlockToTag_AB_unique" ON "_ScheduleBlockToTag"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_ScheduleBlockToTag_B_index" ON "_ScheduleBlockToTag"("B");
@@ -0,0 +1,19 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_categories" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "parentId" TEXT,
+    "deletedAt" DATETIME,
+    CONSTRAINT "categories_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "categories_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_categories" ("color", "deletedAt", "id", "name", "workspaceId") SELECT "color", "deletedAt", "id", "name", "workspaceId" FROM "categories";
+DROP TABLE "categories";
+ALTER TABLE "new_categories" RENAME TO "categories";
+CREATE UNIQUE INDEX "categories_workspaceId_name_key" ON "categories"("workspaceId", "name");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
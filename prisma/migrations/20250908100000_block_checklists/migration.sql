@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "block_checklist_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "blockId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "done" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "block_checklist_items_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "schedule_blocks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "block_checklist_items_blockId_position_idx" ON "block_checklist_items"("blockId", "position");
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "schedule_blocks" ADD COLUMN "location" TEXT;
+ALTER TABLE "schedule_blocks" ADD COLUMN "meetingUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "block_attendees" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "blockId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    CONSTRAINT "block_attendees_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "schedule_blocks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "block_attendees_blockId_email_key" ON "block_attendees"("blockId", "email");
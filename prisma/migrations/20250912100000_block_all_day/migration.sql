@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "schedule_blocks" ADD COLUMN "allDay" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_preferences" ADD COLUMN "weekStartsOn" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "user_preferences" ADD COLUMN "businessHoursStart" INTEGER NOT NULL DEFAULT 8;
+ALTER TABLE "user_preferences" ADD COLUMN "businessHoursEnd" INTEGER NOT NULL DEFAULT 18;
+ALTER TABLE "user_preferences" ADD COLUMN "reminderMinutes" INTEGER NOT NULL DEFAULT 15;
+ALTER TABLE "user_preferences" ADD COLUMN "defaultBlockMinutes" INTEGER NOT NULL DEFAULT 60;
+ALTER TABLE "user_preferences" ADD COLUMN "locale" TEXT NOT NULL DEFAULT 'es-MX';
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "working_hours_ranges" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "preferencesId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startMinutes" INTEGER NOT NULL,
+    "endMinutes" INTEGER NOT NULL,
+    CONSTRAINT "working_hours_ranges_preferencesId_fkey" FOREIGN KEY ("preferencesId") REFERENCES "user_preferences" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Saved business hours applied to every day of the week
+WITH RECURSIVE "weekdays"("weekday") AS (
+    SELECT 0 UNION ALL SELECT "weekday" + 1 FROM "weekdays" WHERE "weekday" < 6
+)
+INSERT INTO "working_hours_ranges" ("id", "preferencesId", "weekday", "startMinutes", "endMinutes")
+SELECT "user_preferences"."id" || '-' || "weekdays"."weekday", "user_preferences"."id", "weekdays"."weekday",
+       "user_preferences"."businessHoursStart" * 60, "user_preferences"."businessHoursEnd" * 60
+FROM "user_preferences" CROSS JOIN "weekdays";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_user_preferences" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL DEFAULT 'America/Mexico_City',
+    "weekStartsOn" INTEGER NOT NULL DEFAULT 0,
+    "slotMinutes" INTEGER NOT NULL DEFAULT 30,
+    "reminderMinutes" INTEGER NOT NULL DEFAULT 15,
+    "defaultBlockMinutes" INTEGER NOT NULL DEFAULT 60,
+    "locale" TEXT NOT NULL DEFAULT 'es-MX',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "user_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_user_preferences" ("createdAt", "defaultBlockMinutes", "id", "locale", "reminderMinutes", "slotMinutes", "timeZone", "updatedAt", "userId", "weekStartsOn") SELECT "createdAt", "defaultBlockMinutes", "id", "locale", "reminderMinutes", "slotMinutes", "timeZone", "updatedAt", "userId", "weekStartsOn" FROM "user_preferences";
+DROP TABLE "user_preferences";
+ALTER TABLE "new_user_preferences" RENAME TO "user_preferences";
+CREATE UNIQUE INDEX "user_preferences_userId_key" ON "user_preferences"("userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
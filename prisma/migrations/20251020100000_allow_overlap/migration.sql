@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "schedule_blocks" ADD COLUMN "allowOverlap" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "allowOverlap" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "week_template_blocks" ADD COLUMN "allDay" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "week_template_blocks" ADD COLUMN "allowOverlap" BOOLEAN NOT NULL DEFAULT false;
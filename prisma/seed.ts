@@ -1,17 +1,44 @@
 import { PrismaClient } from '@prisma/client'
 import { getDefaultCategories } from '../src/lib/utils'
+import { AuthService } from '../src/lib/auth'
 
 const prisma = new PrismaClient()
 
+const DEMO_EMAIL = 'demo@planico.local'
+const DEMO_PASSWORD = 'planico123'
+
 async function main() {
-  // Create default categories
+  // Create the demo user
+  const user = await prisma.user.upsert({
+    where: { email: DEMO_EMAIL },
+    update: {},
+    create: {
+      email: DEMO_EMAIL,
+      name: 'Demo',
+      passwordHash: await AuthService.hashPassword(DEMO_PASSWORD),
+      memberships: {
+        create: {
+          role: 'owner',
+          workspace: { create: { name: 'Personal', isPersonal: true } },
+        },
+      },
+    },
+  })
+
+  const workspace = await prisma.workspace.findFirstOrThrow({
+    where: { isPersonal: true, members: { some: { userId: user.id } } },
+  })
+
+  console.log(`Usuario de prueba: ${DEMO_EMAIL} / ${DEMO_PASSWORD}`)
+
+  // Create default categories in the personal workspace
   const categories = getDefaultCategories()
 
   for (const category of categories) {
     await prisma.category.upsert({
-      where: { name: category.name },
+      where: { workspaceId_name: { workspaceId: workspace.id, name: category.name } },
       update: { color: category.color },
-      create: category,
+      create: { ...category, workspaceId: workspace.id },
     })
   }
 
@@ -26,4 +53,4 @@ main()
     console.error(e)
     await prisma.$disconnect()
     process.exit(1)
-  })
\ No newline at end of file
+  })
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { AuthService } from '@/lib/auth';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+// POST /api/auth/logout - Close the current session
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  await AuthService.destroySession(request);
+
+  const response = ApiResponseHandler.deleted('Sesión cerrada exitosamente');
+  return AuthService.clearSessionCookie(response);
+});
@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { AuthService } from '@/lib/auth';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+// GET /api/auth/me - Signed-in user
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await AuthService.requireUser(request);
+
+  return ApiResponseHandler.success(user, 'Usuario obtenido exitosamente');
+});
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { registerSchema } from '@/lib/validations';
+import { AuthService } from '@/lib/auth';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator,
+  RateLimiter
+} from '@/lib/api-utils';
+
+// POST /api/auth/register - Create an account and sign in
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  // Basic rate limiting
+  const clientIp = request.headers.get('x-forwarded-for') || 
+                   request.headers.get('x-real-ip') || 
+                   'unknown';
+  if (!RateLimiter.check(`auth:${clientIp}`, 10, 60000)) {
+    return RateLimiter.getRateLimitResponse();
+  }
+
+  const body = await RequestValidator.validateJson(request);
+  const validatedData = registerSchema.parse(body);
+
+  const user = await AuthService.register(validatedData);
+  const { token, expiresAt } = await AuthService.createSession(user.id);
+
+  const response = ApiResponseHandler.created(user, 'Cuenta creada exitosamente');
+  return AuthService.setSessionCookie(response, token, expiresAt);
+});
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { CategoryService } from '@/lib/categories';
+import { HistoryService } from '@/lib/history';
+import {
+  withErrorHandling,
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/categories/[id]/archive - Archive a category (its blocks keep it)
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  const category = await CategoryService.setArchived(HistoryService.getContext(request, access), params.id, true);
+
+  return ApiResponseHandler.updated(category, 'Categoría archivada exitosamente');
+});
+
+// DELETE /api/categories/[id]/archive - Take a category out of the archive
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  const category = await CategoryService.setArchived(HistoryService.getContext(request, access), params.id, false);
+
+  return ApiResponseHandler.updated(category, 'Categoría desarchivada exitosamente');
+});
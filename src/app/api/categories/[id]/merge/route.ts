@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { CategoryService } from '@/lib/categories';
+import { HistoryService } from '@/lib/history';
+import { mergeCategorySchema } from '@/lib/validations';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/categories/[id]/merge - Merge a category into another one, deleting it
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  const body = await RequestValidator.validateJson(request);
+  const { targetId } = mergeCategorySchema.parse(body);
+
+  const result = await CategoryService.merge(HistoryService.getContext(request, access), params.id, targetId);
+
+  return ApiResponseHandler.updated(result, 'Categorías fusionadas exitosamente');
+});
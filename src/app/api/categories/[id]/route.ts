@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { CategoryService } from '@/lib/categories';
+import { UnauthorizedError, ForbiddenError, NotFoundError, ValidationError, ConflictError } from '@/lib/api-utils';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const category = await prisma.category.findUnique({
+    const { workspaceId } = await WorkspaceService.requireAccess(request);
+
+    const category = await prisma.category.findFirst({
       where: {
-        id: params.id
+        id: params.id,
+        workspaceId,
+        deletedAt: null
       }
     });
 
@@ -28,6 +36,17 @@ export async function GET(
     });
   } catch (error) {
     console.error('Error fetching category:', error);
+
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error instanceof UnauthorizedError ? 401 : 403 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -43,8 +62,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const access = await WorkspaceService.requireAccess(request, 'editor');
+    const { workspaceId } = access;
+
     const body = await request.json();
-    const { name, color } = body;
+    const { name, color, parentId, allowOverlap } = body;
 
     if (!name || !color) {
       return NextResponse.json(
@@ -56,23 +78,93 @@ export async function PUT(
       );
     }
 
+    const existingCategory = await prisma.category.findFirst({
+      where: {
+        id: params.id,
+        workspaceId,
+        deletedAt: null
+      }
+    });
+
+    if (!existingCategory) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Categoría no encontrada'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Without parentId the category stays where it is; null moves it to the top level
+    if (parentId) {
+      const parentError = await CategoryService.validateParent(workspaceId, params.id, parentId);
+      if (parentError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: parentError
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Blocks that could overlap must not do so once the category stops allowing it
+    if (allowOverlap === false && existingCategory.allowOverlap) {
+      await CategoryService.assertNoOverlaps(workspaceId, params.id, false);
+    }
+
     const category = await prisma.category.update({
       where: {
         id: params.id
       },
       data: {
         name,
-        color
+        color,
+        ...(parentId !== undefined && { parentId: parentId || null }),
+        ...(typeof allowOverlap === 'boolean' && { allowOverlap })
       }
     });
 
+    await HistoryService.record(
+      HistoryService.getContext(request, access),
+      'category',
+      category.id,
+      'update',
+      HistoryService.snapshotCategory(existingCategory),
+      HistoryService.snapshotCategory(category)
+    );
+
     return NextResponse.json({
       success: true,
       data: category
     });
   } catch (error) {
     console.error('Error updating category:', error);
-    
+
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error instanceof UnauthorizedError ? 401 : 403 }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          details: error.details,
+          code: error.code
+        },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof Error && error.message.includes('Record to update not found')) {
       return NextResponse.json(
         {
@@ -108,10 +200,48 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verificar si la categoría tiene bloques asociados
+    const access = await WorkspaceService.requireAccess(request, 'editor');
+    const { workspaceId } = access;
+
+    // Con reassignTo, los bloques y subcategorías pasan a otra categoría antes de eliminarla
+    const reassignTo = new URL(request.url).searchParams.get('reassignTo');
+    if (reassignTo) {
+      const { category, movedBlocks } = await CategoryService.deleteAndReassign(
+        HistoryService.getContext(request, access),
+        params.id,
+        reassignTo
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: { category, movedBlocks },
+        message: `Categoría movida a la papelera; ${movedBlocks} bloques reasignados a "${category.name}"`
+      });
+    }
+
+    const existingCategory = await prisma.category.findFirst({
+      where: {
+        id: params.id,
+        workspaceId,
+        deletedAt: null
+      }
+    });
+
+    if (!existingCategory) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Categoría no encontrada'
+        },
+        { status: 404 }
+      );
+    }
+
+    // Verificar si la categoría tiene bloques asociados (fuera de la papelera)
     const blocksCount = await prisma.scheduleBlock.count({
       where: {
-        categoryId: params.id
+        categoryId: params.id,
+        deletedAt: null
       }
     });
 
@@ -119,25 +249,87 @@ export async function DELETE(
       return NextResponse.json(
         {
           success: false,
-          error: 'No se puede eliminar la categoría porque tiene bloques asociados'
+          error: 'No se puede eliminar la categoría porque tiene bloques asociados. Reasígnalos a otra categoría (reassignTo) o archívala'
         },
         { status: 409 }
       );
     }
 
-    await prisma.category.delete({
+    const childrenCount = await prisma.category.count({
+      where: {
+        parentId: params.id,
+        deletedAt: null
+      }
+    });
+
+    if (childrenCount > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No se puede eliminar la categoría porque tiene subcategorías'
+        },
+        { status: 409 }
+      );
+    }
+
+    // Mover a la papelera (se puede restaurar hasta que se purgue)
+    const trashedCategory = await prisma.category.update({
       where: {
         id: params.id
+      },
+      data: {
+        deletedAt: new Date()
       }
     });
 
+    await HistoryService.record(
+      HistoryService.getContext(request, access),
+      'category',
+      params.id,
+      'delete',
+      HistoryService.snapshotCategory(existingCategory),
+      HistoryService.snapshotCategory(trashedCategory)
+    );
+
     return NextResponse.json({
       success: true,
-      message: 'Categoría eliminada correctamente'
+      message: 'Categoría movida a la papelera'
     });
   } catch (error) {
     console.error('Error deleting category:', error);
-    
+
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error instanceof UnauthorizedError ? 401 : 403 }
+      );
+    }
+
+    if (error instanceof NotFoundError || error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error instanceof NotFoundError ? 404 : 400 }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          details: error.details,
+          code: error.code
+        },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof Error && error.message.includes('Record to delete does not exist')) {
       return NextResponse.json(
         {
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { CategoryService } from '@/lib/categories';
+import { reorderCategoriesSchema } from '@/lib/validations';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator
+} from '@/lib/api-utils';
+
+// PUT /api/categories/order - Set the order of the categories
+export const PUT = withErrorHandling(async (request: NextRequest) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+
+  const body = await RequestValidator.validateJson(request);
+  const { ids } = reorderCategoriesSchema.parse(body);
+
+  const categories = await CategoryService.reorder(workspaceId, ids);
+
+  return ApiResponseHandler.updated(categories, 'Orden de las categorías actualizado exitosamente');
+});
@@ -1,25 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getDefaultCategories } from '@/lib/utils';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { CategoryService } from '@/lib/categories';
+import { UnauthorizedError, ForbiddenError } from '@/lib/api-utils';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const { workspaceId, role } = await WorkspaceService.requireAccess(request);
+
     const categories = await prisma.category.findMany({
-      orderBy: {
-        name: 'asc'
-      }
+      where: {
+        workspaceId,
+        deletedAt: null
+      },
+      orderBy: [
+        { position: 'asc' },
+        { name: 'asc' }
+      ]
     });
 
-    // Si no hay categorías, crear las por defecto
-    if (categories.length === 0) {
+    // Si el espacio nunca ha tenido categorías (ni en la papelera), crear las por defecto
+    // (requiere permisos de edición)
+    const isNewWorkspace = categories.length === 0 &&
+      await prisma.category.count({ where: { workspaceId } }) === 0;
+
+    if (isNewWorkspace && WorkspaceService.hasRole(role, 'editor')) {
       const defaultCategories = getDefaultCategories();
       const createdCategories = await Promise.all(
-        defaultCategories.map(category =>
+        defaultCategories.map((category, position) =>
           prisma.category.create({
-            data: category
+            data: {
+              ...category,
+              position,
+              workspaceId
+            }
           })
         )
       );
+
+      await HistoryService.recordMany(
+        HistoryService.getSystemContext(workspaceId),
+        'category',
+        'create',
+        createdCategories.map(category => ({
+          entityId: category.id,
+          before: null,
+          after: HistoryService.snapshotCategory(category)
+        }))
+      );
       
       return NextResponse.json({
         success: true,
@@ -33,6 +63,17 @@ export async function GET() {
     });
   } catch (error) {
     console.error('Error fetching categories:', error);
+
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error instanceof UnauthorizedError ? 401 : 403 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -45,8 +86,11 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const access = await WorkspaceService.requireAccess(request, 'editor');
+    const { workspaceId } = access;
+
     const body = await request.json();
-    const { name, color } = body;
+    const { name, color, parentId, allowOverlap } = body;
 
     if (!name || !color) {
       return NextResponse.json(
@@ -58,20 +102,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (parentId) {
+      const parentError = await CategoryService.validateParent(workspaceId, null, parentId);
+      if (parentError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: parentError
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // El nombre sigue ocupado mientras la categoría está en la papelera
+    const trashedCategory = await prisma.category.findFirst({
+      where: {
+        workspaceId,
+        name,
+        deletedAt: { not: null }
+      }
+    });
+
+    if (trashedCategory) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Hay una categoría con ese nombre en la papelera. Restáurala o elimínala definitivamente'
+        },
+        { status: 409 }
+      );
+    }
+
+    // Las categorías nuevas van al final de la lista
+    const { _max } = await prisma.category.aggregate({
+      where: { workspaceId },
+      _max: { position: true }
+    });
+
     const category = await prisma.category.create({
       data: {
         name,
-        color
+        color,
+        parentId: parentId || null,
+        allowOverlap: allowOverlap === true,
+        position: (_max.position ?? -1) + 1,
+        workspaceId
       }
     });
 
+    await HistoryService.record(
+      HistoryService.getContext(request, access),
+      'category',
+      category.id,
+      'create',
+      null,
+      HistoryService.snapshotCategory(category)
+    );
+
     return NextResponse.json({
       success: true,
       data: category
     });
   } catch (error) {
     console.error('Error creating category:', error);
-    
+
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error instanceof UnauthorizedError ? 401 : 403 }
+      );
+    }
+
     // Manejar error de nombre duplicado
     if (error instanceof Error && error.message.includes('Unique constraint')) {
       return NextResponse.json(
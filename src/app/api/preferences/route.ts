@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { AuthService } from '@/lib/auth';
+import { PreferencesService } from '@/lib/preferences';
+import { updatePreferencesSchema } from '@/lib/validations';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+// GET /api/preferences - Settings of the signed-in user
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await AuthService.requireUser(request);
+
+  const preferences = await PreferencesService.get(user.id);
+
+  return ApiResponseHandler.success(preferences, 'Preferencias obtenidas exitosamente');
+});
+
+// PUT /api/preferences - Change some of the settings
+export const PUT = withErrorHandling(async (request: NextRequest) => {
+  const user = await AuthService.requireUser(request);
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = updatePreferencesSchema.parse(body);
+
+  const preferences = await PreferencesService.update(user.id, validatedData);
+
+  return ApiResponseHandler.updated(preferences, 'Preferencias actualizadas exitosamente');
+});
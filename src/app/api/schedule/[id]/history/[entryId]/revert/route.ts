@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { historyVersionSchema } from '@/lib/validations';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator,
+  RateLimiter,
+  NotFoundError
+} from '@/lib/api-utils';
+import {
+  withApiMiddleware,
+  RequestLogger
+} from '@/lib/api-middleware';
+
+interface RouteParams {
+  params: {
+    id: string;
+    entryId: string;
+  };
+}
+
+// POST /api/schedule/[id]/history/[entryId]/revert - Bring a block back to the version after (or before) a change
+export const POST = withApiMiddleware(withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  RequestLogger.log(request);
+
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  // Basic rate limiting
+  const clientIp = request.headers.get('x-forwarded-for') ||
+                   request.headers.get('x-real-ip') ||
+                   'unknown';
+  if (!RateLimiter.check(clientIp, 50, 60000)) {
+    return RateLimiter.getRateLimitResponse();
+  }
+
+  const { id, entryId } = params;
+
+  // Validate ID format
+  const idError = RequestValidator.validateId(id) || RequestValidator.validateId(entryId);
+  if (idError) {
+    throw new NotFoundError(idError);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const version = historyVersionSchema.parse(searchParams.get('version') ?? 'after');
+  // Undo only reverts the change while nobody else has changed the block since
+  const ifLatest = searchParams.get('ifLatest') === 'true';
+
+  const reverted = await HistoryService.revertBlock(
+    HistoryService.getContext(request, access), id, entryId, version, ifLatest
+  );
+
+  const response = HistoryService.withEntry(
+    ApiResponseHandler.updated(reverted.block, 'Versión restaurada exitosamente'),
+    reverted.entryId
+  );
+  RequestLogger.log(request, response);
+  return response;
+}));
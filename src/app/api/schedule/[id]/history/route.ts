@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator,
+  RateLimiter,
+  NotFoundError
+} from '@/lib/api-utils';
+import {
+  withApiMiddleware,
+  RequestLogger
+} from '@/lib/api-middleware';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/schedule/[id]/history - Changes of a block, most recent first (also for trashed blocks)
+export const GET = withApiMiddleware(withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  RequestLogger.log(request);
+
+  const { workspaceId } = await WorkspaceService.requireAccess(request);
+
+  // Basic rate limiting
+  const clientIp = request.headers.get('x-forwarded-for') ||
+                   request.headers.get('x-real-ip') ||
+                   'unknown';
+  if (!RateLimiter.check(clientIp, 100, 60000)) {
+    return RateLimiter.getRateLimitResponse();
+  }
+
+  const { id } = params;
+
+  // Validate ID format
+  const idError = RequestValidator.validateId(id);
+  if (idError) {
+    throw new NotFoundError(idError);
+  }
+
+  const history = await HistoryService.getHistory(workspaceId, 'block', id);
+
+  if (history.length === 0) {
+    throw new NotFoundError('Bloque no encontrado');
+  }
+
+  const response = ApiResponseHandler.success(history, 'Historial obtenido exitosamente');
+  RequestLogger.log(request, response);
+  return response;
+}));
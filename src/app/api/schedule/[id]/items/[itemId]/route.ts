@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { updateChecklistItemSchema } from '@/lib/validations';
+import { ChecklistService } from '@/lib/checklists';
+import { WorkspaceService } from '@/lib/workspaces';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+    itemId: string;
+  };
+}
+
+// PUT /api/schedule/[id]/items/[itemId] - Rename an item or mark it as done
+export const PUT = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = updateChecklistItemSchema.parse(body);
+
+  const item = await ChecklistService.update(workspaceId, params.id, params.itemId, validatedData);
+
+  return ApiResponseHandler.updated(item, 'Elemento actualizado exitosamente');
+});
+
+// DELETE /api/schedule/[id]/items/[itemId] - Remove an item from the checklist
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+
+  await ChecklistService.delete(workspaceId, params.id, params.itemId);
+
+  return ApiResponseHandler.deleted('Elemento eliminado exitosamente');
+});
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { reorderChecklistItemsSchema } from '@/lib/validations';
+import { ChecklistService } from '@/lib/checklists';
+import { WorkspaceService } from '@/lib/workspaces';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// PUT /api/schedule/[id]/items/order - Set the order of the checklist
+export const PUT = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  const { ids } = reorderChecklistItemsSchema.parse(body);
+
+  const items = await ChecklistService.reorder(workspaceId, params.id, ids);
+
+  return ApiResponseHandler.updated(items, 'Orden de los elementos actualizado exitosamente');
+});
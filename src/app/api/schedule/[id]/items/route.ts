@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { createChecklistItemSchema } from '@/lib/validations';
+import { ChecklistService } from '@/lib/checklists';
+import { WorkspaceService } from '@/lib/workspaces';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/schedule/[id]/items - Checklist of a block, in order
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request);
+
+  const items = await ChecklistService.list(workspaceId, params.id);
+
+  return ApiResponseHandler.success(items, 'Elementos obtenidos exitosamente');
+});
+
+// POST /api/schedule/[id]/items - Add an item at the end of the checklist
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = createChecklistItemSchema.parse(body);
+
+  const item = await ChecklistService.create(workspaceId, params.id, validatedData);
+
+  return ApiResponseHandler.created(item, 'Elemento creado exitosamente');
+});
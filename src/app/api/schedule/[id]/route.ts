@@ -1,13 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { updateBlockSchema } from '@/lib/validations';
+import { updateBlockSchemaFor } from '@/lib/validations';
+import { PreferencesService } from '@/lib/preferences';
+import { ScheduleOverlapService } from '@/lib/schedule-overlap';
+import { RecurringSeriesService } from '@/lib/recurring-series';
+import { WorkspaceService } from '@/lib/workspaces';
+import { TrashService } from '@/lib/trash';
+import { HistoryService } from '@/lib/history';
+import { CHECKLIST_INCLUDE } from '@/lib/checklists';
+import { ATTENDEES_INCLUDE, AttendeeService } from '@/lib/attendees';
+import { TagService } from '@/lib/tags';
 import { 
   withErrorHandling, 
   ApiResponseHandler, 
   RequestValidator,
   RateLimiter,
   NotFoundError,
-  ConflictError 
+  ConflictError,
+  ValidationError
 } from '@/lib/api-utils';
 import { 
   withApiMiddleware, 
@@ -27,6 +37,8 @@ export const GET = withApiMiddleware(withErrorHandling(async (
   { params }: RouteParams
 ) => {
   RequestLogger.log(request);
+
+  const { workspaceId } = await WorkspaceService.requireAccess(request);
   
   // Basic rate limiting
   const clientIp = request.headers.get('x-forwarded-for') || 
@@ -44,10 +56,13 @@ export const GET = withApiMiddleware(withErrorHandling(async (
     throw new NotFoundError(idError);
   }
 
-  const block = await prisma.scheduleBlock.findUnique({
-    where: { id },
+  const block = await prisma.scheduleBlock.findFirst({
+    where: { id, workspaceId, deletedAt: null },
     include: {
       category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
     },
   });
 
@@ -66,6 +81,10 @@ export const PUT = withApiMiddleware(withErrorHandling(async (
   { params }: RouteParams
 ) => {
   RequestLogger.log(request);
+
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+  const { workspaceId } = access;
+  const historyContext = HistoryService.getContext(request, access);
   
   // Basic rate limiting
   const clientIp = request.headers.get('x-forwarded-for') || 
@@ -83,11 +102,21 @@ export const PUT = withApiMiddleware(withErrorHandling(async (
     throw new NotFoundError(idError);
   }
 
+  const { scope, originalStartTime } = RecurringSeriesService.parseScopeParams(
+    new URL(request.url).searchParams
+  );
+
   const body = await RequestValidator.validateJson(request);
 
   // Check if block exists
-  const existingBlock = await prisma.scheduleBlock.findUnique({
-    where: { id },
+  const existingBlock = await prisma.scheduleBlock.findFirst({
+    where: { id, workspaceId, deletedAt: null },
+    include: {
+      category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
+    },
   });
 
   if (!existingBlock) {
@@ -104,52 +133,212 @@ export const PUT = withApiMiddleware(withErrorHandling(async (
     endTime: sanitizedData.endTime ? new Date(sanitizedData.endTime) : undefined,
   };
 
-  // Validate request body with Zod
-  const validatedData = updateBlockSchema.parse(updateData);
+  // Validate request body with Zod, against the slots of the user
+  const { slotMinutes, timeZone } = await PreferencesService.getSlotSettings(access.user.id);
+  const validatedData = updateBlockSchemaFor(slotMinutes, timeZone).parse(updateData);
+  let { startTime, endTime } = validatedData;
 
   // If categoryId is provided, check if category exists
-  if (validatedData.categoryId) {
-    const category = await prisma.category.findUnique({
-      where: { id: validatedData.categoryId },
+  const category = validatedData.categoryId
+    ? await prisma.category.findFirst({
+        where: { id: validatedData.categoryId, workspaceId, deletedAt: null },
+      })
+    : existingBlock.category;
+
+  if (!category) {
+    throw new NotFoundError('La categoría especificada no existe');
+  }
+
+  // Overlaps are allowed by the block or by its (new) category
+  const allowOverlap = validatedData.allowOverlap ?? existingBlock.allowOverlap;
+
+  if (existingBlock.recurrenceRule && originalStartTime && scope !== 'all') {
+    RecurringSeriesService.assertOccurrence(existingBlock, originalStartTime);
+  }
+
+  // Only this occurrence: stored as an exception of the series
+  if (existingBlock.recurrenceRule && originalStartTime && scope === 'this') {
+    if (validatedData.recurrenceRule !== undefined &&
+        (validatedData.recurrenceRule || null) !== existingBlock.recurrenceRule) {
+      throw new ValidationError('La regla de recurrencia solo puede cambiarse para toda la serie o las siguientes ocurrencias');
+    }
+
+    if (validatedData.allDay !== undefined && validatedData.allDay !== existingBlock.allDay) {
+      throw new ValidationError('El cambio a todo el día solo puede aplicarse a toda la serie o a las siguientes ocurrencias');
+    }
+
+    // Tags belong to the series
+    if (TagService.isChanged(validatedData.tags, existingBlock.tags)) {
+      throw new ValidationError('Las etiquetas solo pueden cambiarse para toda la serie o las siguientes ocurrencias');
+    }
+
+    // So do the location, the meeting link and the attendees
+    if ((validatedData.location !== undefined && (validatedData.location || null) !== existingBlock.location) ||
+        (validatedData.meetingUrl !== undefined && (validatedData.meetingUrl || null) !== existingBlock.meetingUrl) ||
+        AttendeeService.isChanged(validatedData.attendees, existingBlock.attendees)) {
+      throw new ValidationError('La ubicación, el enlace y los asistentes solo pueden cambiarse para toda la serie o las siguientes ocurrencias');
+    }
+
+    if (validatedData.allowOverlap !== undefined && validatedData.allowOverlap !== existingBlock.allowOverlap) {
+      throw new ValidationError('Permitir superposiciones solo puede cambiarse para toda la serie o las siguientes ocurrencias');
+    }
+
+    const existingOccurrence = await RecurringSeriesService.getOccurrence(existingBlock, originalStartTime);
+    const occurrenceStart = startTime || existingOccurrence.startTime;
+    const occurrenceEnd = endTime || existingOccurrence.endTime;
+
+    if (occurrenceEnd <= occurrenceStart) {
+      throw new ValidationError('La hora de fin debe ser posterior a la hora de inicio');
+    }
+
+    const overlappingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+      workspaceId,
+      ScheduleOverlapService.getBlockIntervals({
+        startTime: occurrenceStart,
+        endTime: occurrenceEnd,
+        allDay: existingBlock.allDay,
+        allowOverlap,
+        // The occurrence may already be in a category of its own
+        category: validatedData.categoryId ? category : existingOccurrence.category,
+      }),
+      id,
+      originalStartTime
+    );
+
+    if (overlappingBlocks.length > 0) {
+      throw new ConflictError(
+        'La ocurrencia actualizada se superpondría con otro bloque existente',
+        { conflictingBlocks: overlappingBlocks }
+      );
+    }
+
+    const exception = await RecurringSeriesService.updateOccurrence(existingBlock, originalStartTime, validatedData);
+    const updatedOccurrence = RecurringSeriesService.applyException(existingBlock, {
+      startTime: occurrenceStart,
+      endTime: occurrenceEnd,
+      originalStartTime,
+      exception,
     });
 
-    if (!category) {
-      throw new NotFoundError('La categoría especificada no existe');
+    const entryId = await HistoryService.record(
+      historyContext,
+      'block',
+      id,
+      'update',
+      HistoryService.snapshotBlock(existingOccurrence, originalStartTime),
+      HistoryService.snapshotBlock(updatedOccurrence, originalStartTime)
+    );
+
+    const response = HistoryService.withEntry(
+      ApiResponseHandler.updated(updatedOccurrence, 'Ocurrencia actualizada exitosamente'),
+      entryId
+    );
+    RequestLogger.log(request, response);
+    return response;
+  }
+
+  // This and following occurrences: the series is split into a new one from this occurrence
+  if (existingBlock.recurrenceRule && originalStartTime && scope === 'following' &&
+      originalStartTime.getTime() > existingBlock.startTime.getTime()) {
+    const duration = existingBlock.endTime.getTime() - existingBlock.startTime.getTime();
+    const followingStart = startTime || originalStartTime;
+    const followingEnd = endTime || new Date(originalStartTime.getTime() + duration);
+
+    if (followingEnd <= followingStart) {
+      throw new ValidationError('La hora de fin debe ser posterior a la hora de inicio');
+    }
+
+    const overlappingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+      workspaceId,
+      ScheduleOverlapService.getBlockIntervals({
+        startTime: followingStart,
+        endTime: followingEnd,
+        recurrenceRule: validatedData.recurrenceRule !== undefined
+          ? validatedData.recurrenceRule || null
+          : RecurringSeriesService.getFollowingRule(existingBlock, originalStartTime),
+        allDay: validatedData.allDay ?? existingBlock.allDay,
+        timeZone: existingBlock.timeZone,
+        allowOverlap,
+        category,
+      }),
+      id
+    );
+
+    if (overlappingBlocks.length > 0) {
+      throw new ConflictError(
+        'Las ocurrencias actualizadas se superpondrían con otro bloque existente',
+        { conflictingBlocks: overlappingBlocks }
+      );
     }
+
+    const newBlock = await RecurringSeriesService.splitSeries(
+      existingBlock,
+      originalStartTime,
+      validatedData,
+      validatedData.tags ? await TagService.resolve(workspaceId, validatedData.tags) : existingBlock.tags,
+      existingBlock.checklistItems,
+      validatedData.attendees ?? existingBlock.attendees.map(attendee => attendee.email)
+    );
+    const truncatedBlock = await prisma.scheduleBlock.findUniqueOrThrow({ where: { id } });
+
+    // The entry reported is the one of the truncated block (the one in the URL)
+    const entryId = await HistoryService.record(
+      historyContext,
+      'block',
+      id,
+      'update',
+      HistoryService.snapshotBlock(existingBlock),
+      HistoryService.snapshotBlock(truncatedBlock)
+    );
+    await HistoryService.record(historyContext, 'block', newBlock.id, 'create', null, HistoryService.snapshotBlock(newBlock));
+
+    const response = HistoryService.withEntry(
+      ApiResponseHandler.updated(newBlock, 'Ocurrencias actualizadas exitosamente'),
+      entryId
+    );
+    RequestLogger.log(request, response);
+    return response;
   }
 
-  // Check for overlapping blocks (excluding current block)
-  if (validatedData.startTime || validatedData.endTime) {
-    const startTime = validatedData.startTime || existingBlock.startTime;
-    const endTime = validatedData.endTime || existingBlock.endTime;
-
-    const overlappingBlocks = await prisma.scheduleBlock.findMany({
-      where: {
-        AND: [
-          {
-            id: {
-              not: id, // Exclude current block
-            },
-          },
-          {
-            startTime: {
-              lt: endTime,
-            },
-          },
-          {
-            endTime: {
-              gt: startTime,
-            },
-          },
-        ],
-      },
-      select: {
-        id: true,
-        title: true,
-        startTime: true,
-        endTime: true,
-      },
-    });
+  // Whole series: editing from an occurrence moves every occurrence by the same offset
+  if (existingBlock.recurrenceRule && originalStartTime) {
+    const offset = originalStartTime.getTime() - existingBlock.startTime.getTime();
+    startTime = startTime && new Date(startTime.getTime() - offset);
+    endTime = endTime && new Date(endTime.getTime() - offset);
+  }
+
+  // Only one of the times may be sent: the result must still end after it starts
+  if ((endTime || existingBlock.endTime) <= (startTime || existingBlock.startTime)) {
+    throw new ValidationError('La hora de fin debe ser posterior a la hora de inicio');
+  }
+
+  const recurrenceRule = validatedData.recurrenceRule !== undefined
+    ? validatedData.recurrenceRule || null
+    : existingBlock.recurrenceRule;
+
+  // Exceptions refer to the original occurrence times, so they are dropped when those change
+  const seriesChanged = Boolean(existingBlock.recurrenceRule) && (
+    (startTime && startTime.getTime() !== existingBlock.startTime.getTime()) ||
+    (endTime && endTime.getTime() !== existingBlock.endTime.getTime()) ||
+    recurrenceRule !== existingBlock.recurrenceRule
+  );
+
+  // Check for overlapping blocks (excluding current block), also when it stops allowing overlaps
+  if (startTime || endTime || validatedData.recurrenceRule !== undefined || validatedData.allDay !== undefined ||
+      validatedData.allowOverlap !== undefined || validatedData.categoryId) {
+    const overlappingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+      workspaceId,
+      ScheduleOverlapService.getBlockIntervals({
+        startTime: startTime || existingBlock.startTime,
+        endTime: endTime || existingBlock.endTime,
+        recurrenceRule,
+        allDay: validatedData.allDay ?? existingBlock.allDay,
+        timeZone: existingBlock.timeZone,
+        allowOverlap,
+        category,
+      }),
+      id
+    );
 
     if (overlappingBlocks.length > 0) {
       throw new ConflictError(
@@ -165,26 +354,53 @@ export const PUT = withApiMiddleware(withErrorHandling(async (
     data: {
       ...(validatedData.title && { title: validatedData.title }),
       ...(validatedData.description !== undefined && { description: validatedData.description }),
-      ...(validatedData.startTime && { startTime: validatedData.startTime }),
-      ...(validatedData.endTime && { endTime: validatedData.endTime }),
+      ...(startTime && { startTime }),
+      ...(endTime && { endTime }),
+      ...(validatedData.allDay !== undefined && { allDay: validatedData.allDay }),
+      ...(validatedData.allowOverlap !== undefined && { allowOverlap: validatedData.allowOverlap }),
       ...(validatedData.categoryId && { categoryId: validatedData.categoryId }),
+      ...(validatedData.recurrenceRule !== undefined && { recurrenceRule }),
+      ...(validatedData.location !== undefined && { location: validatedData.location || null }),
+      ...(validatedData.meetingUrl !== undefined && { meetingUrl: validatedData.meetingUrl || null }),
+      ...(validatedData.tags && { tags: { set: await TagService.resolve(workspaceId, validatedData.tags) } }),
+      ...(validatedData.attendees && { attendees: AttendeeService.toReplace(validatedData.attendees) }),
+      ...(seriesChanged && { exceptions: { deleteMany: {} } }),
     },
     include: {
       category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
     },
   });
 
-  const response = ApiResponseHandler.updated(updatedBlock, 'Bloque actualizado exitosamente');
+  const entryId = await HistoryService.record(
+    historyContext,
+    'block',
+    id,
+    'update',
+    HistoryService.snapshotBlock(existingBlock),
+    HistoryService.snapshotBlock(updatedBlock)
+  );
+
+  const response = HistoryService.withEntry(
+    ApiResponseHandler.updated(updatedBlock, 'Bloque actualizado exitosamente'),
+    entryId
+  );
   RequestLogger.log(request, response);
   return response;
 }));
 
-// DELETE /api/schedule/[id] - Delete block
+// DELETE /api/schedule/[id] - Move block to the trash
 export const DELETE = withApiMiddleware(withErrorHandling(async (
   request: NextRequest,
   { params }: RouteParams
 ) => {
   RequestLogger.log(request);
+
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+  const { workspaceId } = access;
+  const historyContext = HistoryService.getContext(request, access);
   
   // Basic rate limiting
   const clientIp = request.headers.get('x-forwarded-for') || 
@@ -202,21 +418,65 @@ export const DELETE = withApiMiddleware(withErrorHandling(async (
     throw new NotFoundError(idError);
   }
 
+  const { scope, originalStartTime } = RecurringSeriesService.parseScopeParams(
+    new URL(request.url).searchParams
+  );
+
   // Check if block exists
-  const existingBlock = await prisma.scheduleBlock.findUnique({
-    where: { id },
+  const existingBlock = await prisma.scheduleBlock.findFirst({
+    where: { id, workspaceId, deletedAt: null },
   });
 
   if (!existingBlock) {
     throw new NotFoundError('Bloque no encontrado');
   }
 
-  // Delete the block
-  await prisma.scheduleBlock.delete({
-    where: { id },
-  });
+  // Only this occurrence, or this and following ones, of a recurring block
+  if (existingBlock.recurrenceRule && originalStartTime && scope !== 'all') {
+    RecurringSeriesService.assertOccurrence(existingBlock, originalStartTime);
+
+    let entryId: string;
+    if (scope === 'this') {
+      const existingOccurrence = await RecurringSeriesService.getOccurrence(existingBlock, originalStartTime);
+      await RecurringSeriesService.cancelOccurrence(existingBlock, originalStartTime);
+
+      entryId = await HistoryService.record(
+        historyContext,
+        'block',
+        id,
+        'delete',
+        HistoryService.snapshotBlock(existingOccurrence, originalStartTime),
+        null
+      );
+    } else {
+      await RecurringSeriesService.truncateSeries(existingBlock, originalStartTime);
+      const truncatedBlock = await prisma.scheduleBlock.findUniqueOrThrow({ where: { id } });
+
+      // Truncating from the first occurrence moves the whole block to the trash
+      entryId = await HistoryService.record(
+        historyContext,
+        'block',
+        id,
+        truncatedBlock.deletedAt ? 'delete' : 'update',
+        HistoryService.snapshotBlock(existingBlock),
+        HistoryService.snapshotBlock(truncatedBlock)
+      );
+    }
+
+    const response = HistoryService.withEntry(
+      ApiResponseHandler.deleted(
+        scope === 'this' ? 'Ocurrencia eliminada exitosamente' : 'Ocurrencias eliminadas exitosamente'
+      ),
+      entryId
+    );
+    RequestLogger.log(request, response);
+    return response;
+  }
+
+  // Move the block to the trash (it can be restored until it is purged)
+  const entryId = await TrashService.trashBlock(historyContext, id);
 
-  const response = ApiResponseHandler.deleted('Bloque eliminado exitosamente');
+  const response = HistoryService.withEntry(ApiResponseHandler.deleted('Bloque movido a la papelera'), entryId);
   RequestLogger.log(request, response);
   return response;
 }));
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { updateBlockStatusSchema } from '@/lib/validations';
+import { RecurringSeriesService } from '@/lib/recurring-series';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { CHECKLIST_INCLUDE } from '@/lib/checklists';
+import { ATTENDEES_INCLUDE } from '@/lib/attendees';
+import {
+  withErrorHandling,
+  ApiResponseHandler,
+  RequestValidator,
+  RateLimiter,
+  NotFoundError,
+  ValidationError
+} from '@/lib/api-utils';
+import {
+  withApiMiddleware,
+  RequestLogger
+} from '@/lib/api-middleware';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// PUT /api/schedule/[id]/status - Mark a block (or an occurrence) as planned, done, skipped or partial
+export const PUT = withApiMiddleware(withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  RequestLogger.log(request);
+
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+  const { workspaceId } = access;
+  const historyContext = HistoryService.getContext(request, access);
+
+  // Basic rate limiting
+  const clientIp = request.headers.get('x-forwarded-for') ||
+                   request.headers.get('x-real-ip') ||
+                   'unknown';
+  if (!RateLimiter.check(clientIp, 100, 60000)) {
+    return RateLimiter.getRateLimitResponse();
+  }
+
+  const { id } = params;
+
+  // Validate ID format
+  const idError = RequestValidator.validateId(id);
+  if (idError) {
+    throw new NotFoundError(idError);
+  }
+
+  const { originalStartTime } = RecurringSeriesService.parseScopeParams(
+    new URL(request.url).searchParams
+  );
+
+  const body = await RequestValidator.validateJson(request);
+  const { status } = updateBlockStatusSchema.parse(body);
+
+  // Check if block exists
+  const existingBlock = await prisma.scheduleBlock.findFirst({
+    where: { id, workspaceId, deletedAt: null },
+    include: {
+      category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
+    },
+  });
+
+  if (!existingBlock) {
+    throw new NotFoundError('Bloque no encontrado');
+  }
+
+  // Recurring blocks track the status of each occurrence separately
+  if (existingBlock.recurrenceRule) {
+    if (!originalStartTime) {
+      throw new ValidationError('originalStartTime es requerido para marcar una ocurrencia de un bloque recurrente');
+    }
+
+    RecurringSeriesService.assertOccurrence(existingBlock, originalStartTime);
+
+    const existingOccurrence = await RecurringSeriesService.getOccurrence(existingBlock, originalStartTime);
+    const exception = await RecurringSeriesService.updateOccurrence(existingBlock, originalStartTime, { status });
+    const updatedOccurrence = RecurringSeriesService.applyException(existingBlock, {
+      startTime: existingOccurrence.startTime,
+      endTime: existingOccurrence.endTime,
+      originalStartTime,
+      exception,
+    });
+
+    const entryId = await HistoryService.record(
+      historyContext,
+      'block',
+      id,
+      'update',
+      HistoryService.snapshotBlock(existingOccurrence, originalStartTime),
+      HistoryService.snapshotBlock(updatedOccurrence, originalStartTime)
+    );
+
+    const response = HistoryService.withEntry(
+      ApiResponseHandler.updated(updatedOccurrence, 'Estado de la ocurrencia actualizado exitosamente'),
+      entryId
+    );
+    RequestLogger.log(request, response);
+    return response;
+  }
+
+  const updatedBlock = await prisma.scheduleBlock.update({
+    where: { id },
+    data: { status },
+    include: {
+      category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
+    },
+  });
+
+  const entryId = await HistoryService.record(
+    historyContext,
+    'block',
+    id,
+    'update',
+    HistoryService.snapshotBlock(existingBlock),
+    HistoryService.snapshotBlock(updatedBlock)
+  );
+
+  const response = HistoryService.withEntry(
+    ApiResponseHandler.updated(updatedBlock, 'Estado del bloque actualizado exitosamente'),
+    entryId
+  );
+  RequestLogger.log(request, response);
+  return response;
+}));
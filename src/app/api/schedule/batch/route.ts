@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { scheduleBatchSchemaFor } from '@/lib/validations';
+import { ScheduleBatchService } from '@/lib/schedule-batch';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { PreferencesService } from '@/lib/preferences';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+// POST /api/schedule/batch - Create, update and delete several blocks at once (all-or-nothing)
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  // Dates of each operation are converted before validating with Zod
+  const operations = Array.isArray(body.operations)
+    ? body.operations.map((operation: { data?: Record<string, unknown> }) => ({
+        ...operation,
+        data: operation?.data && {
+          ...operation.data,
+          startTime: operation.data.startTime ? new Date(operation.data.startTime as string) : undefined,
+          endTime: operation.data.endTime ? new Date(operation.data.endTime as string) : undefined,
+        },
+      }))
+    : body.operations;
+
+  const { slotMinutes, timeZone } = await PreferencesService.getSlotSettings(access.user.id);
+  const validatedData = scheduleBatchSchemaFor(slotMinutes, timeZone).parse({ operations });
+
+  const results = await ScheduleBatchService.run(
+    HistoryService.getContext(request, access),
+    validatedData.operations,
+    timeZone
+  );
+
+  return ApiResponseHandler.success(results, `${results.length} operaciones aplicadas exitosamente`);
+});
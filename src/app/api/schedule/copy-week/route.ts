@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { copyWeekSchema } from '@/lib/validations';
+import { WeekCopyService } from '@/lib/week-copy';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { PreferencesService } from '@/lib/preferences';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+// POST /api/schedule/copy-week - Copy the blocks of a week (or some of its days) to another week
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = copyWeekSchema.parse({
+    ...body,
+    sourceWeek: body.sourceWeek ? new Date(body.sourceWeek) : undefined,
+    targetWeek: body.targetWeek ? new Date(body.targetWeek) : undefined,
+  });
+
+  const { timeZone, weekStartsOn } = await PreferencesService.get(access.user.id);
+  const result = await WeekCopyService.copyWeek(
+    HistoryService.getContext(request, access),
+    validatedData,
+    timeZone,
+    weekStartsOn
+  );
+
+  if (validatedData.dryRun) {
+    return ApiResponseHandler.success(result, 'Vista previa de la copia generada exitosamente');
+  }
+
+  return ApiResponseHandler.created(result, `${result.created.length} bloques copiados exitosamente`);
+});
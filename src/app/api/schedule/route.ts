@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { createBlockSchema } from '@/lib/validations';
-import { startOfWeek, endOfWeek } from 'date-fns';
+import { createBlockSchemaFor } from '@/lib/validations';
+import { RecurrenceService } from '@/lib/recurrence';
+import { ScheduleOverlapService } from '@/lib/schedule-overlap';
+import { RecurringSeriesService } from '@/lib/recurring-series';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { TagService } from '@/lib/tags';
+import { CHECKLIST_INCLUDE } from '@/lib/checklists';
+import { ATTENDEES_INCLUDE, AttendeeService } from '@/lib/attendees';
+import { PreferencesService } from '@/lib/preferences';
+import { addZonedDays, startOfZonedWeek } from '@/lib/timezone';
 import { 
   withErrorHandling, 
   ApiResponseHandler, 
@@ -18,50 +27,100 @@ import {
 
 // GET /api/schedule - Fetch blocks by week
 export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { user, workspaceId } = await WorkspaceService.requireAccess(request);
   const { searchParams } = new URL(request.url);
   const dateParam = searchParams.get('date');
   
   // Validate and parse date parameter
   const targetDate = RequestValidator.validateDateParam(dateParam);
+
+  // Only blocks with any of these tags
+  const tagNames = TagService.parseFilter(searchParams);
+  const tagFilter = tagNames && { tags: { some: { name: { in: tagNames } } } };
   
-  // Calculate week boundaries (Sunday to Saturday)
-  const weekStart = startOfWeek(targetDate, { weekStartsOn: 0 });
-  const weekEnd = endOfWeek(targetDate, { weekStartsOn: 0 });
+  // Calculate week boundaries in the user's time zone, from their first day of the week
+  const { timeZone, weekStartsOn } = await PreferencesService.get(user.id);
+  const weekStart = startOfZonedWeek(targetDate, timeZone, weekStartsOn);
+  const weekEnd = new Date(addZonedDays(weekStart, 7, timeZone).getTime() - 1);
   
-  const blocks = await prisma.scheduleBlock.findMany({
+  const singleBlocks = await prisma.scheduleBlock.findMany({
     where: {
-      startTime: {
-        gte: weekStart,
-        lte: weekEnd,
-      },
+      workspaceId,
+      deletedAt: null,
+      recurrenceRule: null,
+      // Blocks crossing midnight or lasting several days are returned in every week they touch
+      startTime: { lte: weekEnd },
+      endTime: { gt: weekStart },
+      ...tagFilter,
     },
     include: {
       category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
     },
-    orderBy: {
-      startTime: 'asc',
+  });
+
+  // Recurring blocks are stored once and expanded into this week's occurrences,
+  // applying moved, edited or cancelled occurrences
+  const recurringBlocks = await prisma.scheduleBlock.findMany({
+    where: {
+      workspaceId,
+      deletedAt: null,
+      recurrenceRule: { not: null },
+      startTime: { lte: weekEnd },
+      ...tagFilter,
+    },
+    include: {
+      category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
+      exceptions: {
+        include: { category: true },
+      },
     },
   });
 
+  const occurrences = recurringBlocks.flatMap(({ exceptions, ...block }) =>
+    RecurrenceService.expandWithExceptions(block.recurrenceRule!, block.startTime, block.endTime, {
+      start: weekStart,
+      end: weekEnd,
+    }, exceptions, block.timeZone)
+      .map(occurrence => RecurringSeriesService.applyException(block, occurrence))
+  );
+
+  const blocks = [...singleBlocks, ...occurrences].sort(
+    (a, b) => a.startTime.getTime() - b.startTime.getTime()
+  );
+
   return ApiResponseHandler.success(blocks, 'Bloques obtenidos exitosamente');
 });
 
 // POST /api/schedule - Create new block
 export const POST = withErrorHandling(async (request: NextRequest) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+  const { workspaceId } = access;
   const body = await RequestValidator.validateJson(request);
   
+  // Recurring blocks keep their time of day in the zone of whoever creates them
+  const { slotMinutes, timeZone } = await PreferencesService.getSlotSettings(access.user.id);
+
   // Validate request body with Zod
-  const validatedData = createBlockSchema.parse({
+  const validatedData = createBlockSchemaFor(slotMinutes, timeZone).parse({
     ...body,
     startTime: new Date(body.startTime),
     endTime: new Date(body.endTime),
   });
 
-  const { title, description, startTime, endTime, categoryId } = validatedData;
+  const {
+    title, description, startTime, endTime, allDay, allowOverlap, categoryId, recurrenceRule, tags, checklist, location, meetingUrl,
+    attendees,
+  } = validatedData;
 
   // Check if category exists
-  const category = await prisma.category.findUnique({
-    where: { id: categoryId },
+  const category = await prisma.category.findFirst({
+    where: { id: categoryId, workspaceId, deletedAt: null },
   });
 
   if (!category) {
@@ -74,29 +133,12 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     );
   }
 
-  // Check for overlapping blocks
-  const overlappingBlocks = await prisma.scheduleBlock.findMany({
-    where: {
-      AND: [
-        {
-          startTime: {
-            lt: endTime,
-          },
-        },
-        {
-          endTime: {
-            gt: startTime,
-          },
-        },
-      ],
-    },
-    select: {
-      id: true,
-      title: true,
-      startTime: true,
-      endTime: true,
-    },
-  });
+  // Check for overlapping blocks (every occurrence when the block repeats), unless the block
+  // or its category allows overlaps
+  const overlappingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+    workspaceId,
+    ScheduleOverlapService.getBlockIntervals({ startTime, endTime, recurrenceRule, allDay, timeZone, allowOverlap, category })
+  );
 
   if (overlappingBlocks.length > 0) {
     return NextResponse.json(
@@ -112,16 +154,40 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   // Create the block
   const newBlock = await prisma.scheduleBlock.create({
     data: {
+      workspaceId,
       title,
       description,
       startTime,
       endTime,
+      allDay: allDay ?? false,
+      allowOverlap: allowOverlap ?? false,
       categoryId,
+      recurrenceRule: recurrenceRule || null,
+      timeZone,
+      location: location || null,
+      meetingUrl: meetingUrl || null,
+      ...(tags && { tags: { connect: await TagService.resolve(workspaceId, tags) } }),
+      ...(attendees && { attendees: AttendeeService.toCreate(attendees) }),
+      ...(checklist && {
+        checklistItems: { create: checklist.map((title, position) => ({ title, position })) },
+      }),
     },
     include: {
       category: true,
+      tags: true,
+      ...CHECKLIST_INCLUDE,
+      ...ATTENDEES_INCLUDE,
     },
   });
 
-  return ApiResponseHandler.created(newBlock, 'Bloque creado exitosamente');
+  const entryId = await HistoryService.record(
+    HistoryService.getContext(request, access),
+    'block',
+    newBlock.id,
+    'create',
+    null,
+    HistoryService.snapshotBlock(newBlock)
+  );
+
+  return HistoryService.withEntry(ApiResponseHandler.created(newBlock, 'Bloque creado exitosamente'), entryId);
 });
\ No newline at end of file
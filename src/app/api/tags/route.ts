@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { TagService } from '@/lib/tags';
+import { WorkspaceService } from '@/lib/workspaces';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+// GET /api/tags - Tags used by the blocks of the workspace (for autocomplete)
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request);
+
+  const tags = await TagService.list(workspaceId);
+
+  return ApiResponseHandler.success(tags, 'Etiquetas obtenidas exitosamente');
+});
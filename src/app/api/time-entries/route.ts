@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { WorkspaceService } from '@/lib/workspaces';
+import { PreferencesService } from '@/lib/preferences';
+import { addZonedDays, startOfZonedWeek } from '@/lib/timezone';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+// GET /api/time-entries - Fetch the user's time entries overlapping a week in the current workspace (plus the running one)
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { user, workspaceId } = await WorkspaceService.requireAccess(request);
+  const { searchParams } = new URL(request.url);
+  const dateParam = searchParams.get('date');
+  
+  // Validate and parse date parameter
+  const targetDate = RequestValidator.validateDateParam(dateParam);
+  
+  // Calculate week boundaries in the user's time zone, from their first day of the week
+  const { timeZone, weekStartsOn } = await PreferencesService.get(user.id);
+  const weekStart = startOfZonedWeek(targetDate, timeZone, weekStartsOn);
+  const weekEnd = new Date(addZonedDays(weekStart, 7, timeZone).getTime() - 1);
+
+  const entries = await prisma.timeEntry.findMany({
+    where: {
+      userId: user.id,
+      OR: [
+        {
+          startTime: { lte: weekEnd },
+          endTime: { gte: weekStart },
+          OR: [
+            { block: { workspaceId } },
+            { category: { workspaceId } },
+            { blockId: null, categoryId: null },
+          ],
+        },
+        { endTime: null },
+      ],
+    },
+    include: {
+      category: true,
+    },
+    orderBy: {
+      startTime: 'asc',
+    },
+  });
+
+  return ApiResponseHandler.success(entries, 'Registros de tiempo obtenidos exitosamente');
+});
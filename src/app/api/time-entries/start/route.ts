@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { startTimerSchema } from '@/lib/validations';
+import { TimeTrackingService } from '@/lib/time-tracking';
+import { WorkspaceService } from '@/lib/workspaces';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+// POST /api/time-entries/start - Start a timer (stops the running one)
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const { user, workspaceId } = await WorkspaceService.requireAccess(request);
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = startTimerSchema.parse({
+    ...body,
+    originalStartTime: body.originalStartTime ? new Date(body.originalStartTime) : undefined,
+  });
+
+  const entry = await TimeTrackingService.startTimer(user.id, workspaceId, validatedData);
+
+  return ApiResponseHandler.created(entry, 'Temporizador iniciado exitosamente');
+});
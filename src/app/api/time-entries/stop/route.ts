@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { TimeTrackingService } from '@/lib/time-tracking';
+import { AuthService } from '@/lib/auth';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+// POST /api/time-entries/stop - Stop the running timer
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await AuthService.requireUser(request);
+  const entry = await TimeTrackingService.stopTimer(user.id);
+
+  return ApiResponseHandler.updated(entry, 'Temporizador detenido exitosamente');
+});
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { TrashService } from '@/lib/trash';
+import { HistoryService } from '@/lib/history';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// DELETE /api/trash/blocks/[id] - Permanently delete a trashed block
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  await TrashService.purgeBlock(HistoryService.getContext(request, access), params.id);
+
+  return ApiResponseHandler.deleted('Bloque eliminado definitivamente');
+});
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { TrashService } from '@/lib/trash';
+import { HistoryService } from '@/lib/history';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/trash/categories/[id]/restore - Restore a trashed category
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  const restored = await TrashService.restoreCategory(HistoryService.getContext(request, access), params.id);
+
+  return ApiResponseHandler.updated(restored, 'Categoría restaurada exitosamente');
+});
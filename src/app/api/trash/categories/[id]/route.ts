@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { TrashService } from '@/lib/trash';
+import { HistoryService } from '@/lib/history';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// DELETE /api/trash/categories/[id] - Permanently delete a trashed category (and its trashed blocks)
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  await TrashService.purgeCategory(HistoryService.getContext(request, access), params.id);
+
+  return ApiResponseHandler.deleted('Categoría eliminada definitivamente');
+});
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { TrashService } from '@/lib/trash';
+import { HistoryService } from '@/lib/history';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+// GET /api/trash - Trashed blocks and categories of the current workspace
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request);
+
+  const trash = await TrashService.listTrash(workspaceId);
+
+  return ApiResponseHandler.success(trash, 'Papelera obtenida exitosamente');
+});
+
+// DELETE /api/trash - Permanently delete everything in the trash
+export const DELETE = withErrorHandling(async (request: NextRequest) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+
+  await TrashService.emptyTrash(HistoryService.getContext(request, access));
+
+  return ApiResponseHandler.deleted('Papelera vaciada exitosamente');
+});
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { applyWeekTemplateSchema } from '@/lib/validations';
+import { WeekTemplateService } from '@/lib/week-templates';
+import { WorkspaceService } from '@/lib/workspaces';
+import { HistoryService } from '@/lib/history';
+import { PreferencesService } from '@/lib/preferences';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/week-templates/[id]/apply - Create the blocks of a template in the given week
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const access = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = applyWeekTemplateSchema.parse({
+    ...body,
+    week: body.week ? new Date(body.week) : undefined,
+  });
+
+  const { timeZone, weekStartsOn } = await PreferencesService.get(access.user.id);
+  const result = await WeekTemplateService.apply(
+    HistoryService.getContext(request, access),
+    params.id,
+    validatedData,
+    timeZone,
+    weekStartsOn
+  );
+
+  if (validatedData.dryRun) {
+    return ApiResponseHandler.success(result, 'Vista previa de la plantilla generada exitosamente');
+  }
+
+  return ApiResponseHandler.created(result, `${result.created.length} bloques creados desde la plantilla`);
+});
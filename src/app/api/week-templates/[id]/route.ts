@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { updateWeekTemplateSchema } from '@/lib/validations';
+import { WeekTemplateService } from '@/lib/week-templates';
+import { WorkspaceService } from '@/lib/workspaces';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/week-templates/[id] - Get a template with its blocks
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request);
+
+  const template = await WeekTemplateService.get(workspaceId, params.id);
+
+  return ApiResponseHandler.success(template, 'Plantilla obtenida exitosamente');
+});
+
+// PUT /api/week-templates/[id] - Rename a template or replace its blocks
+export const PUT = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = updateWeekTemplateSchema.parse(body);
+
+  const template = await WeekTemplateService.update(workspaceId, params.id, validatedData);
+
+  return ApiResponseHandler.updated(template, 'Plantilla actualizada exitosamente');
+});
+
+// DELETE /api/week-templates/[id] - Delete a template (the blocks created from it are kept)
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+
+  await WeekTemplateService.delete(workspaceId, params.id);
+
+  return ApiResponseHandler.deleted('Plantilla eliminada exitosamente');
+});
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { createWeekTemplateSchema } from '@/lib/validations';
+import { WeekTemplateService } from '@/lib/week-templates';
+import { WorkspaceService } from '@/lib/workspaces';
+import { PreferencesService } from '@/lib/preferences';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+// GET /api/week-templates - Week templates of the workspace
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { workspaceId } = await WorkspaceService.requireAccess(request);
+
+  const templates = await WeekTemplateService.list(workspaceId);
+
+  return ApiResponseHandler.success(templates, 'Plantillas obtenidas exitosamente');
+});
+
+// POST /api/week-templates - Create a template from a list of blocks or from the blocks of a week
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const { user, workspaceId } = await WorkspaceService.requireAccess(request, 'editor');
+  const body = await RequestValidator.validateJson(request);
+
+  // Validate request body with Zod
+  const validatedData = createWeekTemplateSchema.parse({
+    ...body,
+    sourceWeek: body.sourceWeek ? new Date(body.sourceWeek) : undefined,
+  });
+
+  const { timeZone, weekStartsOn } = await PreferencesService.get(user.id);
+  const template = await WeekTemplateService.create(workspaceId, validatedData, timeZone, weekStartsOn);
+
+  return ApiResponseHandler.created(template, 'Plantilla creada exitosamente');
+});
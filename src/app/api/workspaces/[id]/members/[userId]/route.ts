@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { updateWorkspaceMemberSchema } from '@/lib/validations';
+import { WorkspaceService } from '@/lib/workspaces';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator,
+  ForbiddenError
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+    userId: string;
+  };
+}
+
+// PUT /api/workspaces/[id]/members/[userId] - Change the role of a member (owners only)
+export const PUT = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireWorkspaceRole(request, params.id, 'owner');
+
+  const body = await RequestValidator.validateJson(request);
+  const { role } = updateWorkspaceMemberSchema.parse(body);
+
+  const member = await WorkspaceService.updateMemberRole(workspaceId, params.userId, role);
+
+  return ApiResponseHandler.updated(member, 'Rol actualizado exitosamente');
+});
+
+// DELETE /api/workspaces/[id]/members/[userId] - Remove a member (owners, or the member leaving)
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { user, role } = await WorkspaceService.requireWorkspaceRole(request, params.id);
+
+  if (user.id !== params.userId && !WorkspaceService.hasRole(role, 'owner')) {
+    throw new ForbiddenError('Solo los propietarios pueden gestionar este espacio');
+  }
+
+  await WorkspaceService.removeMember(params.id, params.userId);
+
+  return ApiResponseHandler.deleted('Miembro eliminado exitosamente');
+});
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { addWorkspaceMemberSchema } from '@/lib/validations';
+import { WorkspaceService } from '@/lib/workspaces';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/workspaces/[id]/members - Members of a workspace
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireWorkspaceRole(request, params.id);
+
+  const members = await WorkspaceService.listMembers(workspaceId);
+
+  return ApiResponseHandler.success(members, 'Miembros obtenidos exitosamente');
+});
+
+// POST /api/workspaces/[id]/members - Add an existing account to the workspace (owners only)
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId } = await WorkspaceService.requireWorkspaceRole(request, params.id, 'owner');
+
+  const body = await RequestValidator.validateJson(request);
+  const { email, role } = addWorkspaceMemberSchema.parse(body);
+
+  const member = await WorkspaceService.addMember(workspaceId, email, role);
+
+  return ApiResponseHandler.created(member, 'Miembro añadido exitosamente');
+});
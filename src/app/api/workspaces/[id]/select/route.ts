@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { WorkspaceService } from '@/lib/workspaces';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler
+} from '@/lib/api-utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/workspaces/[id]/select - Switch the current workspace
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: RouteParams
+) => {
+  const { workspaceId, role } = await WorkspaceService.requireWorkspaceRole(request, params.id);
+
+  const response = ApiResponseHandler.success({ workspaceId, role }, 'Espacio de trabajo seleccionado');
+  return WorkspaceService.setWorkspaceCookie(response, workspaceId);
+});
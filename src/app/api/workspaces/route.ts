@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { createWorkspaceSchema } from '@/lib/validations';
+import { WorkspaceService } from '@/lib/workspaces';
+import { 
+  withErrorHandling, 
+  ApiResponseHandler, 
+  RequestValidator
+} from '@/lib/api-utils';
+
+// GET /api/workspaces - Workspaces of the signed-in user, flagging the current one
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const { user, workspaceId } = await WorkspaceService.requireAccess(request);
+
+  const workspaces = await WorkspaceService.listForUser(user.id, workspaceId);
+
+  return ApiResponseHandler.success(workspaces, 'Espacios de trabajo obtenidos exitosamente');
+});
+
+// POST /api/workspaces - Create a shared workspace owned by the user
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const { user } = await WorkspaceService.requireAccess(request);
+
+  const body = await RequestValidator.validateJson(request);
+  const { name } = createWorkspaceSchema.parse(body);
+
+  const workspace = await WorkspaceService.createWorkspace(user.id, name);
+
+  return ApiResponseHandler.created(
+    { ...workspace, isCurrent: false },
+    'Espacio de trabajo creado exitosamente'
+  );
+});
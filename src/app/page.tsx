@@ -1,36 +1,59 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useWeekGrid } from '@/hooks/useWeekGrid';
 import { useScheduleBlocks } from '@/hooks/useScheduleBlocks';
 import { useCategories } from '@/hooks/useCategories';
+import { useTimeEntries } from '@/hooks/useTimeEntries';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import { usePreferences } from '@/hooks/usePreferences';
 import { useToast } from '@/hooks/useToast';
 import { WeekNavigation } from '@/components/schedule/WeekNavigation';
 import { WeekGrid } from '@/components/schedule/WeekGrid';
 import { BlockForm } from '@/components/schedule/BlockForm';
+import { RecurrenceScopeDialog } from '@/components/schedule/RecurrenceScopeDialog';
+import { TrashDialog } from '@/components/schedule/TrashDialog';
+import { CopyWeekDialog } from '@/components/schedule/CopyWeekDialog';
+import { WeekTemplatesDialog } from '@/components/schedule/WeekTemplatesDialog';
+import { CategoryManager } from '@/components/schedule/CategoryManager';
 import { Header } from '@/components/layout/Header';
 import { ErrorBoundary } from '@/components/layout/ErrorBoundary';
 import { Toaster } from '@/components/ui/toaster';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Plus, AlertCircle, RefreshCw, Calendar, Loader2, Bell, Download } from 'lucide-react';
-import type { ScheduleBlock as ScheduleBlockType, BlockFormData, TimeSlot } from '@/lib/types';
+import { Plus, AlertCircle, RefreshCw, Calendar, Loader2, Download, Square, Eye, Trash2, Settings2 } from 'lucide-react';
+import type { ScheduleBlock as ScheduleBlockType, BlockFormData, TimeSlot, RecurrenceScope, BlockStatus, CopyWeekData, ApplyWeekTemplateData, UserPreferences } from '@/lib/types';
 import { ConflictChecker } from '@/lib/conflict-checker';
 import { ReminderService } from '@/lib/reminders';
 import { CalendarSyncService } from '@/lib/calendar-sync';
 import { MetricsCalculator } from '@/lib/metrics';
 import { differenceInMinutes } from 'date-fns';
+import { cn, formatTime, sortCategoriesAsTree } from '@/lib/utils';
 
 
 
 export default function Home() {
   // Core hooks for data management
-  const weekGrid = useWeekGrid({ enableUrlState: true });
+  const preferences = usePreferences();
+  const {
+    timeZone,
+    weekStartsOn,
+    slotMinutes,
+    reminderMinutes,
+    defaultBlockMinutes,
+    locale,
+    workingHours,
+  } = preferences.preferences;
+  const weekGrid = useWeekGrid({ enableUrlState: true, timeZone, weekStartsOn, slotMinutes, workingHours, locale });
   const scheduleBlocks = useScheduleBlocks({ 
     weekDate: weekGrid.currentWeek,
-    enableOptimisticUpdates: true 
+    enableOptimisticUpdates: true,
+    timeZone,
+    weekStartsOn,
   });
   const categories = useCategories();
+  const timeEntries = useTimeEntries({ weekDate: weekGrid.currentWeek, timeZone, weekStartsOn });
+  const workspaces = useWorkspaces();
   const { toast, toasts } = useToast();
 
   // UI state management
@@ -38,8 +61,13 @@ export default function Home() {
   const [editingBlock, setEditingBlock] = useState<ScheduleBlockType | undefined>();
   const [selectedTimeSlot, setSelectedTimeSlot] = useState<TimeSlot | undefined>();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [pendingDeleteBlock, setPendingDeleteBlock] = useState<ScheduleBlockType | undefined>();
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isCopyWeekOpen, setIsCopyWeekOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
   const [metrics, setMetrics] = useState(() => 
-    MetricsCalculator.calculateWeeklyMetrics(scheduleBlocks.blocks, weekGrid.currentWeek)
+    MetricsCalculator.calculateWeeklyMetrics(scheduleBlocks.blocks, weekGrid.currentWeek, timeEntries.entries, categories.categories, timeZone, weekStartsOn)
   );
 
   // Request notification permission on mount
@@ -51,16 +79,21 @@ export default function Home() {
   useEffect(() => {
     const updatedMetrics = MetricsCalculator.calculateWeeklyMetrics(
       scheduleBlocks.blocks, 
-      weekGrid.currentWeek
+      weekGrid.currentWeek,
+      timeEntries.entries,
+      categories.categories,
+      timeZone,
+      weekStartsOn
     );
     setMetrics(updatedMetrics);
-  }, [scheduleBlocks.blocks, weekGrid.currentWeek]);
+  }, [scheduleBlocks.blocks, weekGrid.currentWeek, timeEntries.entries, categories.categories, timeZone, weekStartsOn]);
 
-  // Fetch blocks when week changes
+  // Fetch blocks when the week (or the time zone or first day that delimit it) changes
+  const { refetch: refetchBlocks } = scheduleBlocks;
   useEffect(() => {
     const fetchData = async () => {
       try {
-        await scheduleBlocks.refetch();
+        await refetchBlocks();
       } catch (error) {
         // Ignore AbortError - it's expected when changing weeks quickly
         if (error instanceof Error && error.name !== 'AbortError') {
@@ -70,34 +103,93 @@ export default function Home() {
     };
     
     fetchData();
-  }, [weekGrid.currentWeek]); // Removed scheduleBlocks.refetch from dependencies
+  }, [refetchBlocks]);
+
+  // Undo/redo the last grid operations
+  const handleUndo = useCallback(async () => {
+    try {
+      const label = await scheduleBlocks.undo();
+      if (label) {
+        toast.info('Acción deshecha', label);
+      }
+    } catch (error) {
+      toast.error('No se pudo deshacer', error instanceof Error ? error.message : 'Ha ocurrido un error inesperado');
+      console.error('Error undoing operation:', error);
+    }
+  }, [scheduleBlocks, toast]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      const label = await scheduleBlocks.redo();
+      if (label) {
+        toast.info('Acción rehecha', label);
+      }
+    } catch (error) {
+      toast.error('No se pudo rehacer', error instanceof Error ? error.message : 'Ha ocurrido un error inesperado');
+      console.error('Error redoing operation:', error);
+    }
+  }, [scheduleBlocks, toast]);
+
+  const undoAction = useMemo(() => ({ label: 'Deshacer', onClick: handleUndo }), [handleUndo]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing or with a dialog open
+  useEffect(() => {
+    if (!workspaces.canEdit) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') {
+        return;
+      }
+
+      const target = event.target as HTMLElement | null;
+      if (isFormOpen || target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"]')) {
+        return;
+      }
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [workspaces.canEdit, isFormOpen, handleUndo, handleRedo]);
 
   // Handle block creation/editing with enhanced functionality
-  const handleSaveBlock = useCallback(async (data: BlockFormData) => {
+  const handleSaveBlock = useCallback(async (data: BlockFormData, scope?: RecurrenceScope) => {
     try {
       if (editingBlock) {
-        // Update existing block
-        await scheduleBlocks.updateBlock(editingBlock.id, data);
-        toast.success('Bloque actualizado', 'El bloque se ha actualizado correctamente');
+        // Update existing block (or the chosen occurrences of a recurring block)
+        await scheduleBlocks.updateBlock(editingBlock.id, data, {
+          scope,
+          originalStartTime: editingBlock.originalStartTime,
+        });
+        toast.success('Bloque actualizado', 'El bloque se ha actualizado correctamente', undoAction);
       } else {
         // Create new block with enhanced functionality
         const newBlock = await scheduleBlocks.createBlock(data, {
           onSuccess: (block) => {
             // Schedule reminder
             ReminderService.scheduleReminder(block, {
-              minutesBefore: 15,
-              enabled: true,
+              minutesBefore: reminderMinutes,
+              enabled: reminderMinutes > 0,
               type: 'notification'
             });
 
             // Update metrics
-            const updatedMetrics = MetricsCalculator.updateMetricsAfterBlockCreation(metrics, block);
+            const updatedMetrics = MetricsCalculator.updateMetricsAfterBlockCreation(metrics, block, categories.categories);
             setMetrics(updatedMetrics);
 
             // Show success notification
             toast.success(
               'Bloque creado exitosamente',
-              `"${block.title}" ha sido agregado a tu calendario`
+              `"${block.title}" ha sido agregado a tu calendario`,
+              undoAction
             );
           }
         });
@@ -123,29 +215,93 @@ export default function Home() {
       console.error('Error saving block:', error);
       // Error is already handled by the hook with user-friendly messages
     }
-  }, [editingBlock, scheduleBlocks, toast, metrics]);
+  }, [editingBlock, scheduleBlocks, categories.categories, toast, metrics, undoAction, reminderMinutes]);
 
   // Handle block deletion with confirmation
-  const handleDeleteBlock = useCallback(async (blockId: string) => {
+  const deleteBlock = useCallback(async (block: ScheduleBlockType, scope?: RecurrenceScope) => {
     try {
       // Cancel any scheduled reminders
-      ReminderService.cancelReminder(blockId);
+      ReminderService.cancelReminder(block.id);
       
-      await scheduleBlocks.deleteBlock(blockId);
+      await scheduleBlocks.deleteBlock(block.id, {
+        scope,
+        originalStartTime: block.originalStartTime,
+      });
       
-      toast.success('Bloque eliminado', 'El bloque ha sido eliminado correctamente');
+      toast.success(
+        'Bloque eliminado',
+        scope === 'this' || scope === 'following'
+          ? 'Las ocurrencias se han eliminado correctamente'
+          : 'El bloque se ha movido a la papelera',
+        undoAction
+      );
       
       // Update metrics
       const updatedMetrics = MetricsCalculator.calculateWeeklyMetrics(
-        scheduleBlocks.blocks.filter(b => b.id !== blockId), 
-        weekGrid.currentWeek
+        scheduleBlocks.blocks.filter(b => b.id !== block.id), 
+        weekGrid.currentWeek,
+        timeEntries.entries,
+        categories.categories,
+        timeZone,
+        weekStartsOn
       );
       setMetrics(updatedMetrics);
     } catch (error) {
       toast.error('Error al eliminar el bloque', 'No se pudo eliminar el bloque');
       console.error('Error deleting block:', error);
     }
-  }, [scheduleBlocks, toast, weekGrid.currentWeek]);
+  }, [scheduleBlocks, toast, weekGrid.currentWeek, timeEntries.entries, categories.categories, undoAction, timeZone, weekStartsOn]);
+
+  // Occurrences of recurring blocks ask which events to delete first
+  const handleDeleteBlock = useCallback((block: ScheduleBlockType) => {
+    if (block.recurrenceRule && block.originalStartTime) {
+      setPendingDeleteBlock(block);
+      return;
+    }
+
+    deleteBlock(block);
+  }, [deleteBlock]);
+
+  const handleConfirmDeleteScope = useCallback((scope: RecurrenceScope) => {
+    if (pendingDeleteBlock) {
+      deleteBlock(pendingDeleteBlock, scope);
+    }
+    setPendingDeleteBlock(undefined);
+  }, [deleteBlock, pendingDeleteBlock]);
+
+  // Handle block status changes (planned, done, skipped, partial)
+  const handleBlockStatusChange = useCallback(async (block: ScheduleBlockType, status: BlockStatus) => {
+    try {
+      await scheduleBlocks.updateBlockStatus(block.id, status, block.originalStartTime);
+    } catch (error) {
+      toast.error('Error al actualizar el estado', 'No se pudo actualizar el estado del bloque');
+      console.error('Error updating block status:', error);
+    }
+  }, [scheduleBlocks, toast]);
+
+  // Start tracking actual time for a block (stops the running timer)
+  const handleStartTimer = useCallback(async (block: ScheduleBlockType) => {
+    try {
+      await timeEntries.startTimer({
+        blockId: block.id,
+        originalStartTime: block.originalStartTime,
+      });
+      toast.info('Temporizador iniciado', `Registrando tiempo para "${block.title}"`);
+    } catch (error) {
+      toast.error('Error al iniciar el temporizador', error instanceof Error ? error.message : 'Ha ocurrido un error inesperado');
+      console.error('Error starting timer:', error);
+    }
+  }, [timeEntries, toast]);
+
+  const handleStopTimer = useCallback(async () => {
+    try {
+      await timeEntries.stopTimer();
+      toast.success('Temporizador detenido', 'El tiempo registrado se ha guardado');
+    } catch (error) {
+      toast.error('Error al detener el temporizador', error instanceof Error ? error.message : 'Ha ocurrido un error inesperado');
+      console.error('Error stopping timer:', error);
+    }
+  }, [timeEntries, toast]);
 
   // Export calendar functionality
   const handleExportCalendar = useCallback((format: 'google' | 'outlook' | 'ics') => {
@@ -156,12 +312,12 @@ export default function Home() {
 
     try {
       if (format === 'ics') {
-        CalendarSyncService.downloadICSFile(scheduleBlocks.blocks);
+        CalendarSyncService.downloadICSFile(scheduleBlocks.blocks, undefined, timeZone);
         toast.success('Calendario exportado', 'El archivo .ics se ha descargado correctamente');
       } else {
         // For Google/Outlook, we'll open each event individually
         scheduleBlocks.blocks.forEach(block => {
-          CalendarSyncService.syncBlockToExternalCalendar(block, format);
+          CalendarSyncService.syncBlockToExternalCalendar(block, format, timeZone);
         });
         toast.info('Abriendo calendario externo', `Se abrirán ${scheduleBlocks.blocks.length} eventos en ${format}`);
       }
@@ -169,7 +325,43 @@ export default function Home() {
       toast.error('Error al exportar', 'No se pudo exportar el calendario');
       console.error('Export error:', error);
     }
-  }, [scheduleBlocks.blocks, toast]);
+  }, [scheduleBlocks.blocks, toast, timeZone]);
+
+  // Copy the blocks of the current week into another week
+  const handleCopyWeek = useCallback(async (data: CopyWeekData) => {
+    const result = await scheduleBlocks.copyWeek(data);
+
+    if (!data.dryRun) {
+      const skipped = data.onConflict === 'skip' ? result.conflicts.length : 0;
+      toast.success(
+        'Semana copiada',
+        skipped > 0
+          ? `Se copiaron ${result.created.length} bloques y se omitieron ${skipped} por conflictos`
+          : `Se copiaron ${result.created.length} bloques`,
+        undoAction
+      );
+    }
+
+    return result;
+  }, [scheduleBlocks, toast, undoAction]);
+
+  // Create the blocks of a template in the current week
+  const handleApplyTemplate = useCallback(async (templateId: string, data: ApplyWeekTemplateData) => {
+    const result = await scheduleBlocks.applyTemplate(templateId, data);
+
+    if (!data.dryRun) {
+      const skipped = data.onConflict === 'skip' ? result.conflicts.length : 0;
+      toast.success(
+        'Plantilla aplicada',
+        skipped > 0
+          ? `Se crearon ${result.created.length} bloques y se omitieron ${skipped} por conflictos`
+          : `Se crearon ${result.created.length} bloques`,
+        undoAction
+      );
+    }
+
+    return result;
+  }, [scheduleBlocks, toast, undoAction]);
 
   // Handle block editing
   const handleEditBlock = useCallback((block: ScheduleBlockType) => {
@@ -185,6 +377,13 @@ export default function Home() {
     setSelectedTimeSlot(undefined);
   }, []);
 
+  // A previous version was restored from the history panel of the form
+  const handleRevertBlock = useCallback(async (block: ScheduleBlockType) => {
+    handleCancelForm();
+    toast.success('Versión restaurada', `"${block.title}" ha vuelto a la versión elegida`);
+    await scheduleBlocks.refetch();
+  }, [handleCancelForm, scheduleBlocks, toast]);
+
   // Handle time slot click to create new block
   const handleBlockCreate = useCallback((timeSlot: TimeSlot) => {
     setEditingBlock(undefined);
@@ -198,18 +397,66 @@ export default function Home() {
     try {
       await Promise.all([
         scheduleBlocks.refetch(),
-        categories.refetch()
+        categories.refetch(),
+        timeEntries.refetch()
       ]);
     } catch (error) {
       console.error('Error refreshing data:', error);
     } finally {
       setIsRefreshing(false);
     }
-  }, [scheduleBlocks, categories]);
+  }, [scheduleBlocks, categories, timeEntries]);
 
-  // Filter blocks for current week
+  // Switch workspace and reload its blocks and categories
+  const handleWorkspaceChange = useCallback(async (id: string) => {
+    try {
+      await workspaces.selectWorkspace(id);
+      setIsFormOpen(false);
+      setEditingBlock(undefined);
+      await handleRefresh();
+    } catch (error) {
+      toast.error('Error al cambiar de espacio', error instanceof Error ? error.message : 'Ha ocurrido un error inesperado');
+      console.error('Error switching workspace:', error);
+    }
+  }, [workspaces, handleRefresh, toast]);
+
+  const handleWorkspaceCreate = useCallback(async (name: string) => {
+    try {
+      const workspace = await workspaces.createWorkspace(name);
+      toast.success('Espacio creado', `"${workspace.name}" está listo para compartir`);
+      await handleWorkspaceChange(workspace.id);
+    } catch (error) {
+      toast.error('Error al crear el espacio', error instanceof Error ? error.message : 'Ha ocurrido un error inesperado');
+      throw error;
+    }
+  }, [workspaces, handleWorkspaceChange, toast]);
+
+  // The week, its blocks and time entries are reloaded with the new zone or first day of the week
+  const handlePreferencesChange = useCallback(async (data: Partial<UserPreferences>) => {
+    try {
+      await preferences.updatePreferences(data);
+    } catch (error) {
+      toast.error('Error al guardar las preferencias', error instanceof Error ? error.message : 'Ha ocurrido un error inesperado');
+      console.error('Error updating preferences:', error);
+    }
+  }, [preferences, toast]);
+
+  // Filter blocks for current week (including the ones that started before it and continue into it)
   const currentWeekBlocks = scheduleBlocks.blocks.filter(block => 
-    weekGrid.isInCurrentWeek(block.startTime)
+    new Date(block.startTime) <= weekGrid.weekInfo.end && new Date(block.endTime) > weekGrid.weekInfo.start
+  );
+
+  // Legend groups: each top-level category followed by its sub-categories (archived ones are left out)
+  const categoryGroups = useMemo(() =>
+    sortCategoriesAsTree(categories.categories.filter(category => !category.archivedAt)).reduce<ReturnType<typeof sortCategoriesAsTree>[]>((groups, row) => {
+      if (row.depth === 0 || groups.length === 0) {
+        groups.push([row]);
+      } else {
+        groups[groups.length - 1].push(row);
+      }
+      return groups;
+    }, []),
+    [categories.categories]
   );
 
   // Check if any critical data is loading
@@ -220,7 +467,14 @@ export default function Home() {
     <ErrorBoundary>
       <div className="min-h-screen bg-background">
         {/* Header */}
-        <Header />
+        <Header
+          workspaces={workspaces.workspaces}
+          currentWorkspace={workspaces.currentWorkspace}
+          onWorkspaceChange={handleWorkspaceChange}
+          onWorkspaceCreate={handleWorkspaceCreate}
+          preferences={preferences.preferences}
+          onPreferencesChange={handlePreferencesChange}
+        />
         
         {/* Action Bar */}
         <div className="border-b bg-card/50 backdrop-blur-sm">
@@ -237,6 +491,29 @@ export default function Home() {
               </div>
               
               <div className="flex items-center gap-2">
+                {timeEntries.activeEntry && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleStopTimer}
+                    className="flex items-center gap-2 text-red-600 border-red-200"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                    Detener ({formatTime(new Date(timeEntries.activeEntry.startTime), timeZone, locale)})
+                  </Button>
+                )}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsTrashOpen(true)}
+                  className="flex items-center gap-2"
+                  title="Papelera"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Papelera
+                </Button>
+
                 <Button
                   variant="outline"
                   size="sm"
@@ -248,14 +525,21 @@ export default function Home() {
                   {isRefreshing ? 'Actualizando...' : 'Actualizar'}
                 </Button>
                 
-                <Button 
-                  onClick={() => setIsFormOpen(true)} 
-                  className="flex items-center gap-2"
-                  disabled={categories.isLoading}
-                >
-                  <Plus className="w-4 h-4" />
-                  Nuevo Bloque
-                </Button>
+                {workspaces.canEdit ? (
+                  <Button 
+                    onClick={() => setIsFormOpen(true)} 
+                    className="flex items-center gap-2"
+                    disabled={categories.isLoading}
+                  >
+                    <Plus className="w-4 h-4" />
+                    Nuevo Bloque
+                  </Button>
+                ) : (
+                  <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Eye className="w-4 h-4" />
+                    Solo lectura
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -269,6 +553,11 @@ export default function Home() {
             weekInfo={weekGrid.weekInfo}
             onNavigateWeek={weekGrid.navigateWeek}
             onGoToCurrentWeek={weekGrid.goToCurrentWeek}
+            onCopyWeek={workspaces.canEdit ? () => setIsCopyWeekOpen(true) : undefined}
+            onOpenTemplates={workspaces.canEdit ? () => setIsTemplatesOpen(true) : undefined}
+            timeZone={timeZone}
+            weekStartsOn={weekStartsOn}
+            locale={locale}
           />
 
           {/* Global Error Display */}
@@ -327,6 +616,14 @@ export default function Home() {
                 onBlockCreate={handleBlockCreate}
                 onBlockEdit={handleEditBlock}
                 onBlockDelete={handleDeleteBlock}
+                onBlockStatusChange={workspaces.canEdit ? handleBlockStatusChange : undefined}
+                onBlockStartTimer={handleStartTimer}
+                timeEntries={timeEntries.entries}
+                readOnly={!workspaces.canEdit}
+                timeZone={timeZone}
+                slotMinutes={slotMinutes}
+                workingHours={workingHours}
+                locale={locale}
                 isLoading={scheduleBlocks.isLoading}
                 className="shadow-sm"
               />
@@ -337,9 +634,22 @@ export default function Home() {
                   <h3 className="text-lg font-semibold text-card-foreground">
                     Categorías
                   </h3>
-                  {categories.isLoading && (
-                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
-                  )}
+                  <div className="flex items-center gap-2">
+                    {categories.isLoading && (
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    )}
+                    {workspaces.canEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsCategoryManagerOpen(true)}
+                        disabled={categories.isLoading}
+                      >
+                        <Settings2 className="w-4 h-4 mr-2" />
+                        Gestionar
+                      </Button>
+                    )}
+                  </div>
                 </div>
                 
                 {categories.isLoading ? (
@@ -367,7 +677,7 @@ export default function Home() {
                       Reintentar
                     </Button>
                   </div>
-                ) : categories.categories.length === 0 ? (
+                ) : categoryGroups.length === 0 ? (
                   <div className="text-center py-8">
                     <div className="text-muted-foreground">
                       <Calendar className="w-8 h-8 mx-auto mb-2 opacity-50" />
@@ -376,18 +686,32 @@ export default function Home() {
                   </div>
                 ) : (
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                    {categories.categories.map((category) => (
-                      <div 
-                        key={category.id} 
-                        className="flex items-center gap-2 p-2 rounded-md hover:bg-muted/50 transition-colors"
-                      >
-                        <div
-                          className="w-4 h-4 rounded-full border border-border/20"
-                          style={{ backgroundColor: category.color }}
-                        />
-                        <span className="text-sm font-medium text-card-foreground">
-                          {category.name}
-                        </span>
+                    {categoryGroups.map(([{ category }, ...children]) => (
+                      <div key={category.id} className="space-y-1">
+                        <div className="flex items-center gap-2 p-2 rounded-md hover:bg-muted/50 transition-colors">
+                          <div
+                            className="w-4 h-4 rounded-full border border-border/20"
+                            style={{ backgroundColor: category.color }}
+                          />
+                          <span className="text-sm font-medium text-card-foreground">
+                            {category.name}
+                          </span>
+                        </div>
+                        {children.map(({ category: child, depth }) => (
+                          <div
+                            key={child.id}
+                            className="flex items-center gap-2 py-1 pr-2 rounded-md hover:bg-muted/50 transition-colors"
+                            style={{ paddingLeft: `${depth * 16 + 8}px` }}
+                          >
+                            <div
+                              className="w-3 h-3 rounded-full border border-border/20"
+                              style={{ backgroundColor: child.color }}
+                            />
+                            <span className="text-xs text-muted-foreground">
+                              {child.name}
+                            </span>
+                          </div>
+                        ))}
                       </div>
                     ))}
                   </div>
@@ -494,6 +818,61 @@ export default function Home() {
                 <div className="text-sm text-muted-foreground">Eficiencia</div>
               </div>
             </div>
+
+            {/* Planned vs completed per category (parents include their sub-categories) */}
+            <div className="mt-6 space-y-2">
+              {sortCategoriesAsTree(
+                Object.entries(metrics.categoryBreakdown).map(([id, category]) => ({ id, ...category }))
+              ).map(({ category, depth }) => (
+                <div key={category.id} className="flex items-center gap-3 text-sm">
+                  <div
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: category.color, marginLeft: `${depth * 12}px` }}
+                  />
+                  <span
+                    className={cn('truncate text-card-foreground', depth > 0 && 'text-muted-foreground')}
+                    style={{ width: `${112 - depth * 12}px` }}
+                  >
+                    {category.name}
+                  </span>
+                  <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${category.efficiency}%`, backgroundColor: category.color }}
+                    />
+                  </div>
+                  <span className="w-36 text-right text-muted-foreground">
+                    {Math.round(category.completedMinutes / 6) / 10}h / {Math.round(category.minutes / 6) / 10}h ({category.efficiency}%)
+                  </span>
+                  <span
+                    className={cn(
+                      'w-32 text-right',
+                      category.variance > 0 ? 'text-amber-600' : 'text-muted-foreground'
+                    )}
+                    title="Tiempo real registrado (diferencia con lo planificado)"
+                  >
+                    Real {Math.round(category.trackedMinutes / 6) / 10}h ({category.variance >= 0 ? '+' : ''}{Math.round(category.variance / 6) / 10}h)
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {/* Planned time per tag (a block counts in each of its tags) */}
+            {Object.keys(metrics.tagBreakdown).length > 0 && (
+              <div className="mt-4 flex flex-wrap gap-2">
+                {Object.entries(metrics.tagBreakdown)
+                  .sort(([, a], [, b]) => b.minutes - a.minutes)
+                  .map(([name, tag]) => (
+                    <span
+                      key={name}
+                      className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground"
+                      title={`${tag.blocks} bloques · ${Math.round(tag.percentage)}% del tiempo planificado`}
+                    >
+                      #{name} · {Math.round(tag.minutes / 6) / 10}h ({tag.efficiency}%)
+                    </span>
+                  ))}
+              </div>
+            )}
           </Card>
         )}
 
@@ -507,6 +886,66 @@ export default function Home() {
           onCancel={handleCancelForm}
           isOpen={isFormOpen}
           weekStart={weekGrid.weekInfo.start}
+          timeZone={timeZone}
+          slotMinutes={slotMinutes}
+          defaultDuration={defaultBlockMinutes}
+          locale={locale}
+          workingHours={workingHours}
+          onRevert={workspaces.canEdit ? handleRevertBlock : undefined}
+          onHistoryError={(message) => toast.error('Error al restaurar la versión', message)}
+          onChecklistChange={scheduleBlocks.updateChecklist}
+        />
+
+        {/* Recurring Block Delete Scope */}
+        <RecurrenceScopeDialog
+          isOpen={Boolean(pendingDeleteBlock)}
+          action="delete"
+          onConfirm={handleConfirmDeleteScope}
+          onCancel={() => setPendingDeleteBlock(undefined)}
+        />
+
+        {/* Copy Week */}
+        <CopyWeekDialog
+          isOpen={isCopyWeekOpen}
+          sourceWeek={weekGrid.currentWeek}
+          categories={categories.categories}
+          onCopy={handleCopyWeek}
+          onClose={() => setIsCopyWeekOpen(false)}
+          onError={(message) => toast.error('Error al copiar la semana', message)}
+          timeZone={timeZone}
+          weekStartsOn={weekStartsOn}
+          locale={locale}
+        />
+
+        {/* Week Templates */}
+        <WeekTemplatesDialog
+          isOpen={isTemplatesOpen}
+          week={weekGrid.currentWeek}
+          onApply={handleApplyTemplate}
+          onClose={() => setIsTemplatesOpen(false)}
+          onError={(message) => toast.error('Error en las plantillas', message)}
+          timeZone={timeZone}
+          locale={locale}
+        />
+
+        {/* Category management */}
+        <CategoryManager
+          isOpen={isCategoryManagerOpen}
+          categories={categories}
+          onClose={() => setIsCategoryManagerOpen(false)}
+          onBlocksChange={handleRefresh}
+          onError={(message) => toast.error('Error en las categorías', message)}
+        />
+
+        {/* Trash */}
+        <TrashDialog
+          isOpen={isTrashOpen}
+          canEdit={workspaces.canEdit}
+          onClose={() => setIsTrashOpen(false)}
+          onChange={handleRefresh}
+          onError={(message) => toast.error('Error en la papelera', message)}
+          timeZone={timeZone}
+          locale={locale}
         />
 
         {/* Toast Notifications */}
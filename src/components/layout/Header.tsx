@@ -1,9 +1,52 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { ThemeToggleButton } from '@/components/ui/theme-toggle';
-import { Calendar } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { WorkspaceSwitcher } from '@/components/workspace/WorkspaceSwitcher';
+import { SettingsDialog } from '@/components/settings/SettingsDialog';
+import type { UserPreferences, Workspace } from '@/lib/types';
+import { Calendar, LogOut, Settings } from 'lucide-react';
+
+interface HeaderProps {
+  workspaces?: Workspace[];
+  currentWorkspace?: Workspace | null;
+  onWorkspaceChange?: (id: string) => void;
+  onWorkspaceCreate?: (name: string) => Promise<unknown>;
+  preferences?: UserPreferences;
+  onPreferencesChange?: (data: Partial<UserPreferences>) => Promise<void> | void;
+}
+
+export function Header({
+  workspaces,
+  currentWorkspace = null,
+  onWorkspaceChange,
+  onWorkspaceCreate,
+  preferences,
+  onPreferencesChange,
+}: HeaderProps = {}) {
+  const router = useRouter();
+  const { user, isLoading, error, logout } = useAuth();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // The cookie may point to an expired session: go back to the login page
+  useEffect(() => {
+    if (!isLoading && !user && !error) {
+      router.replace('/login');
+    }
+  }, [isLoading, user, error, router]);
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      router.replace('/login');
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+  };
 
-export function Header() {
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-14 items-center justify-between px-4">
@@ -15,9 +58,46 @@ export function Header() {
 
         {/* Controles de la derecha */}
         <div className="flex items-center gap-4">
+          {workspaces && onWorkspaceChange && onWorkspaceCreate && (
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              currentWorkspace={currentWorkspace}
+              onWorkspaceChange={onWorkspaceChange}
+              onWorkspaceCreate={onWorkspaceCreate}
+            />
+          )}
+          {preferences && onPreferencesChange && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSettingsOpen(true)}
+              title="Preferencias"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+          )}
+          {user && (
+            <span className="hidden sm:inline text-sm text-muted-foreground" title={user.email}>
+              {user.name || user.email}
+            </span>
+          )}
           <ThemeToggleButton />
+          {user && (
+            <Button variant="ghost" size="sm" onClick={handleLogout} title="Cerrar sesión">
+              <LogOut className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
+
+      {preferences && onPreferencesChange && (
+        <SettingsDialog
+          isOpen={isSettingsOpen}
+          preferences={preferences}
+          onSave={onPreferencesChange}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
     </header>
   );
-}
\ No newline at end of file
+}
@@ -1,12 +1,19 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { ScheduleBlock, Category, TimeSlot, BlockFormData } from '@/lib/types';
-import { scheduleBlockSchema, type ScheduleBlockInput } from '@/lib/validations';
-import { formatTime, roundToTimeSlot, timeSlotToDate } from '@/lib/utils';
+import { ScheduleBlock, Category, TimeSlot, BlockFormData, RecurrenceScope, ChecklistItem, SlotMinutes, WorkingHoursRange } from '@/lib/types';
+import { createScheduleBlockSchema, type ScheduleBlockInput } from '@/lib/validations';
+import { formatTime, roundToTimeSlot, timeSlotToDate, sortCategoriesAsTree, DEFAULT_SLOT_MINUTES, DEFAULT_WORKING_HOURS } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import { ConflictChecker } from '@/lib/conflict-checker';
+import { DEFAULT_TIMEZONE, addZonedDays, fromZonedParts, getZonedParts, startOfZonedDay } from '@/lib/timezone';
 import { ConflictWarning } from './ConflictWarning';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { RecurrenceScopeDialog } from './RecurrenceScopeDialog';
+import { BlockHistoryPanel } from './BlockHistoryPanel';
+import { TagInput } from './TagInput';
+import { ChecklistEditor } from './ChecklistEditor';
+import { useTags } from '@/hooks/useTags';
 
 // UI Components
 import {
@@ -29,34 +36,57 @@ import {
 } from '@/components/ui/select';
 
 // Icons
-import { Clock, Calendar, Tag, Save, X, Loader2 } from 'lucide-react';
+import { Clock, Calendar, Tag, Tags, ListChecks, MapPin, Link2, Users, Save, X, Loader2 } from 'lucide-react';
 
 interface BlockFormProps {
   block?: ScheduleBlock;
   initialTimeSlot?: TimeSlot;
   weekStart?: Date;
+  timeZone?: string; // Days and times of day are entered in this zone
+  slotMinutes?: SlotMinutes; // Times are rounded to slots of this size
+  defaultDuration?: number; // Minutes of new blocks
+  locale?: string; // Locale of the times shown
+  workingHours?: WorkingHoursRange[]; // Conflict suggestions stay within them
   categories: Category[];
   existingBlocks?: ScheduleBlock[];
-  onSave: (data: BlockFormData) => Promise<void>;
+  onSave: (data: BlockFormData, scope?: RecurrenceScope) => Promise<void>;
   onCancel: () => void;
   isOpen: boolean;
   isLoading?: boolean;
+  // Shows the change history of the edited block; called after restoring a version
+  onRevert?: (block: ScheduleBlock) => void;
+  onHistoryError?: (message: string) => void;
+  // Checklist changes of a saved block are stored right away, outside of onSave
+  onChecklistChange?: (blockId: string, items: ChecklistItem[]) => void;
 }
 
 interface FormErrors {
   [key: string]: string;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Attendees are typed as a list of emails separated by commas, semicolons or spaces
+const parseAttendees = (text: string): string[] => text.split(/[\s,;]+/).filter(Boolean);
+
 export function BlockForm({
   block,
   initialTimeSlot,
   weekStart = new Date(),
+  timeZone = DEFAULT_TIMEZONE,
+  slotMinutes = DEFAULT_SLOT_MINUTES,
+  defaultDuration = 60,
+  locale,
+  workingHours = DEFAULT_WORKING_HOURS,
   categories,
   existingBlocks = [],
   onSave,
   onCancel,
   isOpen,
   isLoading = false,
+  onRevert,
+  onHistoryError,
+  onChecklistChange,
 }: BlockFormProps) {
   // Form state
   const [formData, setFormData] = useState<BlockFormData>({
@@ -65,11 +95,29 @@ export function BlockForm({
     startTime: new Date(),
     endTime: new Date(),
     categoryId: '',
+    recurrenceRule: null,
+    tags: [],
   });
   
+  const [attendeesText, setAttendeesText] = useState('');
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [ignoreConflicts, setIgnoreConflicts] = useState(false);
+  const [isScopeDialogOpen, setIsScopeDialogOpen] = useState(false);
+  const { tags: workspaceTags } = useTags({ enabled: isOpen });
+
+  // Archived categories are only offered to the blocks that already use them
+  const selectableCategories = useMemo(
+    () => categories.filter(category => !category.archivedAt || category.id === block?.categoryId),
+    [categories, block?.categoryId]
+  );
+
+  const startOfDay = (date: Date): Date => startOfZonedDay(date, timeZone);
+  const addDays = (date: Date, days: number): Date => addZonedDays(date, days, timeZone);
+
+  // Blocks of categories that allow overlaps always allow them
+  const categoryAllowsOverlap = Boolean(categories.find(category => category.id === formData.categoryId)?.allowOverlap);
+  const allowOverlap = Boolean(formData.allowOverlap) || categoryAllowsOverlap;
 
   // Check for conflicts in real-time
   const conflictResult = useMemo(() => {
@@ -78,11 +126,16 @@ export function BlockForm({
     }
 
     return ConflictChecker.checkForConflicts(
-      { startTime: formData.startTime, endTime: formData.endTime },
+      { startTime: formData.startTime, endTime: formData.endTime, allDay: formData.allDay, allowOverlap },
       existingBlocks,
-      block?.id
+      block?.id,
+      timeZone,
+      workingHours
     );
-  }, [formData.startTime, formData.endTime, existingBlocks, block?.id, ignoreConflicts]);
+  }, [
+    formData.startTime, formData.endTime, formData.allDay, allowOverlap, existingBlocks, block?.id, ignoreConflicts, timeZone,
+    workingHours,
+  ]);
 
   // Initialize form data
   useEffect(() => {
@@ -93,45 +146,71 @@ export function BlockForm({
         description: block.description || '',
         startTime: new Date(block.startTime),
         endTime: new Date(block.endTime),
+        allDay: block.allDay ?? false,
+        allowOverlap: block.allowOverlap ?? false,
         categoryId: block.categoryId,
+        recurrenceRule: block.recurrenceRule ?? null,
+        tags: block.tags?.map(tag => tag.name) ?? [],
+        location: block.location ?? '',
+        meetingUrl: block.meetingUrl ?? '',
+        attendees: block.attendees?.map(attendee => attendee.email) ?? [],
       });
+      setAttendeesText(block.attendees?.map(attendee => attendee.email).join(', ') ?? '');
     } else if (initialTimeSlot && weekStart) {
       // Creating new block from time slot
-      const startTime = timeSlotToDate(initialTimeSlot, weekStart);
+      const startTime = timeSlotToDate(initialTimeSlot, weekStart, timeZone);
       const endTime = new Date(startTime);
-      endTime.setMinutes(endTime.getMinutes() + 60); // Default 1 hour duration
+      endTime.setMinutes(endTime.getMinutes() + defaultDuration);
       
       setFormData({
         title: '',
         description: '',
-        startTime: roundToTimeSlot(startTime),
-        endTime: roundToTimeSlot(endTime),
-        categoryId: categories.length > 0 ? categories[0].id : '',
+        startTime: roundToTimeSlot(startTime, timeZone, slotMinutes),
+        endTime: roundToTimeSlot(endTime, timeZone, slotMinutes),
+        categoryId: selectableCategories.length > 0 ? selectableCategories[0].id : '',
+        allDay: false,
+        allowOverlap: false,
+        recurrenceRule: null,
+        tags: [],
+        checklist: [],
+        location: '',
+        meetingUrl: '',
+        attendees: [],
       });
+      setAttendeesText('');
     } else {
       // Default new block
       const now = new Date();
-      const startTime = roundToTimeSlot(now);
+      const startTime = roundToTimeSlot(now, timeZone, slotMinutes);
       const endTime = new Date(startTime);
-      endTime.setMinutes(endTime.getMinutes() + 60);
+      endTime.setMinutes(endTime.getMinutes() + defaultDuration);
       
       setFormData({
         title: '',
         description: '',
         startTime,
-        endTime: roundToTimeSlot(endTime),
-        categoryId: categories.length > 0 ? categories[0].id : '',
+        endTime: roundToTimeSlot(endTime, timeZone, slotMinutes),
+        categoryId: selectableCategories.length > 0 ? selectableCategories[0].id : '',
+        allDay: false,
+        allowOverlap: false,
+        recurrenceRule: null,
+        tags: [],
+        checklist: [],
+        location: '',
+        meetingUrl: '',
+        attendees: [],
       });
+      setAttendeesText('');
     }
     
     // Clear errors when dialog opens/closes
     setErrors({});
-  }, [block, initialTimeSlot, weekStart, categories, isOpen]);
+  }, [block, initialTimeSlot, weekStart, timeZone, slotMinutes, defaultDuration, selectableCategories, isOpen]);
 
   // Validation
   const validateForm = (): boolean => {
     try {
-      scheduleBlockSchema.parse(formData);
+      createScheduleBlockSchema(slotMinutes, timeZone).parse(formData);
       setErrors({});
       return true;
     } catch (error: any) {
@@ -163,10 +242,21 @@ export function BlockForm({
       return;
     }
     
+    // Occurrences of a recurring block ask which events the change applies to
+    if (block?.recurrenceRule && block.originalStartTime) {
+      setIsScopeDialogOpen(true);
+      return;
+    }
+
+    await saveBlock();
+  };
+
+  const saveBlock = async (scope?: RecurrenceScope) => {
+    setIsScopeDialogOpen(false);
     setIsSubmitting(true);
     
     try {
-      await onSave(formData);
+      await onSave(formData, scope);
       // Reset conflict ignore state
       setIgnoreConflicts(false);
     } catch (error) {
@@ -192,11 +282,15 @@ export function BlockForm({
   // Handle time changes
   const handleTimeChange = (field: 'startTime' | 'endTime', value: string) => {
     const [hours, minutes] = value.split(':').map(Number);
-    const newTime = new Date(formData[field]);
-    newTime.setHours(hours, minutes, 0, 0);
+    // The end is taken on the day of the start, or on the next day when it would not be after it
+    const { year, month, day } = getZonedParts(formData.startTime, timeZone);
+    const newTime = fromZonedParts({ year, month, day, hour: hours, minute: minutes }, timeZone);
     
-    // Round to nearest 30-minute slot
-    const roundedTime = roundToTimeSlot(newTime);
+    // Round to nearest slot
+    let roundedTime = roundToTimeSlot(newTime, timeZone, slotMinutes);
+    if (field === 'endTime' && roundedTime <= formData.startTime) {
+      roundedTime = addDays(roundedTime, 1);
+    }
     
     handleInputChange(field, roundedTime);
     
@@ -205,22 +299,70 @@ export function BlockForm({
       const currentDuration = formData.endTime.getTime() - formData.startTime.getTime();
       const newEndTime = new Date(roundedTime.getTime() + currentDuration);
       
-      // Ensure minimum 30 minutes duration
-      if (newEndTime.getTime() - roundedTime.getTime() < 30 * 60 * 1000) {
-        newEndTime.setTime(roundedTime.getTime() + 30 * 60 * 1000);
+      // Ensure minimum duration of one slot
+      if (newEndTime.getTime() - roundedTime.getTime() < slotMinutes * 60 * 1000) {
+        newEndTime.setTime(roundedTime.getTime() + slotMinutes * 60 * 1000);
       }
       
-      handleInputChange('endTime', roundToTimeSlot(newEndTime));
+      handleInputChange('endTime', roundToTimeSlot(newEndTime, timeZone, slotMinutes));
+    }
+  };
+
+  // All-day events go from the start of the first day to the start of the day after the last one
+  const handleAllDayChange = (allDay: boolean) => {
+    const firstDay = startOfDay(formData.startTime);
+
+    if (allDay) {
+      const lastDay = startOfDay(new Date(Math.max(formData.endTime.getTime() - 1, firstDay.getTime())));
+      setFormData(prev => ({ ...prev, allDay, startTime: firstDay, endTime: addDays(lastDay, 1) }));
+    } else {
+      const { year, month, day } = getZonedParts(firstDay, timeZone);
+      const startTime = fromZonedParts({ year, month, day, hour: 9 }, timeZone);
+      setFormData(prev => ({ ...prev, allDay, startTime, endTime: new Date(startTime.getTime() + 60 * 60 * 1000) }));
+    }
+  };
+
+  const handleDateChange = (field: 'startTime' | 'endTime', value: string) => {
+    if (!value) {
+      return;
+    }
+
+    const [year, month, day] = value.split('-').map(Number);
+    const date = fromZonedParts({ year, month, day }, timeZone);
+
+    if (field === 'startTime') {
+      // Moving the first day keeps the number of days
+      const days = Math.max(1, Math.round((formData.endTime.getTime() - formData.startTime.getTime()) / DAY_MS));
+      setFormData(prev => ({ ...prev, startTime: date, endTime: addDays(date, days) }));
+    } else {
+      // The input shows the last day, the block ends at the start of the next one
+      const endTime = addDays(date, 1);
+      handleInputChange('endTime', endTime > formData.startTime ? endTime : addDays(formData.startTime, 1));
     }
   };
 
   // Format time for input
+  const pad = (value: number) => String(value).padStart(2, '0');
+
   const formatTimeForInput = (date: Date): string => {
-    return date.toTimeString().slice(0, 5);
+    const { hour, minute } = getZonedParts(date, timeZone);
+    return `${pad(hour)}:${pad(minute)}`;
+  };
+
+  const formatDateForInput = (date: Date): string => {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return `${year}-${pad(month)}-${pad(day)}`;
   };
 
+  const allDayCount = Math.max(1, Math.round((formData.endTime.getTime() - formData.startTime.getTime()) / DAY_MS));
+  const endsNextDay = startOfDay(formData.endTime).getTime() > startOfDay(formData.startTime).getTime() &&
+    formData.endTime.getTime() !== startOfDay(formData.endTime).getTime();
+
   // Get selected category
   const selectedCategory = categories.find(cat => cat.id === formData.categoryId);
+  // Errors of single attendees come as `attendees.<index>`
+  const attendeesError = Object.entries(errors).find(([field, message]) => field.startsWith('attendees') && message)?.[1];
+  const selectedParent = categories.find(cat => cat.id === selectedCategory?.parentId);
 
   return (
     <Dialog open={isOpen} onOpenChange={onCancel}>
@@ -264,60 +406,128 @@ export function BlockForm({
             )}
           </div>
 
-          {/* Time Range */}
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="startTime" className="flex items-center gap-1">
-                <Clock className="w-4 h-4" />
-                Hora de inicio *
-              </Label>
-              <Input
-                id="startTime"
-                type="time"
-                value={formatTimeForInput(formData.startTime)}
-                onChange={(e) => handleTimeChange('startTime', e.target.value)}
-                step="1800" // 30 minutes
-                className={cn(errors.startTime && 'border-red-500')}
-              />
-              {errors.startTime && (
-                <p className="text-sm text-red-500">{errors.startTime}</p>
-              )}
-            </div>
+          {/* All day */}
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={Boolean(formData.allDay)}
+              onChange={(e) => handleAllDayChange(e.target.checked)}
+            />
+            Todo el día
+          </label>
 
-            <div className="space-y-2">
-              <Label htmlFor="endTime" className="flex items-center gap-1">
-                <Clock className="w-4 h-4" />
-                Hora de fin *
-              </Label>
-              <Input
-                id="endTime"
-                type="time"
-                value={formatTimeForInput(formData.endTime)}
-                onChange={(e) => handleTimeChange('endTime', e.target.value)}
-                step="1800" // 30 minutes
-                className={cn(errors.endTime && 'border-red-500')}
-              />
-              {errors.endTime && (
-                <p className="text-sm text-red-500">{errors.endTime}</p>
-              )}
-            </div>
-          </div>
+          {formData.allDay ? (
+            <>
+              {/* Date Range */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="startDate" className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    Desde *
+                  </Label>
+                  <Input
+                    id="startDate"
+                    type="date"
+                    value={formatDateForInput(formData.startTime)}
+                    onChange={(e) => handleDateChange('startTime', e.target.value)}
+                    className={cn(errors.startTime && 'border-red-500')}
+                  />
+                </div>
 
-          {/* Duration Display */}
-          <div className="text-sm text-muted-foreground bg-muted p-3 rounded-md">
-            <div className="flex items-center justify-between">
-              <span>Duración:</span>
-              <span className="font-medium">
-                {Math.round((formData.endTime.getTime() - formData.startTime.getTime()) / (1000 * 60))} minutos
-              </span>
-            </div>
-            <div className="flex items-center justify-between mt-1">
-              <span>Horario:</span>
-              <span className="font-medium">
-                {formatTime(formData.startTime)} - {formatTime(formData.endTime)}
-              </span>
-            </div>
-          </div>
+                <div className="space-y-2">
+                  <Label htmlFor="endDate" className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    Hasta *
+                  </Label>
+                  <Input
+                    id="endDate"
+                    type="date"
+                    value={formatDateForInput(addDays(formData.endTime, -1))}
+                    min={formatDateForInput(formData.startTime)}
+                    onChange={(e) => handleDateChange('endTime', e.target.value)}
+                    className={cn(errors.endTime && 'border-red-500')}
+                  />
+                </div>
+              </div>
+
+              <div className="text-sm text-muted-foreground bg-muted p-3 rounded-md">
+                <div className="flex items-center justify-between">
+                  <span>Duración:</span>
+                  <span className="font-medium">
+                    {allDayCount} {allDayCount === 1 ? 'día' : 'días'}
+                  </span>
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Time Range */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="startTime" className="flex items-center gap-1">
+                    <Clock className="w-4 h-4" />
+                    Hora de inicio *
+                  </Label>
+                  <Input
+                    id="startTime"
+                    type="time"
+                    value={formatTimeForInput(formData.startTime)}
+                    onChange={(e) => handleTimeChange('startTime', e.target.value)}
+                    step={slotMinutes * 60}
+                    className={cn(errors.startTime && 'border-red-500')}
+                  />
+                  {errors.startTime && (
+                    <p className="text-sm text-red-500">{errors.startTime}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="endTime" className="flex items-center gap-1">
+                    <Clock className="w-4 h-4" />
+                    Hora de fin *
+                  </Label>
+                  <Input
+                    id="endTime"
+                    type="time"
+                    value={formatTimeForInput(formData.endTime)}
+                    onChange={(e) => handleTimeChange('endTime', e.target.value)}
+                    step={slotMinutes * 60}
+                    className={cn(errors.endTime && 'border-red-500')}
+                  />
+                  {errors.endTime && (
+                    <p className="text-sm text-red-500">{errors.endTime}</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Duration Display */}
+              <div className="text-sm text-muted-foreground bg-muted p-3 rounded-md">
+                <div className="flex items-center justify-between">
+                  <span>Duración:</span>
+                  <span className="font-medium">
+                    {Math.round((formData.endTime.getTime() - formData.startTime.getTime()) / (1000 * 60))} minutos
+                  </span>
+                </div>
+                <div className="flex items-center justify-between mt-1">
+                  <span>Horario:</span>
+                  <span className="font-medium">
+                    {formatTime(formData.startTime, timeZone, locale)} - {formatTime(formData.endTime, timeZone, locale)}
+                    {endsNextDay && ' (día siguiente)'}
+                  </span>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Recurrence */}
+          <RecurrenceEditor
+            value={formData.recurrenceRule}
+            startTime={formData.startTime}
+            timeZone={timeZone}
+            locale={locale}
+            onChange={(rrule) => handleInputChange('recurrenceRule', rrule)}
+            error={errors.recurrenceRule}
+          />
 
           {/* Category */}
           <div className="space-y-2">
@@ -337,15 +547,19 @@ export function BlockForm({
                         className="w-3 h-3 rounded-full"
                         style={{ backgroundColor: selectedCategory.color }}
                       />
+                      {selectedParent && (
+                        <span className="text-muted-foreground">{selectedParent.name} /</span>
+                      )}
                       {selectedCategory.name}
                     </div>
                   )}
                 </SelectValue>
               </SelectTrigger>
               <SelectContent>
-                {categories.map((category) => (
+                {/* Sub-categories are indented under their parent */}
+                {sortCategoriesAsTree(selectableCategories).map(({ category, depth }) => (
                   <SelectItem key={category.id} value={category.id}>
-                    <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 16}px` }}>
                       <div
                         className="w-3 h-3 rounded-full"
                         style={{ backgroundColor: category.color }}
@@ -361,6 +575,113 @@ export function BlockForm({
             )}
           </div>
 
+          {/* Allow overlap */}
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allowOverlap}
+              disabled={categoryAllowsOverlap}
+              onChange={(e) => handleInputChange('allowOverlap', e.target.checked)}
+            />
+            Permitir que otros bloques se superpongan
+            {categoryAllowsOverlap && (
+              <span className="text-muted-foreground">(lo permite la categoría)</span>
+            )}
+          </label>
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label htmlFor="tags" className="flex items-center gap-1">
+              <Tags className="w-4 h-4" />
+              Etiquetas
+            </Label>
+            <TagInput
+              value={formData.tags ?? []}
+              suggestions={workspaceTags.map(tag => tag.name)}
+              onChange={(tags) => handleInputChange('tags', tags)}
+              error={errors.tags}
+            />
+          </div>
+
+          {/* Location and meeting link */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="location" className="flex items-center gap-1">
+                <MapPin className="w-4 h-4" />
+                Ubicación
+              </Label>
+              <Input
+                id="location"
+                value={formData.location ?? ''}
+                onChange={(e) => handleInputChange('location', e.target.value)}
+                placeholder="Ej: Sala 2, oficina..."
+                className={cn(errors.location && 'border-red-500')}
+              />
+              {errors.location && (
+                <p className="text-sm text-red-500">{errors.location}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="meetingUrl" className="flex items-center gap-1">
+                <Link2 className="w-4 h-4" />
+                Enlace de la reunión
+              </Label>
+              <Input
+                id="meetingUrl"
+                type="url"
+                value={formData.meetingUrl ?? ''}
+                onChange={(e) => handleInputChange('meetingUrl', e.target.value)}
+                placeholder="https://..."
+                className={cn(errors.meetingUrl && 'border-red-500')}
+              />
+              {errors.meetingUrl && (
+                <p className="text-sm text-red-500">{errors.meetingUrl}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Attendees */}
+          <div className="space-y-2">
+            <Label htmlFor="attendees" className="flex items-center gap-1">
+              <Users className="w-4 h-4" />
+              Asistentes
+            </Label>
+            <Input
+              id="attendees"
+              value={attendeesText}
+              onChange={(e) => {
+                setAttendeesText(e.target.value);
+                handleInputChange('attendees', parseAttendees(e.target.value));
+              }}
+              placeholder="ana@ejemplo.com, luis@ejemplo.com"
+              className={cn(attendeesError && 'border-red-500')}
+              autoComplete="off"
+            />
+            {attendeesError && (
+              <p className="text-sm text-red-500">{attendeesError}</p>
+            )}
+          </div>
+
+          {/* Checklist */}
+          <div className="space-y-2">
+            <Label htmlFor="checklist" className="flex items-center gap-1">
+              <ListChecks className="w-4 h-4" />
+              Lista de pasos
+            </Label>
+            <ChecklistEditor
+              blockId={block?.id}
+              value={formData.checklist ?? []}
+              onChange={(checklist) => handleInputChange('checklist', checklist)}
+              onItemsChange={onChecklistChange}
+              onError={(message) => setErrors(prev => ({ ...prev, checklist: message }))}
+              disabled={isSubmitting || isLoading}
+            />
+            {errors.checklist && (
+              <p className="text-sm text-red-500">{errors.checklist}</p>
+            )}
+          </div>
+
           {/* Conflict Warning */}
           <ConflictWarning
             conflictResult={conflictResult}
@@ -369,8 +690,22 @@ export function BlockForm({
               // TODO: Parse suggestion and update form times
               console.log('Suggested time:', suggestion);
             }}
+            timeZone={timeZone}
+            locale={locale}
           />
 
+          {/* Change History */}
+          {block && onRevert && (
+            <BlockHistoryPanel
+              blockId={block.id}
+              timeZone={timeZone}
+              locale={locale}
+              canRevert={!isSubmitting && !isLoading}
+              onRevert={onRevert}
+              onError={(message) => onHistoryError?.(message)}
+            />
+          )}
+
           {/* Submit Error */}
           {errors.submit && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
@@ -408,6 +743,24 @@ export function BlockForm({
             </Button>
           </DialogFooter>
         </form>
+
+        <RecurrenceScopeDialog
+          isOpen={isScopeDialogOpen}
+          action="edit"
+          allowSingle={
+            (formData.recurrenceRule || null) === (block?.recurrenceRule || null) &&
+            Boolean(formData.allDay) === Boolean(block?.allDay) &&
+            Boolean(formData.allowOverlap) === Boolean(block?.allowOverlap) &&
+            // Tags, location, link and attendees belong to the whole series
+            [...(formData.tags ?? [])].sort().join(',') === (block?.tags ?? []).map(tag => tag.name).sort().join(',') &&
+            (formData.location || null) === (block?.location || null) &&
+            (formData.meetingUrl || null) === (block?.meetingUrl || null) &&
+            [...new Set(formData.attendees)].sort().join(',') ===
+              (block?.attendees ?? []).map(attendee => attendee.email).sort().join(',')
+          }
+          onConfirm={saveBlock}
+          onCancel={() => setIsScopeDialogOpen(false)}
+        />
       </DialogContent>
     </Dialog>
   );
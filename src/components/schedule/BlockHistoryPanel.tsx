@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { useBlockHistory } from '@/hooks/useBlockHistory';
+import { formatDate, formatTime } from '@/lib/utils';
+import type { BlockSnapshot, HistoryAction, HistoryEntry, ScheduleBlock } from '@/lib/types';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+
+// Icons
+import { History, ChevronDown, ChevronRight, RotateCcw, Loader2 } from 'lucide-react';
+
+interface BlockHistoryPanelProps {
+  blockId: string;
+  canRevert: boolean;
+  onRevert: (block: ScheduleBlock) => void;
+  onError: (message: string) => void;
+  timeZone?: string;
+  locale?: string;
+}
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  create: 'Creado',
+  update: 'Modificado',
+  delete: 'Eliminado',
+  restore: 'Restaurado de la papelera',
+  purge: 'Eliminado definitivamente',
+  revert: 'Versión restaurada',
+};
+
+const FIELD_LABELS: Partial<Record<keyof BlockSnapshot, string>> = {
+  title: 'título',
+  description: 'descripción',
+  startTime: 'inicio',
+  endTime: 'fin',
+  categoryId: 'categoría',
+  recurrenceRule: 'repetición',
+  location: 'ubicación',
+  meetingUrl: 'enlace',
+  status: 'estado',
+};
+
+// Fields that differ between the versions before and after a change
+const getChangedFields = (entry: HistoryEntry): string[] => {
+  if (!entry.before || !entry.after) {
+    return [];
+  }
+
+  return (Object.keys(FIELD_LABELS) as (keyof BlockSnapshot)[])
+    .filter(field => entry.before![field] !== entry.after![field])
+    .map(field => FIELD_LABELS[field]!);
+};
+
+const getActorLabel = (entry: HistoryEntry): string => {
+  if (!entry.actor) {
+    return 'Sistema';
+  }
+  const name = entry.actor.name || entry.actor.email;
+  return entry.source === 'api' ? `${name} (API)` : name;
+};
+
+export function BlockHistoryPanel({ blockId, canRevert, onRevert, onError, timeZone, locale }: BlockHistoryPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  // Only fetch the history once the panel is opened
+  const { entries, isLoading, error, revert } = useBlockHistory(isExpanded ? blockId : null);
+
+  const handleRevert = async (entryId: string) => {
+    setPendingId(entryId);
+    try {
+      onRevert(await revert(entryId));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="border rounded-md">
+      <button
+        type="button"
+        className="w-full flex items-center gap-2 p-2 text-sm font-medium hover:bg-muted/50"
+        onClick={() => setIsExpanded(expanded => !expanded)}
+      >
+        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <History className="w-4 h-4" />
+        Historial
+      </button>
+
+      {isExpanded && (
+        <div className="border-t p-3 max-h-[220px] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay cambios registrados</p>
+          ) : (
+            <ol className="relative border-l ml-1 space-y-3">
+              {entries.map((entry, index) => {
+                const createdAt = new Date(entry.createdAt);
+                const changedFields = getChangedFields(entry);
+                const occurrenceStart = entry.after?.originalStartTime ?? entry.before?.originalStartTime;
+                // The most recent entry is the current version
+                const isRevertible = canRevert && index > 0 &&
+                  Boolean(entry.after) && !entry.after!.deletedAt && !entry.after!.cancelled;
+
+                return (
+                  <li key={entry.id} className="ml-3 text-sm">
+                    <span className="absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full bg-muted-foreground/40" />
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium">
+                          {ACTION_LABELS[entry.action]}
+                          {occurrenceStart && (
+                            <span className="font-normal text-muted-foreground">
+                              {' · '}ocurrencia del {formatDate(new Date(occurrenceStart), 'short', timeZone, locale)}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {getActorLabel(entry)} · {formatDate(createdAt, 'short', timeZone, locale)} {formatTime(createdAt, timeZone, locale)}
+                        </p>
+                        {changedFields.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Cambios: {changedFields.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      {isRevertible && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 flex-shrink-0"
+                          title="Restaurar esta versión"
+                          disabled={pendingId !== null}
+                          onClick={() => handleRevert(entry.id)}
+                        >
+                          {pendingId === entry.id ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                          ) : (
+                            <RotateCcw className="w-3 h-3" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
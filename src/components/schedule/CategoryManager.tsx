@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { CATEGORY_COLORS, generateRandomColor, sortCategoriesAsTree } from '@/lib/utils';
+import { cn } from '@/lib/utils';
+import type { Category, UseCategoriesReturn } from '@/lib/types';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Icons
+import {
+  Palette,
+  Shuffle,
+  Plus,
+  ArrowUp,
+  ArrowDown,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  GitMerge,
+  Layers,
+  Loader2,
+} from 'lucide-react';
+
+// Select value for "no category" (Select items cannot have an empty value)
+const NONE = 'none';
+
+interface CategoryManagerProps {
+  isOpen: boolean;
+  categories: UseCategoriesReturn;
+  onClose: () => void;
+  onBlocksChange: () => void; // Called when blocks change category (or its name or color) so the week is reloaded
+  onError: (message: string) => void;
+}
+
+interface ColorPaletteProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+function ColorPalette({ value, onChange }: ColorPaletteProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {CATEGORY_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          title={color}
+          aria-label={`Color ${color}`}
+          className={cn(
+            'w-6 h-6 rounded-full border-2 transition-transform hover:scale-110',
+            color.toLowerCase() === value.toLowerCase() ? 'border-foreground' : 'border-transparent'
+          )}
+          style={{ backgroundColor: color }}
+          onClick={() => onChange(color)}
+        />
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0"
+        title="Color aleatorio"
+        onClick={() => onChange(generateRandomColor())}
+      >
+        <Shuffle className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function CategoryManager({ isOpen, categories, onClose, onBlocksChange, onError }: CategoryManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(CATEGORY_COLORS[0]);
+  const [newParentId, setNewParentId] = useState(NONE);
+  const [colorEditingId, setColorEditingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState(NONE);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  // Start clean every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setNewName('');
+      setNewColor(generateRandomColor());
+      setNewParentId(NONE);
+      setColorEditingId(null);
+      setDeletingId(null);
+    }
+  }, [isOpen]);
+
+  const rows = useMemo(() => sortCategoriesAsTree(categories.categories), [categories.categories]);
+  const activeCategories = rows.filter(({ category }) => !category.archivedAt);
+
+  // Siblings in display order, used to move a category up or down
+  const getSiblings = (category: Category) =>
+    rows
+      .map(row => row.category)
+      .filter(other => (other.parentId ?? null) === (category.parentId ?? null));
+
+  // A category and its sub-categories cannot receive its blocks
+  const getDescendantIds = (id: string): Set<string> => {
+    const ids = new Set([id]);
+    rows.forEach(({ category }) => {
+      if (category.parentId && ids.has(category.parentId)) {
+        ids.add(category.id);
+      }
+    });
+    return ids;
+  };
+
+  const run = async (id: string, action: () => Promise<unknown>): Promise<boolean> => {
+    setPendingId(id);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+      return false;
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await run('create', () => categories.createCategory({
+      name: newName.trim(),
+      color: newColor,
+      parentId: newParentId === NONE ? null : newParentId,
+    }));
+
+    if (created) {
+      setNewName('');
+      setNewColor(generateRandomColor());
+    }
+  };
+
+  // Blocks carry a copy of their category, so they are reloaded after a rename, recolor or overlap change
+  const handleUpdate = async (category: Category, data: { name?: string; color?: string; allowOverlap?: boolean }) => {
+    if (await run(category.id, () => categories.updateCategory(category.id, data))) {
+      onBlocksChange();
+    }
+  };
+
+  const handleRename = (category: Category, name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== category.name) {
+      handleUpdate(category, { name: trimmed });
+    }
+  };
+
+  const handleMove = (category: Category, direction: -1 | 1) => {
+    const siblings = getSiblings(category);
+    const index = siblings.findIndex(sibling => sibling.id === category.id);
+    const swapIndex = index + direction;
+    if (swapIndex < 0 || swapIndex >= siblings.length) return;
+
+    const ids = siblings.map(sibling => sibling.id);
+    [ids[index], ids[swapIndex]] = [ids[swapIndex], ids[index]];
+    run(category.id, () => categories.reorderCategories(ids));
+  };
+
+  const startDelete = (id: string) => {
+    setDeletingId(deletingId === id ? null : id);
+    setTargetId(NONE);
+  };
+
+  const handleDelete = async (id: string, merge: boolean) => {
+    const reassignTo = targetId === NONE ? undefined : targetId;
+    const done = await run(id, () => merge && reassignTo
+      ? categories.mergeCategory(id, reassignTo)
+      : categories.deleteCategory(id, { reassignTo })
+    );
+
+    if (done) {
+      setDeletingId(null);
+      if (reassignTo) {
+        onBlocksChange();
+      }
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Palette className="w-5 h-5" />
+            Gestionar categorías
+          </DialogTitle>
+          <DialogDescription>
+            Crea, renombra, ordena y archiva categorías. Las categorías archivadas no se ofrecen para bloques nuevos, pero sus bloques las conservan. Los bloques de las categorías con superposición (p. ej. «Disponible») pueden compartir horario con otros.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* New category */}
+          <div className="space-y-2 rounded-md border p-3">
+            <Label htmlFor="new-category-name">Nueva categoría</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new-category-name"
+                placeholder="Nombre de la categoría"
+                maxLength={50}
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleCreate()}
+              />
+              <Select value={newParentId} onValueChange={setNewParentId}>
+                <SelectTrigger className="w-[180px] flex-shrink-0">
+                  <SelectValue placeholder="Categoría padre" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Sin categoría padre</SelectItem>
+                  {activeCategories.map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <span style={{ paddingLeft: `${depth * 12}px` }}>{category.name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <ColorPalette value={newColor} onChange={setNewColor} />
+              <Button
+                type="button"
+                onClick={handleCreate}
+                disabled={!newName.trim() || pendingId === 'create'}
+                className="flex-shrink-0"
+              >
+                {pendingId === 'create' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                Crear
+              </Button>
+            </div>
+          </div>
+
+          {/* Existing categories */}
+          {rows.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Aún no hay categorías</p>
+          ) : (
+            <div className="max-h-[45vh] overflow-y-auto space-y-1">
+              {rows.map(({ category, depth }) => {
+                const siblings = getSiblings(category);
+                const siblingIndex = siblings.findIndex(sibling => sibling.id === category.id);
+                const isPending = pendingId === category.id;
+                const excludedIds = deletingId === category.id ? getDescendantIds(category.id) : null;
+
+                return (
+                  <div key={category.id} className="space-y-2" style={{ paddingLeft: `${depth * 20}px` }}>
+                    <div className={cn(
+                      'flex items-center gap-2 p-2 rounded-md border text-sm',
+                      category.archivedAt && 'opacity-60',
+                      deletingId === category.id && 'border-destructive'
+                    )}>
+                      <button
+                        type="button"
+                        className="w-5 h-5 rounded-full border border-border/20 flex-shrink-0"
+                        style={{ backgroundColor: category.color }}
+                        title="Cambiar color"
+                        onClick={() => setColorEditingId(colorEditingId === category.id ? null : category.id)}
+                      />
+                      <Input
+                        // Remount after a rename so the input shows the saved name
+                        key={category.name}
+                        defaultValue={category.name}
+                        maxLength={50}
+                        className="h-8"
+                        aria-label={`Nombre de ${category.name}`}
+                        onBlur={(e) => handleRename(category, e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      />
+                      {category.archivedAt && (
+                        <span className="text-xs text-muted-foreground flex-shrink-0">Archivada</span>
+                      )}
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Subir"
+                          disabled={isPending || siblingIndex <= 0}
+                          onClick={() => handleMove(category, -1)}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Bajar"
+                          disabled={isPending || siblingIndex === siblings.length - 1}
+                          onClick={() => handleMove(category, 1)}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className={cn('h-8 w-8 p-0', category.allowOverlap && 'bg-accent text-primary')}
+                          title={category.allowOverlap
+                            ? 'Sus bloques pueden superponerse a otros (clic para impedirlo)'
+                            : 'Permitir que sus bloques se superpongan a otros'}
+                          aria-pressed={Boolean(category.allowOverlap)}
+                          disabled={isPending}
+                          onClick={() => handleUpdate(category, { allowOverlap: !category.allowOverlap })}
+                        >
+                          <Layers className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title={category.archivedAt ? 'Desarchivar' : 'Archivar'}
+                          disabled={isPending}
+                          onClick={() => run(category.id, () => categories.setArchived(category.id, !category.archivedAt))}
+                        >
+                          {category.archivedAt ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive"
+                          title="Eliminar"
+                          disabled={isPending}
+                          onClick={() => startDelete(category.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {colorEditingId === category.id && (
+                      <div className="px-2">
+                        <ColorPalette
+                          value={category.color}
+                          onChange={(color) => handleUpdate(category, { color })}
+                        />
+                      </div>
+                    )}
+
+                    {excludedIds && (
+                      <div className="rounded-md border border-destructive/40 p-3 space-y-2 text-sm">
+                        <p className="text-muted-foreground">
+                          Si la categoría tiene bloques o subcategorías, elige a qué categoría pasan. Fusionar además la elimina definitivamente.
+                        </p>
+                        <Select value={targetId} onValueChange={setTargetId}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Reasignar a..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>No reasignar</SelectItem>
+                            {activeCategories
+                              .filter(({ category: other }) => !excludedIds.has(other.id))
+                              .map(({ category: other, depth: otherDepth }) => (
+                                <SelectItem key={other.id} value={other.id}>
+                                  <span style={{ paddingLeft: `${otherDepth * 12}px` }}>{other.name}</span>
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <div className="flex justify-end gap-2">
+                          <Button type="button" variant="outline" size="sm" onClick={() => setDeletingId(null)}>
+                            Cancelar
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={targetId === NONE || isPending}
+                            onClick={() => handleDelete(category.id, true)}
+                          >
+                            <GitMerge className="w-4 h-4 mr-2" />
+                            Fusionar
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="sm"
+                            disabled={isPending}
+                            onClick={() => handleDelete(category.id, false)}
+                          >
+                            {isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+                            {targetId === NONE ? 'Mover a la papelera' : 'Reasignar y eliminar'}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { useChecklist } from '@/hooks/useChecklist';
+import type { ChecklistItem } from '@/lib/types';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+// Icons
+import { ArrowUp, ArrowDown, Trash2, Plus, Loader2 } from 'lucide-react';
+
+interface ChecklistEditorProps {
+  // Saved blocks are edited live; new blocks keep the titles in the form until they are created
+  blockId?: string;
+  value: string[];
+  onChange: (titles: string[]) => void;
+  onItemsChange?: (blockId: string, items: ChecklistItem[]) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+const MAX_ITEMS = 50;
+
+// Item of the list being edited: stored items have an id, the ones of a new block only a title
+interface ChecklistRow {
+  key: string;
+  title: string;
+  done?: boolean;
+}
+
+const moveItem = <T,>(list: T[], index: number, offset: number): T[] => {
+  const moved = [...list];
+  [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+  return moved;
+};
+
+export function ChecklistEditor({
+  blockId,
+  value,
+  onChange,
+  onItemsChange,
+  onError,
+  disabled = false,
+}: ChecklistEditorProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const { items, isLoading, error, addItem, updateItem, deleteItem, reorderItems } = useChecklist({
+    blockId: blockId ?? null,
+    enabled: Boolean(blockId),
+    onChange: onItemsChange,
+  });
+
+  const rows: ChecklistRow[] = blockId
+    ? items.map(item => ({ key: item.id, title: item.title, done: item.done }))
+    : value.map((title, index) => ({ key: `${index}-${title}`, title }));
+  const doneCount = rows.filter(row => row.done).length;
+  const isFull = rows.length >= MAX_ITEMS;
+
+  // Saved changes report their errors; local ones cannot fail
+  const run = async (change: () => Promise<void>) => {
+    try {
+      await change();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    }
+  };
+
+  const handleAdd = () => {
+    const title = newTitle.trim().slice(0, 200);
+    if (!title || isFull) {
+      return;
+    }
+
+    setNewTitle('');
+    if (blockId) {
+      run(() => addItem(title));
+    } else {
+      onChange([...value, title]);
+    }
+  };
+
+  const handleRename = (index: number, title: string) => {
+    const trimmed = title.trim().slice(0, 200);
+    if (!trimmed || trimmed === rows[index].title) {
+      return;
+    }
+
+    if (blockId) {
+      run(() => updateItem(items[index].id, { title: trimmed }));
+    } else {
+      onChange(value.map((existing, i) => i === index ? trimmed : existing));
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (blockId) {
+      run(() => reorderItems(moveItem(items, index, offset).map(item => item.id)));
+    } else {
+      onChange(moveItem(value, index, offset));
+    }
+  };
+
+  const handleDelete = (index: number) => {
+    if (blockId) {
+      run(() => deleteItem(items[index].id));
+    } else {
+      onChange(value.filter((_, i) => i !== index));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.length > 0 && (
+        <ul className="space-y-1">
+          {rows.map((row, index) => (
+            <li key={row.key} className="flex items-center gap-1">
+              {blockId && (
+                <input
+                  type="checkbox"
+                  checked={row.done}
+                  disabled={disabled}
+                  aria-label={`Completar ${row.title}`}
+                  onChange={(e) => run(() => updateItem(items[index].id, { done: e.target.checked }))}
+                />
+              )}
+              <Input
+                // Remount when the item is renamed elsewhere so the input shows the saved title
+                key={row.title}
+                defaultValue={row.title}
+                disabled={disabled}
+                className="h-8 text-sm"
+                onBlur={(e) => handleRename(index, e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    e.currentTarget.blur();
+                  }
+                }}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 flex-shrink-0"
+                title="Subir"
+                disabled={disabled || index === 0}
+                onClick={() => handleMove(index, -1)}
+              >
+                <ArrowUp className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 flex-shrink-0"
+                title="Bajar"
+                disabled={disabled || index === rows.length - 1}
+                onClick={() => handleMove(index, 1)}
+              >
+                <ArrowDown className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 flex-shrink-0 text-destructive"
+                title="Eliminar elemento"
+                disabled={disabled}
+                onClick={() => handleDelete(index)}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          id="checklist"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds the item instead of submitting the form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={isFull ? `Máximo ${MAX_ITEMS} elementos` : 'Añadir un paso...'}
+          disabled={disabled || isFull}
+          className="h-8 text-sm"
+          autoComplete="off"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-8 flex-shrink-0"
+          disabled={disabled || isFull || !newTitle.trim()}
+          onClick={handleAdd}
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {blockId && rows.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {doneCount} de {rows.length} completados
+        </p>
+      )}
+    </div>
+  );
+}
@@ -2,18 +2,22 @@ import { AlertTriangle, Clock } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ConflictResult } from '@/lib/conflict-checker';
-import { format } from 'date-fns';
+import { formatTime } from '@/lib/utils';
 
 interface ConflictWarningProps {
   conflictResult: ConflictResult;
   onIgnore?: () => void;
   onSuggestTime?: (suggestion: string) => void;
+  timeZone?: string;
+  locale?: string;
 }
 
 export function ConflictWarning({ 
   conflictResult, 
   onIgnore, 
-  onSuggestTime 
+  onSuggestTime,
+  timeZone,
+  locale,
 }: ConflictWarningProps) {
   if (!conflictResult.hasConflict) {
     return null;
@@ -47,7 +51,7 @@ export function ConflictWarning({
                       {block.title}
                     </div>
                     <div className="text-xs text-yellow-600 dark:text-yellow-400">
-                      {format(new Date(block.startTime), 'HH:mm')} - {format(new Date(block.endTime), 'HH:mm')}
+                      {formatTime(new Date(block.startTime), timeZone, locale)} - {formatTime(new Date(block.endTime), timeZone, locale)}
                     </div>
                   </div>
                 </div>
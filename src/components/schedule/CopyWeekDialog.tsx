@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatDate, formatTime, getWeekStart } from '@/lib/utils';
+import { cn } from '@/lib/utils';
+import { DEFAULT_TIMEZONE, addZonedDays, fromZonedParts, getZonedParts } from '@/lib/timezone';
+import type { Category, CopyWeekConflictStrategy, CopyWeekData, CopyWeekResult, WeekDay } from '@/lib/types';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// Icons
+import { Copy, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface CopyWeekDialogProps {
+  isOpen: boolean;
+  sourceWeek: Date;
+  categories: Category[];
+  onCopy: (data: CopyWeekData) => Promise<CopyWeekResult>;
+  onClose: () => void;
+  onError: (message: string) => void;
+  timeZone?: string; // Zone of the weeks and days
+  locale?: string;
+  weekStartsOn?: WeekDay;
+}
+
+const DAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+const ALL_DAYS: WeekDay[] = [0, 1, 2, 3, 4, 5, 6];
+
+// Calendar date of a date input (yyyy-MM-dd)
+const parseDateValue = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return { year, month, day };
+};
+
+export function CopyWeekDialog({
+  isOpen,
+  sourceWeek,
+  categories,
+  onCopy,
+  onClose,
+  onError,
+  timeZone = DEFAULT_TIMEZONE,
+  locale,
+  weekStartsOn = 0,
+}: CopyWeekDialogProps) {
+  const [targetDate, setTargetDate] = useState('');
+  const [days, setDays] = useState<WeekDay[]>(ALL_DAYS);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [preview, setPreview] = useState<CopyWeekResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Default to copying everything into the next week every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      const { year, month, day } = getZonedParts(addZonedDays(getWeekStart(sourceWeek, timeZone, weekStartsOn), 7, timeZone), timeZone);
+      setTargetDate([year, month, day].map((value, i) => String(value).padStart(i === 0 ? 4 : 2, '0')).join('-'));
+      setDays(ALL_DAYS);
+      setCategoryIds(categories.map(category => category.id));
+      setPreview(null);
+    }
+  }, [isOpen, sourceWeek, categories, timeZone, weekStartsOn]);
+
+  // Day toggles in the order of the week
+  const orderedDays = ALL_DAYS.map(day => ((day + weekStartsOn) % 7) as WeekDay);
+
+  const getCopyData = (): CopyWeekData => ({
+    sourceWeek,
+    targetWeek: fromZonedParts(parseDateValue(targetDate), timeZone),
+    // Omitted filters copy everything
+    days: days.length === ALL_DAYS.length ? undefined : days,
+    categoryIds: categoryIds.length === categories.length ? undefined : categoryIds,
+  });
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
+
+  // Any change of the options invalidates the preview
+  const updateOptions = (update: () => void) => {
+    update();
+    setPreview(null);
+  };
+
+  const run = async (data: CopyWeekData) => {
+    setIsSubmitting(true);
+    try {
+      return await onCopy(data);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreview(await run({ ...getCopyData(), dryRun: true }));
+  };
+
+  const handleCopy = async (onConflict: CopyWeekConflictStrategy) => {
+    if (await run({ ...getCopyData(), onConflict })) {
+      onClose();
+    }
+  };
+
+  const canPreview = Boolean(targetDate) && days.length > 0 && categoryIds.length > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="w-5 h-5" />
+            Copiar semana
+          </DialogTitle>
+          <DialogDescription>
+            Copia los bloques de esta semana a otra. Los bloques recurrentes no se copian porque ya se repiten.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="copy-week-target">Semana de destino</Label>
+            <Input
+              id="copy-week-target"
+              type="date"
+              value={targetDate}
+              onChange={(e) => updateOptions(() => setTargetDate(e.target.value))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Días</Label>
+            <div className="flex flex-wrap gap-1">
+              {orderedDays.map(day => (
+                <Button
+                  key={day}
+                  type="button"
+                  size="sm"
+                  variant={days.includes(day) ? 'default' : 'outline'}
+                  className="h-8 px-2"
+                  onClick={() => updateOptions(() => setDays(prev => toggle(prev, day)))}
+                >
+                  {DAY_LABELS[day]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Categorías</Label>
+            <div className="flex flex-wrap gap-2">
+              {categories.map(category => (
+                <label key={category.id} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={categoryIds.includes(category.id)}
+                    onChange={() => updateOptions(() => setCategoryIds(prev => toggle(prev, category.id)))}
+                  />
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+                  {category.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {preview && (
+            <div className={cn(
+              'rounded-md border p-3 text-sm space-y-2',
+              preview.conflicts.length > 0 && 'border-yellow-300 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950'
+            )}>
+              <p>
+                {preview.total === 0
+                  ? 'No hay bloques que copiar con estos filtros.'
+                  : `Se copiarán ${preview.total} bloques.`}
+              </p>
+              {preview.conflicts.length > 0 && (
+                <>
+                  <p className="flex items-center gap-1 font-medium">
+                    <AlertTriangle className="w-4 h-4" />
+                    {preview.conflicts.length} se superponen con bloques de la semana de destino:
+                  </p>
+                  <ul className="max-h-[140px] overflow-y-auto space-y-1 text-xs">
+                    {preview.conflicts.map(conflict => (
+                      <li key={conflict.block.id}>
+                        <span className="font-medium">{conflict.block.title}</span>
+                        {' '}({formatDate(new Date(conflict.block.startTime), 'short', timeZone, locale)} {formatTime(new Date(conflict.block.startTime), timeZone, locale)})
+                        {' con '}{conflict.conflictingBlocks.map(block => block.title).join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          {!preview ? (
+            <Button type="button" onClick={handlePreview} disabled={!canPreview || isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Revisar
+            </Button>
+          ) : preview.conflicts.length > 0 ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => handleCopy('skip')} disabled={isSubmitting}>
+                Omitir conflictos
+              </Button>
+              <Button type="button" variant="destructive" onClick={() => handleCopy('overwrite')} disabled={isSubmitting}>
+                Sobrescribir
+              </Button>
+            </>
+          ) : (
+            <Button
+              type="button"
+              onClick={() => handleCopy('abort')}
+              disabled={preview.total === 0 || isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Copiar
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
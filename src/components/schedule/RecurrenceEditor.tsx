@@ -0,0 +1,230 @@
+'use client';
+
+import { useMemo } from 'react';
+import { RecurrenceRule, RecurrenceFrequency, WeekDay } from '@/lib/types';
+import { RecurrenceService, MAX_RECURRENCE_OCCURRENCES } from '@/lib/recurrence';
+import { DEFAULT_TIMEZONE, fromZonedParts, getZonedParts } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+
+// UI Components
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Icons
+import { Repeat } from 'lucide-react';
+
+interface RecurrenceEditorProps {
+  value?: string | null;
+  startTime: Date;
+  timeZone?: string; // Zone of the weekdays and the end date
+  locale?: string; // Locale of the end date in the summary
+  onChange: (rrule: string | null) => void;
+  error?: string;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+// Monday-first order for the weekday toggles
+const WEEKDAY_OPTIONS: { day: WeekDay; label: string; title: string }[] = [
+  { day: 1, label: 'L', title: 'Lunes' },
+  { day: 2, label: 'M', title: 'Martes' },
+  { day: 3, label: 'X', title: 'Miércoles' },
+  { day: 4, label: 'J', title: 'Jueves' },
+  { day: 5, label: 'V', title: 'Viernes' },
+  { day: 6, label: 'S', title: 'Sábado' },
+  { day: 0, label: 'D', title: 'Domingo' },
+];
+
+const formatDateValue = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export function RecurrenceEditor({
+  value,
+  startTime,
+  timeZone = DEFAULT_TIMEZONE,
+  locale,
+  onChange,
+  error,
+}: RecurrenceEditorProps) {
+  const startWeekday = getZonedParts(startTime, timeZone).weekday as WeekDay;
+
+  const rule = useMemo((): RecurrenceRule | null => {
+    if (!value || !RecurrenceService.isValid(value)) return null;
+    return RecurrenceService.parse(value, timeZone);
+  }, [value, timeZone]);
+
+  const endMode: EndMode = rule?.until ? 'until' : rule?.count ? 'count' : 'never';
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) return;
+    onChange(RecurrenceService.serialize({ ...rule, ...changes }));
+  };
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+
+    onChange(RecurrenceService.serialize({
+      frequency,
+      interval: rule?.interval ?? 1,
+      byWeekday: frequency === 'weekly' ? [startWeekday] : undefined,
+      until: rule?.until,
+      count: rule?.count,
+    }));
+  };
+
+  const toggleWeekday = (day: WeekDay) => {
+    if (!rule) return;
+
+    const current = rule.byWeekday ?? [startWeekday];
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+
+    // A weekly rule always keeps at least one day
+    if (next.length > 0) {
+      updateRule({ byWeekday: next });
+    }
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') {
+      updateRule({ until: undefined, count: undefined });
+    } else if (mode === 'until') {
+      const { year, month, day } = getZonedParts(startTime, timeZone);
+      const until = fromZonedParts({ year, month: month + 1, day, hour: 23, minute: 59, second: 59 }, timeZone);
+      updateRule({ until, count: undefined });
+    } else {
+      updateRule({ until: undefined, count: 10 });
+    }
+  };
+
+  const handleUntilChange = (dateValue: string) => {
+    const [year, month, day] = dateValue.split('-').map(Number);
+    if (!year || !month || !day) return;
+    updateRule({ until: fromZonedParts({ year, month, day, hour: 23, minute: 59, second: 59 }, timeZone) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center gap-1">
+        <Repeat className="w-4 h-4" />
+        Repetir
+      </Label>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          value={rule?.frequency ?? 'none'}
+          onValueChange={(frequency) => handleFrequencyChange(frequency as RecurrenceFrequency | 'none')}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No se repite</SelectItem>
+            <SelectItem value="daily">Diariamente</SelectItem>
+            <SelectItem value="weekly">Semanalmente</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {rule && (
+          <div className="flex items-center gap-2 text-sm">
+            <span>Cada</span>
+            <Input
+              type="number"
+              min={1}
+              max={52}
+              value={rule.interval}
+              onChange={(e) => updateRule({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-20"
+            />
+            <span>{rule.frequency === 'daily' ? 'día(s)' : 'semana(s)'}</span>
+          </div>
+        )}
+      </div>
+
+      {rule?.frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_OPTIONS.map(({ day, label, title }) => {
+            const isSelected = (rule.byWeekday ?? [startWeekday]).includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                title={title}
+                onClick={() => toggleWeekday(day)}
+                className={cn(
+                  'w-8 h-8 rounded-full text-xs font-medium border transition-colors',
+                  isSelected
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background text-muted-foreground hover:bg-muted'
+                )}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {rule && (
+        <div className="grid grid-cols-2 gap-4">
+          <Select value={endMode} onValueChange={(mode) => handleEndModeChange(mode as EndMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Sin fecha de fin</SelectItem>
+              <SelectItem value="until">Hasta una fecha</SelectItem>
+              <SelectItem value="count">Después de N veces</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {endMode === 'until' && rule.until && (
+            <Input
+              type="date"
+              value={formatDateValue(rule.until, timeZone)}
+              min={formatDateValue(startTime, timeZone)}
+              onChange={(e) => handleUntilChange(e.target.value)}
+            />
+          )}
+
+          {endMode === 'count' && (
+            <div className="flex items-center gap-2 text-sm">
+              <Input
+                type="number"
+                min={1}
+                max={MAX_RECURRENCE_OCCURRENCES}
+                value={rule.count ?? 1}
+                onChange={(e) => updateRule({
+                  count: Math.min(MAX_RECURRENCE_OCCURRENCES, Math.max(1, Number(e.target.value) || 1)),
+                })}
+                className="w-20"
+              />
+              <span>veces</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule && (
+        <p className="text-xs text-muted-foreground">
+          {RecurrenceService.describe(rule, locale, timeZone)}
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+    </div>
+  );
+}
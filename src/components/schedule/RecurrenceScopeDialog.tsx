@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RecurrenceScope } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+// Icons
+import { Repeat } from 'lucide-react';
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean;
+  action: 'edit' | 'delete';
+  // Editing the recurrence rule of a single occurrence is not possible
+  allowSingle?: boolean;
+  onConfirm: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+const SCOPE_OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: 'this', label: 'Solo este evento' },
+  { scope: 'following', label: 'Este y los siguientes eventos' },
+  { scope: 'all', label: 'Todos los eventos' },
+];
+
+export function RecurrenceScopeDialog({
+  isOpen,
+  action,
+  allowSingle = true,
+  onConfirm,
+  onCancel,
+}: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<RecurrenceScope>(allowSingle ? 'this' : 'following');
+
+  // Reset the selection every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setScope(allowSingle ? 'this' : 'following');
+    }
+  }, [isOpen, allowSingle]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            {action === 'edit' ? 'Editar evento recurrente' : 'Eliminar evento recurrente'}
+          </DialogTitle>
+          <DialogDescription>
+            Elige a qué eventos de la serie se aplica el cambio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {SCOPE_OPTIONS.map(option => {
+            const isDisabled = option.scope === 'this' && !allowSingle;
+            return (
+              <label
+                key={option.scope}
+                className={cn(
+                  'flex items-center gap-3 p-2 rounded-md border text-sm cursor-pointer transition-colors',
+                  scope === option.scope ? 'border-primary bg-primary/5' : 'hover:bg-muted/50',
+                  isDisabled && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                <input
+                  type="radio"
+                  name="recurrence-scope"
+                  value={option.scope}
+                  checked={scope === option.scope}
+                  disabled={isDisabled}
+                  onChange={() => setScope(option.scope)}
+                />
+                {option.label}
+              </label>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            variant={action === 'delete' ? 'destructive' : 'default'}
+            onClick={() => onConfirm(scope)}
+          >
+            {action === 'edit' ? 'Aceptar' : 'Eliminar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
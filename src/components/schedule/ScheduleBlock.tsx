@@ -1,28 +1,47 @@
 'use client';
 
 import { useState } from 'react';
-import { ScheduleBlock as ScheduleBlockType, GridPosition } from '@/lib/types';
+import { ScheduleBlock as ScheduleBlockType, GridPosition, BlockStatus } from '@/lib/types';
 import { formatTime, formatDuration, getDurationInMinutes, getContrastingTextColor } from '@/lib/utils';
 import { cn } from '@/lib/utils';
+import { RecurrenceService } from '@/lib/recurrence';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Edit, Trash2, Clock } from 'lucide-react';
+import { Edit, Trash2, Clock, Repeat, Circle, CircleCheck, CircleDot, CircleSlash, Play, ListChecks, MapPin, Video, Users } from 'lucide-react';
 
 interface ScheduleBlockProps {
   block: ScheduleBlockType;
   gridPosition: GridPosition;
-  onEdit: () => void;
-  onDelete: () => void;
+  onEdit?: () => void; // Omitted when the block is read-only
+  onDelete?: () => void;
+  onStatusChange?: (status: BlockStatus) => void;
+  onStartTimer?: () => void;
+  isTracking?: boolean;
   isDragging?: boolean;
+  timeZone?: string;
+  locale?: string;
   className?: string;
 }
 
+// Clicking the status control cycles through the statuses in this order
+const STATUS_OPTIONS: Record<BlockStatus, { label: string; icon: typeof Circle; next: BlockStatus }> = {
+  planned: { label: 'Planificado', icon: Circle, next: 'done' },
+  done: { label: 'Completado', icon: CircleCheck, next: 'partial' },
+  partial: { label: 'Parcialmente completado', icon: CircleDot, next: 'skipped' },
+  skipped: { label: 'Omitido', icon: CircleSlash, next: 'planned' },
+};
+
 export function ScheduleBlock({
   block,
   gridPosition,
   onEdit,
   onDelete,
+  onStatusChange,
+  onStartTimer,
+  isTracking = false,
   isDragging = false,
+  timeZone,
+  locale,
   className,
 }: ScheduleBlockProps) {
   const [isHovered, setIsHovered] = useState(false);
@@ -30,6 +49,10 @@ export function ScheduleBlock({
   const duration = getDurationInMinutes(block.startTime, block.endTime);
   const textColor = getContrastingTextColor(block.category.color);
   const isShortBlock = duration <= 60; // Less than or equal to 1 hour
+  const status = STATUS_OPTIONS[block.status] ?? STATUS_OPTIONS.planned;
+  const StatusIcon = status.icon;
+  const checklistItems = block.checklistItems ?? [];
+  const doneItems = checklistItems.filter(item => item.done).length;
   
   const blockStyle = {
     backgroundColor: block.category.color,
@@ -41,9 +64,12 @@ export function ScheduleBlock({
   return (
     <Card
       className={cn(
-        'relative overflow-hidden border-0 shadow-sm transition-all duration-200 cursor-pointer group',
+        'relative overflow-hidden border-0 shadow-sm transition-all duration-200 group',
+        onEdit && 'cursor-pointer',
         'hover:shadow-md hover:scale-[1.02] hover:z-10',
         isDragging && 'opacity-50 scale-95',
+        block.status === 'skipped' && 'opacity-60',
+        isTracking && 'ring-2 ring-offset-1 ring-red-500',
         isShortBlock ? 'min-h-[2rem]' : 'min-h-[3rem]',
         className
       )}
@@ -56,15 +82,38 @@ export function ScheduleBlock({
       <div className="p-2 h-full flex flex-col justify-between">
         {/* Header with title and time */}
         <div className="flex-1 min-h-0">
-          <h3 
-            className={cn(
-              'font-medium leading-tight truncate',
-              isShortBlock ? 'text-xs' : 'text-sm'
+          <div className="flex items-center gap-1">
+            {onStatusChange && (
+              <button
+                type="button"
+                className="flex-shrink-0 rounded-full opacity-80 hover:opacity-100"
+                title={`${status.label} (clic para cambiar)`}
+                aria-label={`Estado: ${status.label}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onStatusChange(status.next);
+                }}
+              >
+                <StatusIcon className="w-3 h-3" />
+              </button>
             )}
-            title={block.title}
-          >
-            {block.title}
-          </h3>
+            <h3 
+              className={cn(
+                'font-medium leading-tight truncate',
+                isShortBlock ? 'text-xs' : 'text-sm',
+                block.status === 'skipped' && 'line-through'
+              )}
+              title={block.title}
+            >
+              {block.title}
+            </h3>
+            {isTracking && (
+              <span
+                className="w-2 h-2 rounded-full bg-red-500 animate-pulse flex-shrink-0"
+                title="Temporizador en curso"
+              />
+            )}
+          </div>
           
           {/* Time display */}
           <div className={cn(
@@ -73,8 +122,22 @@ export function ScheduleBlock({
           )}>
             <Clock className="w-3 h-3 flex-shrink-0" />
             <span className="truncate">
-              {formatTime(block.startTime)} - {formatTime(block.endTime)}
+              {formatTime(block.startTime, timeZone, locale)} - {formatTime(block.endTime, timeZone, locale)}
             </span>
+            {block.recurrenceRule && (
+              <span title={RecurrenceService.describe(block.recurrenceRule, locale, block.timeZone ?? timeZone)}>
+                <Repeat className="w-3 h-3 flex-shrink-0" />
+              </span>
+            )}
+            {checklistItems.length > 0 && (
+              <span
+                className="flex items-center gap-0.5 flex-shrink-0 ml-auto"
+                title={`${doneItems} de ${checklistItems.length} elementos completados`}
+              >
+                <ListChecks className="w-3 h-3" />
+                {doneItems}/{checklistItems.length}
+              </span>
+            )}
           </div>
           
           {/* Duration for longer blocks */}
@@ -93,6 +156,54 @@ export function ScheduleBlock({
               {block.description}
             </p>
           )}
+
+          {/* Location, meeting link and attendees for longer blocks */}
+          {!isShortBlock && (block.location || block.meetingUrl || (block.attendees?.length ?? 0) > 0) && (
+            <div className="flex items-center gap-2 text-xs opacity-80 mt-1 min-w-0">
+              {block.location && (
+                <span className="flex items-center gap-0.5 min-w-0" title={block.location}>
+                  <MapPin className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate">{block.location}</span>
+                </span>
+              )}
+              {block.meetingUrl && (
+                <a
+                  href={block.meetingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-shrink-0 hover:opacity-100"
+                  title="Abrir el enlace de la reunión"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <Video className="w-3 h-3" />
+                </a>
+              )}
+              {block.attendees && block.attendees.length > 0 && (
+                <span
+                  className="flex items-center gap-0.5 flex-shrink-0"
+                  title={block.attendees.map(attendee => attendee.email).join(', ')}
+                >
+                  <Users className="w-3 h-3" />
+                  {block.attendees.length}
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Tags for longer blocks */}
+          {!isShortBlock && block.tags && block.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1 overflow-hidden max-h-10">
+              {block.tags.map(tag => (
+                <span
+                  key={tag.id}
+                  className="text-[10px] leading-none px-1.5 py-0.5 rounded-full border border-current opacity-80 truncate max-w-full"
+                  title={tag.name}
+                >
+                  #{tag.name}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Category indicator */}
@@ -109,34 +220,55 @@ export function ScheduleBlock({
           {/* Action buttons - only show on hover for larger blocks */}
           {isHovered && !isShortBlock && (
             <div className="flex gap-1">
-              <Button
-                size="sm"
-                variant="ghost"
-                className={cn(
-                  'h-6 w-6 p-0 opacity-80 hover:opacity-100',
-                  'hover:bg-black hover:bg-opacity-10'
-                )}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onEdit();
-                }}
-              >
-                <Edit className="w-3 h-3" />
-              </Button>
-              <Button
-                size="sm"
-                variant="ghost"
-                className={cn(
-                  'h-6 w-6 p-0 opacity-80 hover:opacity-100',
-                  'hover:bg-red-500 hover:bg-opacity-20'
-                )}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onDelete();
-                }}
-              >
-                <Trash2 className="w-3 h-3" />
-              </Button>
+              {onStartTimer && !isTracking && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className={cn(
+                    'h-6 w-6 p-0 opacity-80 hover:opacity-100',
+                    'hover:bg-black hover:bg-opacity-10'
+                  )}
+                  title="Iniciar temporizador"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onStartTimer();
+                  }}
+                >
+                  <Play className="w-3 h-3" />
+                </Button>
+              )}
+              {onEdit && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className={cn(
+                    'h-6 w-6 p-0 opacity-80 hover:opacity-100',
+                    'hover:bg-black hover:bg-opacity-10'
+                  )}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEdit();
+                  }}
+                >
+                  <Edit className="w-3 h-3" />
+                </Button>
+              )}
+              {onDelete && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className={cn(
+                    'h-6 w-6 p-0 opacity-80 hover:opacity-100',
+                    'hover:bg-red-500 hover:bg-opacity-20'
+                  )}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete();
+                  }}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -145,28 +277,56 @@ export function ScheduleBlock({
       {/* Hover overlay for short blocks */}
       {isHovered && isShortBlock && (
         <div className="absolute inset-0 bg-black bg-opacity-10 flex items-center justify-center gap-1">
-          <Button
-            size="sm"
-            variant="ghost"
-            className="h-5 w-5 p-0 hover:bg-black hover:bg-opacity-20"
-            onClick={(e) => {
-              e.stopPropagation();
-              onEdit();
-            }}
-          >
-            <Edit className="w-3 h-3" />
-          </Button>
-          <Button
-            size="sm"
-            variant="ghost"
-            className="h-5 w-5 p-0 hover:bg-red-500 hover:bg-opacity-30"
-            onClick={(e) => {
-              e.stopPropagation();
-              onDelete();
-            }}
-          >
-            <Trash2 className="w-3 h-3" />
-          </Button>
+          {onStartTimer && !isTracking && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-5 w-5 p-0 hover:bg-black hover:bg-opacity-20"
+              title="Iniciar temporizador"
+              onClick={(e) => {
+                e.stopPropagation();
+                onStartTimer();
+              }}
+            >
+              <Play className="w-3 h-3" />
+            </Button>
+          )}
+          {onEdit && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-5 w-5 p-0 hover:bg-black hover:bg-opacity-20"
+              onClick={(e) => {
+                e.stopPropagation();
+                onEdit();
+              }}
+            >
+              <Edit className="w-3 h-3" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-5 w-5 p-0 hover:bg-red-500 hover:bg-opacity-30"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete();
+              }}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Checklist progress */}
+      {checklistItems.length > 0 && (
+        <div className="absolute left-0 right-0 bottom-0 h-0.5 bg-black bg-opacity-10">
+          <div
+            className="h-full bg-current opacity-60"
+            style={{ width: `${(doneItems / checklistItems.length) * 100}%` }}
+          />
         </div>
       )}
 
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+
+interface TagInputProps {
+  value: string[];
+  suggestions: string[]; // Tags already used in the workspace
+  onChange: (tags: string[]) => void;
+  maxTags?: number;
+  error?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export function TagInput({ value, suggestions, onChange, maxTags = 10, error }: TagInputProps) {
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const matches = suggestions
+    .filter(tag => !value.includes(tag) && tag.toLowerCase().includes(normalizedQuery))
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= maxTags;
+
+  const addTag = (tag: string) => {
+    const name = tag.trim().slice(0, 30);
+    if (name && !value.includes(name) && !isFull) {
+      onChange([...value, name]);
+    }
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Enter and comma confirm the tag; Backspace on an empty input removes the last one
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(query);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <span
+              key={tag}
+              className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-muted"
+            >
+              #{tag}
+              <button
+                type="button"
+                className="opacity-60 hover:opacity-100"
+                aria-label={`Quitar etiqueta ${tag}`}
+                onClick={() => onChange(value.filter(existing => existing !== tag))}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <Input
+        id="tags"
+        value={query}
+        onChange={(e) => setQuery(e.target.value.replace(',', ''))}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => {
+          setIsFocused(false);
+          // Text left in the input still counts as a tag
+          if (query.trim()) {
+            addTag(query);
+          }
+        }}
+        placeholder={isFull ? `Máximo ${maxTags} etiquetas` : 'Ej: urgente, remoto...'}
+        disabled={isFull}
+        className={cn(error && 'border-red-500')}
+        autoComplete="off"
+      />
+
+      {isFocused && matches.length > 0 && (
+        <ul className="absolute z-20 w-full rounded-md border bg-popover text-popover-foreground shadow-md py-1">
+          {matches.map(tag => (
+            <li key={tag}>
+              <button
+                type="button"
+                className="w-full text-left text-sm px-3 py-1.5 hover:bg-muted"
+                // Keep the focus in the input so the list stays open
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+    </div>
+  );
+}
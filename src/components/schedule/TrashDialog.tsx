@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { useTrash } from '@/hooks/useTrash';
+import { formatDate, formatTime } from '@/lib/utils';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+// Icons
+import { Trash2, RotateCcw, Loader2, Repeat } from 'lucide-react';
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  canEdit: boolean;
+  onClose: () => void;
+  onChange: () => void; // Called after a restore so the week is reloaded
+  onError: (message: string) => void;
+  timeZone?: string;
+  locale?: string;
+}
+
+export function TrashDialog({ isOpen, canEdit, onClose, onChange, onError, timeZone, locale }: TrashDialogProps) {
+  const { trash, isLoading, error, restoreBlock, restoreCategory, purgeBlock, purgeCategory, emptyTrash } =
+    useTrash({ enabled: isOpen });
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const isEmpty = trash.blocks.length === 0 && trash.categories.length === 0;
+
+  // Days left before a trashed item is purged automatically
+  const getDaysLeft = (deletedAt: Date | null | undefined) =>
+    deletedAt
+      ? Math.max(0, differenceInCalendarDays(addDays(new Date(deletedAt), trash.retentionDays), new Date()))
+      : trash.retentionDays;
+
+  const runAction = async (id: string, action: () => Promise<void>, reload: boolean) => {
+    setPendingId(id);
+    try {
+      await action();
+      if (reload) {
+        onChange();
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const renderActions = (id: string, onRestore: () => Promise<void>, onPurge: () => Promise<void>) => (
+    canEdit && (
+      <div className="flex gap-1 flex-shrink-0">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          title="Restaurar"
+          disabled={pendingId === id}
+          onClick={() => runAction(id, onRestore, true)}
+        >
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 text-destructive"
+          title="Eliminar definitivamente"
+          disabled={pendingId === id}
+          onClick={() => runAction(id, onPurge, false)}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    )
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="w-5 h-5" />
+            Papelera
+          </DialogTitle>
+          <DialogDescription>
+            Los elementos se eliminan definitivamente tras {trash.retentionDays || '...'} días en la papelera.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : isEmpty ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">La papelera está vacía</p>
+        ) : (
+          <div className="max-h-[50vh] overflow-y-auto space-y-4">
+            {trash.blocks.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="text-sm font-medium">Bloques</h4>
+                {trash.blocks.map(block => (
+                  <div key={block.id} className="flex items-center gap-3 text-sm">
+                    <div
+                      className="w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: block.category.color }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate font-medium flex items-center gap-1">
+                        {block.title}
+                        {block.recurrenceRule && <Repeat className="w-3 h-3 flex-shrink-0" />}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(new Date(block.startTime), 'short', timeZone, locale)} · {formatTime(new Date(block.startTime), timeZone, locale)} - {formatTime(new Date(block.endTime), timeZone, locale)}
+                        {' · '}se elimina en {getDaysLeft(block.deletedAt)} días
+                      </p>
+                    </div>
+                    {renderActions(block.id, () => restoreBlock(block.id), () => purgeBlock(block.id))}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {trash.categories.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="text-sm font-medium">Categorías</h4>
+                {trash.categories.map(category => (
+                  <div key={category.id} className="flex items-center gap-3 text-sm">
+                    <div
+                      className="w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: category.color }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate font-medium">{category.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Se elimina en {getDaysLeft(category.deletedAt)} días
+                      </p>
+                    </div>
+                    {renderActions(category.id, () => restoreCategory(category.id), () => purgeCategory(category.id))}
+                  </div>
+                ))}
+              </section>
+            )}
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+
+        <DialogFooter>
+          {canEdit && !isEmpty && (
+            <Button
+              variant="destructive"
+              onClick={() => runAction('all', emptyTrash, false)}
+              disabled={pendingId === 'all'}
+            >
+              Vaciar papelera
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
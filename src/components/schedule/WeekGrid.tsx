@@ -1,8 +1,25 @@
 'use client';
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { ScheduleBlock as ScheduleBlockType, TimeSlot, GridPosition } from '@/lib/types';
-import { cn, formatTime, calculateGridPosition, getOverlappingBlocks } from '@/lib/utils';
+import { ScheduleBlock as ScheduleBlockType, TimeSlot, GridPosition, BlockStatus, TimeEntry, SlotMinutes, WorkingHoursRange } from '@/lib/types';
+import {
+  cn,
+  formatTime,
+  calculateGridSegments,
+  calculateAllDayPosition,
+  calculateTimeEntryPosition,
+  getBlockKey,
+  getContrastingTextColor,
+  isAllDayLaneBlock,
+  generateTimeSlots,
+  getSlotsPerDay,
+  getTimeSlotRow,
+  DEFAULT_SLOT_MINUTES,
+  DEFAULT_WORKING_HOURS,
+  DEFAULT_LOCALE,
+  isWorkingTime,
+} from '@/lib/utils';
+import { DEFAULT_TIMEZONE, addZonedDays, getZonedParts, isSameZonedDay } from '@/lib/timezone';
 import { Card } from '@/components/ui/card';
 import { ScheduleBlock } from './ScheduleBlock';
 
@@ -11,7 +28,15 @@ interface WeekGridProps {
   blocks: ScheduleBlockType[];
   onBlockCreate: (timeSlot: TimeSlot) => void;
   onBlockEdit: (block: ScheduleBlockType) => void;
-  onBlockDelete: (blockId: string) => void;
+  onBlockDelete: (block: ScheduleBlockType) => void;
+  onBlockStatusChange?: (block: ScheduleBlockType, status: BlockStatus) => void;
+  onBlockStartTimer?: (block: ScheduleBlockType) => void;
+  timeEntries?: TimeEntry[]; // Actual time, drawn over the planned blocks
+  readOnly?: boolean; // Viewers of a shared workspace can't create, edit or move blocks
+  timeZone?: string; // Days and times of day are shown in this zone
+  slotMinutes?: SlotMinutes; // Size of the rows of the grid
+  workingHours?: WorkingHoursRange[]; // Time outside of them is shaded
+  locale?: string; // Locale of the day names and times
   isLoading?: boolean;
   className?: string;
 }
@@ -22,6 +47,14 @@ export function WeekGrid({
   onBlockCreate,
   onBlockEdit,
   onBlockDelete,
+  onBlockStatusChange,
+  onBlockStartTimer,
+  timeEntries = [],
+  readOnly = false,
+  timeZone = DEFAULT_TIMEZONE,
+  slotMinutes = DEFAULT_SLOT_MINUTES,
+  workingHours = DEFAULT_WORKING_HOURS,
+  locale = DEFAULT_LOCALE,
   isLoading = false,
   className,
 }: WeekGridProps) {
@@ -34,62 +67,56 @@ export function WeekGrid({
     setIsHydrated(true);
   }, []);
 
-  // Generate time slots for the grid (24 hours * 2 slots per hour = 48 slots)
+  // Generate time slots for the grid (one row per slot of a day, 48 with 30-minute slots)
   const timeSlots = useMemo(() => {
-    const slots: { hour: number; minute: number; label: string }[] = [];
-    for (let hour = 0; hour < 24; hour++) {
-      for (const minute of [0, 30]) {
-        const date = new Date();
-        date.setHours(hour, minute, 0, 0);
-        slots.push({
-          hour,
-          minute,
-          label: formatTime(date),
-        });
-      }
-    }
-    return slots;
-  }, []);
+    return generateTimeSlots(slotMinutes)
+      .filter(slot => slot.day === 0)
+      .map(({ hour, minute }) => ({
+        hour,
+        minute,
+        label: `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`,
+      }));
+  }, [slotMinutes]);
 
   // Generate week days
   const weekDays = useMemo(() => {
     const days: Date[] = [];
     for (let i = 0; i < 7; i++) {
-      const day = new Date(weekStart);
-      day.setDate(weekStart.getDate() + i);
-      days.push(day);
+      days.push(addZonedDays(weekStart, i, timeZone));
     }
     return days;
-  }, [weekStart]);
+  }, [weekStart, timeZone]);
 
   // Format day headers
   const formatDayHeader = useCallback((date: Date) => {
-    const today = new Date();
-    const isToday = date.toDateString() === today.toDateString();
+    const isToday = isSameZonedDay(date, new Date(), timeZone);
     
-    const dayName = new Intl.DateTimeFormat('es-MX', { 
-      weekday: 'short' 
+    const dayName = new Intl.DateTimeFormat(locale, { 
+      weekday: 'short',
+      timeZone,
     }).format(date);
     
-    const dayNumber = date.getDate();
+    const dayNumber = getZonedParts(date, timeZone).day;
     
     return {
       dayName: dayName.charAt(0).toUpperCase() + dayName.slice(1),
       dayNumber,
       isToday,
     };
-  }, []);
+  }, [timeZone, locale]);
 
   // Handle empty slot click
   const handleSlotClick = useCallback((day: number, hour: number, minute: number) => {
+    if (readOnly) return;
     const timeSlot: TimeSlot = { day, hour, minute };
     onBlockCreate(timeSlot);
-  }, [onBlockCreate]);
+  }, [onBlockCreate, readOnly]);
 
   // Handle slot hover
   const handleSlotHover = useCallback((day: number, hour: number, minute: number) => {
+    if (readOnly) return;
     setHoveredSlot({ day, hour, minute });
-  }, []);
+  }, [readOnly]);
 
   // Clear hover
   const handleSlotLeave = useCallback(() => {
@@ -103,30 +130,104 @@ export function WeekGrid({
            hoveredSlot?.minute === minute;
   }, [hoveredSlot]);
 
-  // Check if it's a business hour (8 AM to 6 PM)
-  const isBusinessHour = useCallback((hour: number) => {
-    return hour >= 8 && hour < 18;
-  }, []);
+  // Weekday (0 = Sunday) of each column, for its working hours
+  const columnWeekdays = useMemo(() => {
+    return weekDays.map(day => getZonedParts(day, timeZone).weekday);
+  }, [weekDays, timeZone]);
 
-  // Check if it's a major hour (on the hour, not 30 minutes)
+  // Check if a slot of a day is within its working hours
+  const isWorkingSlot = useCallback((dayIndex: number, hour: number, minute: number) => {
+    return isWorkingTime(workingHours, columnWeekdays[dayIndex], hour * 60 + minute);
+  }, [workingHours, columnWeekdays]);
+
+  // Check if it's a business hour (working time on any day of the week)
+  const isBusinessHour = useCallback((hour: number, minute: number) => {
+    return columnWeekdays.some((_, dayIndex) => isWorkingSlot(dayIndex, hour, minute));
+  }, [columnWeekdays, isWorkingSlot]);
+
+  // Check if it's a major hour (on the hour, not within it)
   const isMajorHour = useCallback((minute: number) => {
     return minute === 0;
   }, []);
 
-  // Calculate block positions and handle overlapping
+  // Calculate block positions; blocks crossing midnight get one part per day. Overlapping blocks
+  // of a day are laid out side by side: each group of blocks that overlap one another (directly
+  // or through others) shares the width of the day in as many lanes as it needs
   const blockPositions = useMemo(() => {
-    return blocks.map(block => {
-      const position = calculateGridPosition(block, weekStart);
-      const overlapping = getOverlappingBlocks(block, blocks);
-      
-      return {
-        block,
-        position,
-        overlapping: overlapping.length > 0,
-        overlapCount: overlapping.length,
-      };
+    const segments = blocks
+      .filter(block => !isAllDayLaneBlock(block))
+      .flatMap(block => calculateGridSegments(block, weekStart, timeZone, slotMinutes).map(position => ({ block, position })))
+      .sort((a, b) =>
+        a.position.column - b.position.column || a.position.row - b.position.row || b.position.span - a.position.span
+      );
+
+    const laidOut: { block: ScheduleBlockType; position: GridPosition; lane: number; laneCount: number }[] = [];
+    let group: typeof laidOut = [];
+    let laneEnds: number[] = []; // Row after the last block of each lane of the group
+    let groupEnd = 0;
+
+    const closeGroup = () => {
+      group.forEach(item => laidOut.push({ ...item, laneCount: laneEnds.length }));
+      group = [];
+      laneEnds = [];
+      groupEnd = 0;
+    };
+
+    for (const { block, position } of segments) {
+      if (group.length > 0 && (position.column !== group[0].position.column || position.row >= groupEnd)) {
+        closeGroup();
+      }
+
+      let lane = laneEnds.findIndex(end => end <= position.row);
+      if (lane === -1) {
+        lane = laneEnds.length;
+      }
+      laneEnds[lane] = position.row + position.span;
+      groupEnd = Math.max(groupEnd, position.row + position.span);
+      group.push({ block, position, lane, laneCount: 0 });
+    }
+    closeGroup();
+
+    return laidOut;
+  }, [blocks, weekStart, timeZone, slotMinutes]);
+
+  // All-day and multi-day events, stacked in rows so that events on the same days don't cover each other
+  const allDayPositions = useMemo(() => {
+    const rowEnds: number[] = []; // Last column used in each row
+    return blocks
+      .filter(isAllDayLaneBlock)
+      .flatMap(block => {
+        const position = calculateAllDayPosition(block, weekStart, timeZone);
+        return position ? [{ block, ...position }] : [];
+      })
+      .sort((a, b) => a.column - b.column || b.span - a.span)
+      .map(position => {
+        let row = rowEnds.findIndex(end => end < position.column);
+        if (row === -1) {
+          row = rowEnds.length;
+        }
+        rowEnds[row] = position.column + position.span - 1;
+        return { ...position, row: row + 1 };
+      });
+  }, [blocks, weekStart, timeZone]);
+  const allDayRowCount = Math.max(1, ...allDayPositions.map(position => position.row));
+
+  // Actual time entries (plan vs actual overlay)
+  const entryPositions = useMemo(() => {
+    return timeEntries.flatMap(entry => {
+      const position = calculateTimeEntryPosition(entry, weekStart, timeZone, slotMinutes);
+      return position ? [{ entry, position }] : [];
     });
-  }, [blocks, weekStart]);
+  }, [timeEntries, weekStart, timeZone, slotMinutes]);
+
+  const activeEntry = timeEntries.find(entry => !entry.endTime);
+
+  // Whether the running timer was started for this block (or occurrence)
+  const isBlockTracking = useCallback((block: ScheduleBlockType) => {
+    if (!activeEntry || activeEntry.blockId !== block.id) return false;
+    if (!block.originalStartTime || !activeEntry.occurrenceStartTime) return true;
+    return new Date(activeEntry.occurrenceStartTime).getTime() === new Date(block.originalStartTime).getTime();
+  }, [activeEntry]);
 
   // Handle block edit
   const handleBlockEdit = useCallback((block: ScheduleBlockType) => {
@@ -134,8 +235,8 @@ export function WeekGrid({
   }, [onBlockEdit]);
 
   // Handle block delete
-  const handleBlockDelete = useCallback((blockId: string) => {
-    onBlockDelete(blockId);
+  const handleBlockDelete = useCallback((block: ScheduleBlockType) => {
+    onBlockDelete(block);
   }, [onBlockDelete]);
 
   // Basic drag and drop handlers
@@ -150,14 +251,14 @@ export function WeekGrid({
   // Check if a slot has a block occupying it
   const getBlockAtSlot = useCallback((day: number, hour: number, minute: number) => {
     return blockPositions.find(({ position }) => {
-      const slotRow = (hour * 2) + (minute === 30 ? 1 : 0) + 1;
+      const slotRow = getTimeSlotRow({ hour, minute }, slotMinutes);
       const slotColumn = day + 1;
       
       return position.column === slotColumn && 
              slotRow >= position.row && 
              slotRow < position.row + position.span;
     });
-  }, [blockPositions]);
+  }, [blockPositions, slotMinutes]);
 
   // Prevent hydration mismatch by not rendering until hydrated
   if (!isHydrated) {
@@ -184,11 +285,51 @@ export function WeekGrid({
 
         {/* Grid container */}
         <div className="overflow-auto max-h-[80vh]">
+          {/* All-day lane */}
+          {allDayPositions.length > 0 && (
+            <div
+              className="grid min-w-[800px] border-b-2 bg-muted/20"
+              style={{
+                gridTemplateColumns: '80px repeat(7, 1fr)',
+                gridTemplateRows: `repeat(${allDayRowCount}, auto)`,
+              }}
+            >
+              <div
+                className="border-r px-2 py-1 text-right text-xs text-muted-foreground font-medium"
+                style={{ gridColumn: 1, gridRow: `1 / span ${allDayRowCount}` }}
+              >
+                Todo el día
+              </div>
+              {allDayPositions.map(({ block, column, span, row }) => (
+                <button
+                  key={getBlockKey(block)}
+                  type="button"
+                  className={cn(
+                    'm-0.5 px-2 py-0.5 rounded text-xs font-medium text-left truncate shadow-sm',
+                    readOnly ? 'cursor-default' : 'hover:shadow-md',
+                    block.status === 'skipped' && 'opacity-60 line-through'
+                  )}
+                  style={{
+                    gridColumn: `${column + 1} / span ${span}`,
+                    gridRow: row,
+                    backgroundColor: block.category.color,
+                    color: getContrastingTextColor(block.category.color),
+                  }}
+                  title={block.allDay ? block.title : `${block.title} (${formatTime(new Date(block.startTime), timeZone, locale)} - ${formatTime(new Date(block.endTime), timeZone, locale)})`}
+                  disabled={readOnly}
+                  onClick={() => handleBlockEdit(block)}
+                >
+                  {block.title}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div 
             className="grid min-w-[800px] relative"
             style={{
               gridTemplateColumns: '80px repeat(7, 1fr)',
-              gridTemplateRows: 'auto repeat(48, 1fr)',
+              gridTemplateRows: `auto repeat(${getSlotsPerDay(slotMinutes)}, 1fr)`,
             }}
           >
             {/* Empty corner cell */}
@@ -234,14 +375,14 @@ export function WeekGrid({
                     'sticky left-0 z-10 bg-background border-b border-r px-2 py-1 text-right',
                     'flex items-center justify-end',
                     isMajorHour(slot.minute) ? 'border-b-2' : 'border-b',
-                    !isBusinessHour(slot.hour) && 'bg-muted/30'
+                    !isBusinessHour(slot.hour, slot.minute) && 'bg-muted/30'
                   )}
                   style={{ minHeight: '3rem' }}
                 >
                   {isMajorHour(slot.minute) && (
                     <span className={cn(
                       'text-xs font-medium',
-                      isBusinessHour(slot.hour) 
+                      isBusinessHour(slot.hour, slot.minute) 
                         ? 'text-foreground' 
                         : 'text-muted-foreground'
                     )}>
@@ -259,10 +400,10 @@ export function WeekGrid({
                     <div
                       key={`${slotIndex}-${dayIndex}`}
                       className={cn(
-                        'border-b border-r cursor-pointer transition-colors relative',
-                        'hover:bg-blue-50 dark:hover:bg-blue-950/30',
+                        'border-b border-r transition-colors relative',
+                        !readOnly && 'cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-950/30',
                         isMajorHour(slot.minute) ? 'border-b-2' : 'border-b',
-                        !isBusinessHour(slot.hour) && 'bg-muted/10',
+                        !isWorkingSlot(dayIndex, slot.hour, slot.minute) && 'bg-muted/30',
                         isTodayColumn && 'bg-blue-50/30 dark:bg-blue-950/20',
                         isHovered && 'bg-blue-100 dark:bg-blue-900/50',
                       )}
@@ -288,37 +429,57 @@ export function WeekGrid({
             ))}
 
             {/* Render schedule blocks */}
-            {blockPositions.map(({ block, position, overlapping }) => (
+            {blockPositions.map(({ block, position, lane, laneCount }) => (
               <div
-                key={block.id}
-                className="relative z-30"
+                key={`${getBlockKey(block)}:${position.column}`}
+                className="relative z-30 justify-self-start"
                 style={{
                   gridColumn: position.column,
                   gridRow: `${position.row} / span ${position.span}`,
-                  margin: overlapping ? '2px' : '1px',
+                  // Percentages of the day column, split into the lanes of the group
+                  width: `calc(${100 / laneCount}% - 2px)`,
+                  margin: `1px 1px 1px calc(${(lane * 100) / laneCount}% + 1px)`,
                 }}
-                draggable
+                draggable={!readOnly}
                 onDragStart={() => handleDragStart(block)}
                 onDragEnd={handleDragEnd}
               >
                 <ScheduleBlock
                   block={block}
                   gridPosition={position}
-                  onEdit={() => handleBlockEdit(block)}
-                  onDelete={() => handleBlockDelete(block.id)}
-                  isDragging={draggedBlock?.id === block.id}
+                  onEdit={readOnly ? undefined : () => handleBlockEdit(block)}
+                  onDelete={readOnly ? undefined : () => handleBlockDelete(block)}
+                  onStatusChange={onBlockStatusChange && ((status) => onBlockStatusChange(block, status))}
+                  onStartTimer={onBlockStartTimer && (() => onBlockStartTimer(block))}
+                  isTracking={isBlockTracking(block)}
+                  timeZone={timeZone}
+                  locale={locale}
+                  isDragging={draggedBlock !== null && getBlockKey(draggedBlock) === getBlockKey(block)}
+                  className="h-full"
+                />
+              </div>
+            ))}
+
+            {/* Render actual time entries (plan vs actual) */}
+            {entryPositions.map(({ entry, position }) => (
+              <div
+                key={entry.id}
+                className="relative z-40 justify-self-end pointer-events-none"
+                style={{
+                  gridColumn: position.column,
+                  gridRow: `${position.row} / span ${position.span}`,
+                }}
+              >
+                <div
                   className={cn(
-                    'h-full',
-                    overlapping && 'ring-2 ring-yellow-400 ring-opacity-50'
+                    'h-full w-1.5 rounded-full pointer-events-auto opacity-90 border border-white/70',
+                    !entry.endTime && 'animate-pulse'
                   )}
+                  style={{ backgroundColor: entry.category?.color ?? '#6B7280' }}
+                  title={`Tiempo real: ${formatTime(new Date(entry.startTime), timeZone, locale)} - ${
+                    entry.endTime ? formatTime(new Date(entry.endTime), timeZone, locale) : 'en curso'
+                  }`}
                 />
-                
-                {/* Overlap indicator */}
-                {overlapping && (
-                  <div className="absolute -top-1 -right-1 bg-yellow-400 text-yellow-900 text-xs rounded-full w-5 h-5 flex items-center justify-center font-bold z-40">
-                    !
-                  </div>
-                )}
               </div>
             ))}
           </div>
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { WeekInfo } from '@/lib/types';
+import { WeekInfo, WeekDay } from '@/lib/types';
 import { formatDate, isSameWeek } from '@/lib/utils';
 import { cn } from '@/lib/utils';
+import { DEFAULT_TIMEZONE, getZonedParts, isSameZonedDay } from '@/lib/timezone';
 
 // UI Components
 import { Button } from '@/components/ui/button';
@@ -15,7 +16,9 @@ import {
   ChevronRight, 
   Calendar, 
   Home,
-  CalendarDays
+  CalendarDays,
+  Copy,
+  LayoutTemplate
 } from 'lucide-react';
 
 interface WeekNavigationProps {
@@ -23,6 +26,11 @@ interface WeekNavigationProps {
   weekInfo: WeekInfo;
   onNavigateWeek: (direction: 'prev' | 'next') => void;
   onGoToCurrentWeek: () => void;
+  onCopyWeek?: () => void; // Shown only when the user can edit
+  onOpenTemplates?: () => void; // Shown only when the user can edit
+  timeZone?: string;
+  weekStartsOn?: WeekDay;
+  locale?: string;
   className?: string;
 }
 
@@ -31,11 +39,16 @@ export function WeekNavigation({
   weekInfo,
   onNavigateWeek,
   onGoToCurrentWeek,
+  onCopyWeek,
+  onOpenTemplates,
+  timeZone = DEFAULT_TIMEZONE,
+  weekStartsOn = 0,
+  locale,
   className,
 }: WeekNavigationProps) {
   const [isAnimating, setIsAnimating] = useState(false);
   
-  const isCurrentWeek = isSameWeek(currentWeek, new Date());
+  const isCurrentWeek = isSameWeek(currentWeek, new Date(), timeZone, weekStartsOn);
   
   // Handle navigation with animation
   const handleNavigation = async (direction: 'prev' | 'next') => {
@@ -50,15 +63,17 @@ export function WeekNavigation({
 
   // Format week range for display
   const formatWeekRange = (): string => {
-    const startDate = formatDate(weekInfo.start, 'short');
-    const endDate = formatDate(weekInfo.end, 'short');
+    const startDate = formatDate(weekInfo.start, 'short', timeZone, locale);
+    const endDate = formatDate(weekInfo.end, 'short', timeZone, locale);
+    const startParts = getZonedParts(weekInfo.start, timeZone);
+    const endParts = getZonedParts(weekInfo.end, timeZone);
     
     // If same month, show "Jan 1 - 7, 2024"
-    if (weekInfo.start.getMonth() === weekInfo.end.getMonth()) {
-      const month = formatDate(weekInfo.start, 'short').split(' ')[0];
-      const startDay = weekInfo.start.getDate();
-      const endDay = weekInfo.end.getDate();
-      const year = weekInfo.start.getFullYear();
+    if (startParts.month === endParts.month) {
+      const month = startDate.split(' ')[0];
+      const startDay = startParts.day;
+      const endDay = endParts.day;
+      const year = startParts.year;
       
       return `${month} ${startDay} - ${endDay}, ${year}`;
     }
@@ -144,27 +159,51 @@ export function WeekNavigation({
           </Button>
         </div>
 
-        {/* Current Week Button */}
-        {!isCurrentWeek && (
-          <div className="flex justify-center mt-4">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onGoToCurrentWeek}
-              className="flex items-center gap-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:text-blue-400 dark:hover:text-blue-300 dark:hover:bg-blue-950"
-            >
-              <Home className="w-4 h-4" />
-              Ir a semana actual
-            </Button>
+        {/* Current Week, Copy and Template Buttons */}
+        {(!isCurrentWeek || onCopyWeek || onOpenTemplates) && (
+          <div className="flex justify-center gap-2 mt-4">
+            {!isCurrentWeek && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onGoToCurrentWeek}
+                className="flex items-center gap-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 dark:text-blue-400 dark:hover:text-blue-300 dark:hover:bg-blue-950"
+              >
+                <Home className="w-4 h-4" />
+                Ir a semana actual
+              </Button>
+            )}
+            {onCopyWeek && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onCopyWeek}
+                className="flex items-center gap-2"
+              >
+                <Copy className="w-4 h-4" />
+                Copiar semana a...
+              </Button>
+            )}
+            {onOpenTemplates && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenTemplates}
+                className="flex items-center gap-2"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+                Plantillas
+              </Button>
+            )}
           </div>
         )}
 
         {/* Week Days Preview */}
         <div className="grid grid-cols-7 gap-1 mt-4">
           {weekInfo.days.map((day, index) => {
-            const isToday = isSameWeek(day, new Date()) && 
-                           day.toDateString() === new Date().toDateString();
+            const isToday = isSameZonedDay(day, new Date(), timeZone);
             const dayNames = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+            const { day: dayNumber, weekday } = getZonedParts(day, timeZone);
             
             return (
               <div
@@ -176,8 +215,8 @@ export function WeekNavigation({
                     : 'text-muted-foreground hover:bg-muted'
                 )}
               >
-                <div className="font-medium">{dayNames[index]}</div>
-                <div className="text-xs mt-1">{day.getDate()}</div>
+                <div className="font-medium">{dayNames[weekday]}</div>
+                <div className="text-xs mt-1">{dayNumber}</div>
               </div>
             );
           })}
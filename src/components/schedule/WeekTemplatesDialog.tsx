@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useWeekTemplates } from '@/hooks/useWeekTemplates';
+import { formatDate, formatTime } from '@/lib/utils';
+import { cn } from '@/lib/utils';
+import type { ApplyWeekTemplateData, CopyWeekConflictStrategy, CopyWeekResult } from '@/lib/types';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// Icons
+import { LayoutTemplate, AlertTriangle, Loader2, Save, Trash2 } from 'lucide-react';
+
+interface WeekTemplatesDialogProps {
+  isOpen: boolean;
+  week: Date; // Week shown in the grid: saved as a template and target of apply
+  onApply: (templateId: string, data: ApplyWeekTemplateData) => Promise<CopyWeekResult>;
+  onClose: () => void;
+  onError: (message: string) => void;
+  timeZone?: string;
+  locale?: string;
+}
+
+export function WeekTemplatesDialog({ isOpen, week, onApply, onClose, onError, timeZone, locale }: WeekTemplatesDialogProps) {
+  const { templates, isLoading, error, createTemplate, deleteTemplate } = useWeekTemplates({ enabled: isOpen });
+  const [name, setName] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<CopyWeekResult | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  // Start clean every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setSelectedId(null);
+      setPreview(null);
+    }
+  }, [isOpen]);
+
+  const selectedTemplate = templates.find(template => template.id === selectedId);
+
+  const run = async <T,>(id: string, action: () => Promise<T>): Promise<T | null> => {
+    setPendingId(id);
+    try {
+      return await action();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Ha ocurrido un error inesperado');
+      return null;
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await run('save', () => createTemplate({ name: name.trim(), sourceWeek: week }))) {
+      setName('');
+    }
+  };
+
+  // Applying starts with a dry run so conflicts can be reviewed first
+  const handlePreview = async (templateId: string) => {
+    setSelectedId(templateId);
+    setPreview(await run(templateId, () => onApply(templateId, { week, dryRun: true })));
+  };
+
+  const handleApply = async (onConflict: CopyWeekConflictStrategy) => {
+    if (selectedId && await run(selectedId, () => onApply(selectedId, { week, onConflict }))) {
+      onClose();
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    await run(templateId, () => deleteTemplate(templateId));
+    if (templateId === selectedId) {
+      setSelectedId(null);
+      setPreview(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            Plantillas de semana
+          </DialogTitle>
+          <DialogDescription>
+            Guarda la semana actual como plantilla o aplica una plantilla a esta semana. Los bloques recurrentes no se guardan porque ya se repiten.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="week-template-name">Guardar semana actual como plantilla</Label>
+            <div className="flex gap-2">
+              <Input
+                id="week-template-name"
+                placeholder="Nombre de la plantilla"
+                maxLength={50}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={!name.trim() || pendingId === 'save'}
+                className="flex-shrink-0"
+              >
+                {pendingId === 'save' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Guardar
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Aún no hay plantillas</p>
+          ) : (
+            <div className="max-h-[30vh] overflow-y-auto space-y-2">
+              {templates.map(template => (
+                <div
+                  key={template.id}
+                  className={cn(
+                    'flex items-center gap-3 p-2 rounded-md border text-sm',
+                    template.id === selectedId && 'border-primary bg-primary/5'
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate font-medium">{template.name}</p>
+                    <p className="text-xs text-muted-foreground">{template.blocks.length} bloques</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={pendingId === template.id}
+                    onClick={() => handlePreview(template.id)}
+                  >
+                    Aplicar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-destructive"
+                    title="Eliminar plantilla"
+                    disabled={pendingId === template.id}
+                    onClick={() => handleDelete(template.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && !isLoading && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+
+          {selectedTemplate && preview && (
+            <div className={cn(
+              'rounded-md border p-3 text-sm space-y-2',
+              preview.conflicts.length > 0 && 'border-yellow-300 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950'
+            )}>
+              <p>
+                {preview.total === 0
+                  ? `"${selectedTemplate.name}" no tiene bloques que crear.`
+                  : `Se crearán ${preview.total} bloques de "${selectedTemplate.name}" en esta semana.`}
+              </p>
+              {preview.conflicts.length > 0 && (
+                <>
+                  <p className="flex items-center gap-1 font-medium">
+                    <AlertTriangle className="w-4 h-4" />
+                    {preview.conflicts.length} se superponen con bloques existentes:
+                  </p>
+                  <ul className="max-h-[140px] overflow-y-auto space-y-1 text-xs">
+                    {preview.conflicts.map(conflict => (
+                      <li key={conflict.block.id}>
+                        <span className="font-medium">{conflict.block.title}</span>
+                        {' '}({formatDate(new Date(conflict.block.startTime), 'short', timeZone, locale)} {formatTime(new Date(conflict.block.startTime), timeZone, locale)})
+                        {' con '}{conflict.conflictingBlocks.map(block => block.title).join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+          {selectedTemplate && preview && (
+            preview.conflicts.length > 0 ? (
+              <>
+                <Button type="button" variant="outline" onClick={() => handleApply('skip')} disabled={Boolean(pendingId)}>
+                  Omitir conflictos
+                </Button>
+                <Button type="button" variant="destructive" onClick={() => handleApply('overwrite')} disabled={Boolean(pendingId)}>
+                  Sobrescribir
+                </Button>
+              </>
+            ) : (
+              <Button
+                type="button"
+                onClick={() => handleApply('abort')}
+                disabled={preview.total === 0 || Boolean(pendingId)}
+              >
+                {pendingId === selectedId && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Aplicar plantilla
+              </Button>
+            )
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
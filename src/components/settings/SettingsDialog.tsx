@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { getSupportedTimeZones } from '@/lib/timezone';
+import { SLOT_MINUTES_OPTIONS, SUPPORTED_LOCALES, formatDuration } from '@/lib/utils';
+import { workingHoursSchema } from '@/lib/validations';
+import type { SlotMinutes, UserPreferences, WeekDay } from '@/lib/types';
+import { WorkingHoursEditor } from './WorkingHoursEditor';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Icons
+import { Settings, Loader2 } from 'lucide-react';
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  preferences: UserPreferences;
+  onSave: (data: Partial<UserPreferences>) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const WEEK_START_OPTIONS: { value: WeekDay; label: string }[] = [
+  { value: 1, label: 'Lunes' },
+  { value: 0, label: 'Domingo' },
+  { value: 6, label: 'Sábado' },
+];
+
+const LOCALE_LABELS: Record<(typeof SUPPORTED_LOCALES)[number], string> = {
+  'es-MX': 'Español (México)',
+  'es-ES': 'Español (España)',
+  'es-AR': 'Español (Argentina)',
+  'es-CO': 'Español (Colombia)',
+  'es-CL': 'Español (Chile)',
+  'en-US': 'English (US)',
+};
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240];
+const REMINDER_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 1440];
+
+// Preset values plus the saved one, if it was set to something else through the API
+const withValue = (options: number[], value: number) =>
+  options.includes(value) ? options : [...options, value].sort((a, b) => a - b);
+
+export function SettingsDialog({ isOpen, preferences, onSave, onClose }: SettingsDialogProps) {
+  const [draft, setDraft] = useState<UserPreferences>(preferences);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from the saved settings every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(preferences);
+    }
+  }, [isOpen, preferences]);
+
+  // The saved zone is offered even if the runtime doesn't list it
+  const savedTimeZone = preferences.timeZone;
+  const timeZones = useMemo(() => {
+    const zones = getSupportedTimeZones();
+    return zones.includes(savedTimeZone) ? zones : [savedTimeZone, ...zones];
+  }, [savedTimeZone]);
+
+  const update = <K extends keyof UserPreferences>(key: K, value: UserPreferences[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const workingHoursResult = workingHoursSchema.safeParse(draft.workingHours);
+  const workingHoursError = workingHoursResult.success ? null : workingHoursResult.error.issues[0].message;
+
+  const handleSave = async () => {
+    // Only the settings that changed are sent
+    const changes = Object.fromEntries(
+      Object.entries(draft).filter(([key, value]) => preferences[key as keyof UserPreferences] !== value)
+    ) as Partial<UserPreferences>;
+
+    if (Object.keys(changes).length > 0) {
+      setIsSubmitting(true);
+      try {
+        await onSave(changes);
+      } finally {
+        setIsSubmitting(false);
+      }
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings className="w-5 h-5" />
+            Preferencias
+          </DialogTitle>
+          <DialogDescription>
+            Se aplican a tu cuenta en todos los espacios de trabajo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Zona horaria</Label>
+            <Select value={draft.timeZone} onValueChange={(value) => update('timeZone', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map(zone => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone.replace(/_/g, ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Primer día de la semana</Label>
+              <Select
+                value={String(draft.weekStartsOn)}
+                onValueChange={(value) => update('weekStartsOn', Number(value) as WeekDay)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEK_START_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tamaño de los intervalos</Label>
+              <Select
+                value={String(draft.slotMinutes)}
+                onValueChange={(value) => update('slotMinutes', Number(value) as SlotMinutes)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SLOT_MINUTES_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Horario laboral</Label>
+            <WorkingHoursEditor
+              value={draft.workingHours}
+              onChange={(workingHours) => update('workingHours', workingHours)}
+              weekStartsOn={draft.weekStartsOn}
+            />
+            {workingHoursError && (
+              <p className="text-sm text-destructive">{workingHoursError}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Duración de los bloques nuevos</Label>
+              <Select
+                value={String(draft.defaultBlockMinutes)}
+                onValueChange={(value) => update('defaultBlockMinutes', Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {withValue(DURATION_OPTIONS, draft.defaultBlockMinutes).map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {formatDuration(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Recordatorio</Label>
+              <Select
+                value={String(draft.reminderMinutes)}
+                onValueChange={(value) => update('reminderMinutes', Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {withValue(REMINDER_OPTIONS, draft.reminderMinutes).map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes === 0 ? 'Sin recordatorio' : `${formatDuration(minutes)} antes`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Formato de fechas y horas</Label>
+            <Select value={draft.locale} onValueChange={(value) => update('locale', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_LOCALES.map(locale => (
+                  <SelectItem key={locale} value={locale}>
+                    {LOCALE_LABELS[locale]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={Boolean(workingHoursError) || isSubmitting}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { getWorkingRanges, MINUTES_PER_DAY } from '@/lib/utils';
+import type { WeekDay, WorkingHoursRange } from '@/lib/types';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+// Icons
+import { Plus, X } from 'lucide-react';
+
+interface WorkingHoursEditorProps {
+  value: WorkingHoursRange[];
+  onChange: (workingHours: WorkingHoursRange[]) => void;
+  weekStartsOn?: WeekDay; // Days are listed from the first day of the week
+  disabled?: boolean;
+}
+
+const DAY_LABELS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+const ALL_DAYS: WeekDay[] = [0, 1, 2, 3, 4, 5, 6];
+
+// Time inputs (HH:mm) in 15-minute steps; an end of 00:00 is the end of the day
+const toTimeValue = (minutes: number) =>
+  [Math.floor(minutes / 60) % 24, minutes % 60].map(value => value.toString().padStart(2, '0')).join(':');
+
+const fromTimeValue = (value: string, isEnd: boolean) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  const total = Math.round((hours * 60 + minutes) / 15) * 15;
+  return isEnd && total === 0 ? MINUTES_PER_DAY : total;
+};
+
+export function WorkingHoursEditor({ value, onChange, weekStartsOn = 0, disabled = false }: WorkingHoursEditorProps) {
+  const orderedDays = ALL_DAYS.map(day => ((day + weekStartsOn) % 7) as WeekDay);
+
+  const replaceDay = (weekday: WeekDay, ranges: WorkingHoursRange[]) => {
+    onChange([...value.filter(range => range.weekday !== weekday), ...ranges]);
+  };
+
+  // New ranges start an hour after the last one of the day (9:00 to 17:00 on days off)
+  const handleAdd = (weekday: WeekDay) => {
+    const ranges = getWorkingRanges(value, weekday);
+    const last = ranges[ranges.length - 1];
+    const startMinutes = last ? Math.min(last.endMinutes + 60, MINUTES_PER_DAY - 60) : 9 * 60;
+    const endMinutes = last ? Math.min(startMinutes + 60, MINUTES_PER_DAY) : 17 * 60;
+    replaceDay(weekday, [...ranges, { weekday, startMinutes, endMinutes }]);
+  };
+
+  const handleChange = (weekday: WeekDay, index: number, field: 'startMinutes' | 'endMinutes', time: string) => {
+    if (!time) {
+      return;
+    }
+    const ranges = getWorkingRanges(value, weekday);
+    replaceDay(weekday, ranges.map((range, i) =>
+      i === index ? { ...range, [field]: fromTimeValue(time, field === 'endMinutes') } : range
+    ));
+  };
+
+  const handleRemove = (weekday: WeekDay, index: number) => {
+    replaceDay(weekday, getWorkingRanges(value, weekday).filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {orderedDays.map(weekday => {
+        const ranges = getWorkingRanges(value, weekday);
+
+        return (
+          <div key={weekday} className="flex items-start gap-2">
+            <span className="w-24 pt-1.5 text-sm flex-shrink-0">{DAY_LABELS[weekday]}</span>
+            <div className="flex-1 space-y-1">
+              {ranges.length === 0 && (
+                <p className="pt-1.5 text-sm text-muted-foreground">No laborable</p>
+              )}
+              {ranges.map((range, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <Input
+                    type="time"
+                    step={900}
+                    value={toTimeValue(range.startMinutes)}
+                    onChange={(e) => handleChange(weekday, index, 'startMinutes', e.target.value)}
+                    disabled={disabled}
+                    className="h-8 text-sm"
+                    aria-label={`Inicio del horario ${index + 1} del ${DAY_LABELS[weekday].toLowerCase()}`}
+                  />
+                  <span className="text-sm text-muted-foreground">a</span>
+                  <Input
+                    type="time"
+                    step={900}
+                    value={toTimeValue(range.endMinutes)}
+                    onChange={(e) => handleChange(weekday, index, 'endMinutes', e.target.value)}
+                    disabled={disabled}
+                    className="h-8 text-sm"
+                    aria-label={`Fin del horario ${index + 1} del ${DAY_LABELS[weekday].toLowerCase()}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 flex-shrink-0"
+                    title="Quitar horario"
+                    disabled={disabled}
+                    onClick={() => handleRemove(weekday, index)}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0 flex-shrink-0"
+              title="Añadir horario"
+              disabled={disabled || ranges.length >= 4}
+              onClick={() => handleAdd(weekday)}
+            >
+              <Plus className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,16 +2,22 @@ import * as React from "react"
 import { X } from "lucide-react"
 import { cn } from "@/lib/utils"
 
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
 export interface ToastProps {
   id: string
   title?: string
   description?: string
   type?: 'success' | 'error' | 'warning' | 'info'
   duration?: number
+  action?: ToastAction
   onClose: (id: string) => void
 }
 
-export function Toast({ id, title, description, type = 'info', onClose }: ToastProps) {
+export function Toast({ id, title, description, type = 'info', action, onClose }: ToastProps) {
   const typeStyles = {
     success: 'bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:border-green-800 dark:text-green-200',
     error: 'bg-red-50 border-red-200 text-red-800 dark:bg-red-950 dark:border-red-800 dark:text-red-200',
@@ -32,6 +38,17 @@ export function Toast({ id, title, description, type = 'info', onClose }: ToastP
           <div className="text-sm opacity-90">{description}</div>
         )}
       </div>
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick()
+            onClose(id)
+          }}
+          className="shrink-0 rounded-md border border-current px-3 py-1 text-sm font-medium opacity-90 transition-opacity hover:opacity-100"
+        >
+          {action.label}
+        </button>
+      )}
       <button
         onClick={() => onClose(id)}
         className="absolute right-2 top-2 rounded-md p-1 opacity-70 transition-opacity hover:opacity-100"
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import type { Workspace, WorkspaceRole } from '@/lib/types';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Icons
+import { Users, Trash2, Loader2 } from 'lucide-react';
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Propietario',
+  editor: 'Editor',
+  viewer: 'Lector',
+};
+
+interface WorkspaceMembersDialogProps {
+  isOpen: boolean;
+  workspace: Workspace;
+  onClose: () => void;
+}
+
+export function WorkspaceMembersDialog({ isOpen, workspace, onClose }: WorkspaceMembersDialogProps) {
+  const { members, isLoading, error, addMember, updateMemberRole, removeMember } =
+    useWorkspaceMembers(isOpen ? workspace.id : null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('editor');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isOwner = workspace.role === 'owner';
+
+  const handleAddMember = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await addMember(email, role);
+      setEmail('');
+    } catch (err) {
+      console.error('Error adding member:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Miembros de {workspace.name}
+          </DialogTitle>
+          <DialogDescription>
+            Los editores pueden cambiar bloques y categorías; los lectores solo pueden verlos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {members.map(member => (
+              <li key={member.id} className="flex items-center gap-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium">{member.user.name || member.user.email}</p>
+                  {member.user.name && (
+                    <p className="truncate text-xs text-muted-foreground">{member.user.email}</p>
+                  )}
+                </div>
+                {isOwner ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => updateMemberRole(member.userId, value as WorkspaceRole).catch(() => {})}
+                    >
+                      <SelectTrigger className="w-32 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Quitar del espacio"
+                      onClick={() => removeMember(member.userId).catch(() => {})}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isOwner && (
+          <form onSubmit={handleAddMember} className="flex items-center gap-2 pt-2 border-t">
+            <Input
+              type="email"
+              placeholder="correo@ejemplo.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isSubmitting}>
+              Añadir
+            </Button>
+          </form>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
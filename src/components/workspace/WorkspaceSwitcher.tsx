@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import type { Workspace } from '@/lib/types';
+import { WorkspaceMembersDialog, ROLE_LABELS } from '@/components/workspace/WorkspaceMembersDialog';
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Icons
+import { Users, Plus } from 'lucide-react';
+
+// Select value of the "new workspace" entry
+const NEW_WORKSPACE_VALUE = '__new__';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  onWorkspaceChange: (id: string) => void;
+  onWorkspaceCreate: (name: string) => Promise<unknown>;
+}
+
+export function WorkspaceSwitcher({
+  workspaces,
+  currentWorkspace,
+  onWorkspaceChange,
+  onWorkspaceCreate,
+}: WorkspaceSwitcherProps) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleValueChange = (value: string) => {
+    if (value === NEW_WORKSPACE_VALUE) {
+      setIsCreateOpen(true);
+      return;
+    }
+    onWorkspaceChange(value);
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await onWorkspaceCreate(name.trim());
+      setName('');
+      setIsCreateOpen(false);
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={currentWorkspace?.id ?? ''} onValueChange={handleValueChange}>
+        <SelectTrigger className="w-48 h-9">
+          <SelectValue placeholder="Espacio de trabajo" />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map(workspace => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+              {!workspace.isPersonal && (
+                <span className="ml-2 text-xs text-muted-foreground">{ROLE_LABELS[workspace.role]}</span>
+              )}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_WORKSPACE_VALUE}>
+            <span className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Nuevo espacio
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      {currentWorkspace && !currentWorkspace.isPersonal && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsMembersOpen(true)}
+          title="Miembros"
+        >
+          <Users className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Nuevo espacio de trabajo</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              placeholder="Nombre del equipo"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Crear
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {currentWorkspace && !currentWorkspace.isPersonal && (
+        <WorkspaceMembersDialog
+          isOpen={isMembersOpen}
+          workspace={currentWorkspace}
+          onClose={() => setIsMembersOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,13 @@
 // Export all custom hooks for easy importing
 export { useScheduleBlocks } from './useScheduleBlocks';
-export { useWeekGrid } from './useWeekGrid';
\ No newline at end of file
+export { useWeekGrid } from './useWeekGrid';
+export { useTimeEntries } from './useTimeEntries';export { useAuth } from './useAuth';
+export { useWorkspaces } from './useWorkspaces';
+export { useWorkspaceMembers } from './useWorkspaceMembers';
+export { useTrash } from './useTrash';
+
+export { useBlockHistory } from './useBlockHistory';
+export { useWeekTemplates } from './useWeekTemplates';
+export { useTags } from './useTags';
+export { useChecklist } from './useChecklist';
+export { usePreferences } from './usePreferences';
\ No newline at end of file
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { User, LoginData, RegisterData, UseAuthReturn } from '@/lib/types';
+
+export function useAuth(): UseAuthReturn {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  // Fetch the signed-in user (null when there is no session)
+  const fetchUser = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/me');
+      if (response.status === 401) {
+        setUser(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Error ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setUser(data.data);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching user:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleApiError]);
+
+  const login = useCallback(async (data: LoginData): Promise<User> => {
+    setError(null);
+
+    try {
+      const signedInUser = await makeApiRequest<User>('/api/auth/login', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+      setUser(signedInUser);
+      return signedInUser;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  const register = useCallback(async (data: RegisterData): Promise<User> => {
+    setError(null);
+
+    try {
+      const newUser = await makeApiRequest<User>('/api/auth/register', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+      setUser(newUser);
+      return newUser;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  const logout = useCallback(async (): Promise<void> => {
+    setError(null);
+
+    try {
+      await makeApiRequest('/api/auth/logout', { method: 'POST' });
+      setUser(null);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  // Load the session on mount
+  useEffect(() => {
+    fetchUser();
+  }, [fetchUser]);
+
+  return {
+    user,
+    isLoading,
+    error,
+    login,
+    register,
+    logout,
+    refetch: fetchUser,
+  };
+}
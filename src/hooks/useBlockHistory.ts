@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { HistoryEntry, ScheduleBlock, UseBlockHistoryReturn } from '@/lib/types';
+
+export function useBlockHistory(blockId: string | null): UseBlockHistoryReturn {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Planico-Source': 'web',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  const fetchHistory = useCallback(async (): Promise<void> => {
+    if (!blockId) {
+      setEntries([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const fetchedEntries = await makeApiRequest<HistoryEntry[]>(`/api/schedule/${blockId}/history`);
+      setEntries(fetchedEntries);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching block history:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [blockId, makeApiRequest, handleApiError]);
+
+  // Bring the block back to the version of an entry; the revert is recorded as a new entry
+  const revert = useCallback(async (entryId: string): Promise<ScheduleBlock> => {
+    setError(null);
+
+    try {
+      const block = await makeApiRequest<ScheduleBlock>(
+        `/api/schedule/${blockId}/history/${entryId}/revert`,
+        { method: 'POST' }
+      );
+
+      await fetchHistory();
+
+      return block;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [blockId, makeApiRequest, handleApiError, fetchHistory]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    entries,
+    isLoading,
+    error,
+    revert,
+    refetch: fetchHistory,
+  };
+}
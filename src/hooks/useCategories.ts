@@ -1,14 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import type { Category } from '@/lib/types';
-
-interface UseCategoriesReturn {
-  categories: Category[];
-  isLoading: boolean;
-  error: string | null;
-  refetch: () => Promise<void>;
-}
+import type { Category, CreateCategoryData, UpdateCategoryData, UseCategoriesReturn } from '@/lib/types';
 
 export function useCategories(): UseCategoriesReturn {
   const [categories, setCategories] = useState<Category[]>([]);
@@ -26,6 +19,46 @@ export function useCategories(): UseCategoriesReturn {
     return 'Ha ocurrido un error inesperado';
   }, []);
 
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Planico-Source': 'web', // Source recorded in the change history
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  // Apply a change locally right away and put the previous list back if the request fails.
+  // Errors are left to the caller: `error` only reports loading errors
+  const withOptimisticUpdate = useCallback(async <T>(
+    update: (categories: Category[]) => Category[],
+    request: () => Promise<T>
+  ): Promise<T> => {
+    const previousCategories = categories;
+    setCategories(update);
+
+    try {
+      return await request();
+    } catch (err) {
+      setCategories(previousCategories);
+      throw err;
+    }
+  }, [categories]);
+
   // Fetch categories from API
   const fetchCategories = useCallback(async (): Promise<void> => {
     setIsLoading(true);
@@ -59,6 +92,111 @@ export function useCategories(): UseCategoriesReturn {
     }
   }, [handleApiError]);
 
+  // Create a category at the end of the list
+  const createCategory = useCallback(async (data: CreateCategoryData): Promise<Category> => {
+    const optimisticCategory: Category = {
+      id: `temp-${Date.now()}`,
+      name: data.name,
+      color: data.color,
+      parentId: data.parentId ?? null,
+      position: categories.reduce((max, category) => Math.max(max, category.position ?? 0), -1) + 1,
+    };
+
+    return withOptimisticUpdate(
+      prev => [...prev, optimisticCategory],
+      async () => {
+        const newCategory = await makeApiRequest<Category>('/api/categories', {
+          method: 'POST',
+          body: JSON.stringify(data),
+        });
+        setCategories(prev => prev.map(category =>
+          category.id === optimisticCategory.id ? newCategory : category
+        ));
+        return newCategory;
+      }
+    );
+  }, [categories, withOptimisticUpdate, makeApiRequest]);
+
+  // Rename, recolor or move a category
+  const updateCategory = useCallback(async (id: string, data: UpdateCategoryData): Promise<Category> => {
+    const originalCategory = categories.find(category => category.id === id);
+    if (!originalCategory) {
+      throw new Error('Categoría no encontrada');
+    }
+
+    return withOptimisticUpdate(
+      prev => prev.map(category => category.id === id ? { ...category, ...data } : category),
+      async () => {
+        // The API expects the name and the color on every update
+        const updatedCategory = await makeApiRequest<Category>(`/api/categories/${id}`, {
+          method: 'PUT',
+          body: JSON.stringify({ name: originalCategory.name, color: originalCategory.color, ...data }),
+        });
+        setCategories(prev => prev.map(category => category.id === id ? updatedCategory : category));
+        return updatedCategory;
+      }
+    );
+  }, [categories, withOptimisticUpdate, makeApiRequest]);
+
+  // Sub-categories of a removed category move to the target (or to the top level)
+  const removeLocally = useCallback((id: string, targetId: string | null) => (prev: Category[]) =>
+    prev
+      .filter(category => category.id !== id)
+      .map(category => category.parentId === id ? { ...category, parentId: targetId } : category),
+  []);
+
+  const deleteCategory = useCallback(async (id: string, options?: { reassignTo?: string }): Promise<void> => {
+    const query = options?.reassignTo ? `?reassignTo=${encodeURIComponent(options.reassignTo)}` : '';
+
+    await withOptimisticUpdate(
+      removeLocally(id, options?.reassignTo ?? null),
+      () => makeApiRequest(`/api/categories/${id}${query}`, { method: 'DELETE' })
+    );
+  }, [withOptimisticUpdate, removeLocally, makeApiRequest]);
+
+  const mergeCategory = useCallback(async (id: string, targetId: string): Promise<void> => {
+    await withOptimisticUpdate(
+      removeLocally(id, targetId),
+      () => makeApiRequest(`/api/categories/${id}/merge`, {
+        method: 'POST',
+        body: JSON.stringify({ targetId }),
+      })
+    );
+  }, [withOptimisticUpdate, removeLocally, makeApiRequest]);
+
+  const setArchived = useCallback(async (id: string, archived: boolean): Promise<void> => {
+    await withOptimisticUpdate(
+      prev => prev.map(category =>
+        category.id === id ? { ...category, archivedAt: archived ? new Date() : null } : category
+      ),
+      async () => {
+        const updatedCategory = await makeApiRequest<Category>(`/api/categories/${id}/archive`, {
+          method: archived ? 'POST' : 'DELETE',
+        });
+        setCategories(prev => prev.map(category => category.id === id ? updatedCategory : category));
+      }
+    );
+  }, [withOptimisticUpdate, makeApiRequest]);
+
+  // Each category takes its index in `ids` as position
+  const reorderCategories = useCallback(async (ids: string[]): Promise<void> => {
+    await withOptimisticUpdate(
+      prev => prev.map(category =>
+        ids.includes(category.id) ? { ...category, position: ids.indexOf(category.id) } : category
+      ),
+      async () => {
+        const orderedCategories = await makeApiRequest<Category[]>('/api/categories/order', {
+          method: 'PUT',
+          body: JSON.stringify({ ids }),
+        });
+        setCategories(prev => [
+          ...orderedCategories,
+          ...prev.filter(category => !orderedCategories.some(ordered => ordered.id === category.id)),
+        ]);
+      }
+    );
+  }, [withOptimisticUpdate, makeApiRequest]);
+
   // Fetch categories on mount
   useEffect(() => {
     fetchCategories();
@@ -69,5 +207,11 @@ export function useCategories(): UseCategoriesReturn {
     isLoading,
     error,
     refetch: fetchCategories,
+    createCategory,
+    updateCategory,
+    deleteCategory,
+    mergeCategory,
+    setArchived,
+    reorderCategories,
   };
 }
\ No newline at end of file
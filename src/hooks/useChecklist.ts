@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ChecklistItem, UseChecklistReturn } from '@/lib/types';
+
+interface UseChecklistOptions {
+  blockId: string | null; // No checklist to load for blocks that are not saved yet
+  enabled?: boolean;
+  onChange?: (blockId: string, items: ChecklistItem[]) => void; // Called after every saved change
+}
+
+export function useChecklist({ blockId, enabled = true, onChange }: UseChecklistOptions): UseChecklistReturn {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Planico-Source': 'web', // Source recorded in the change history
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  // Apply a change locally right away and put the previous items back if the request fails.
+  // Errors are left to the caller: `error` only reports loading errors
+  const withOptimisticUpdate = useCallback(async (
+    update: (items: ChecklistItem[]) => ChecklistItem[],
+    request: () => Promise<ChecklistItem[] | void>
+  ): Promise<void> => {
+    if (!blockId) {
+      throw new Error('Guarda el bloque antes de editar su lista');
+    }
+
+    const previousItems = items;
+    const optimisticItems = update(items);
+    setItems(optimisticItems);
+
+    try {
+      const savedItems = (await request()) || optimisticItems;
+      setItems(savedItems);
+      onChange?.(blockId, savedItems);
+    } catch (err) {
+      setItems(previousItems);
+      throw err;
+    }
+  }, [blockId, items, onChange]);
+
+  // Fetch the items of the block
+  const fetchItems = useCallback(async (): Promise<void> => {
+    if (!blockId) {
+      setItems([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setItems(await makeApiRequest<ChecklistItem[]>(`/api/schedule/${blockId}/items`));
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching checklist:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [blockId, makeApiRequest, handleApiError]);
+
+  // Add an item at the end of the list
+  const addItem = useCallback(async (title: string): Promise<void> => {
+    const optimisticItem: ChecklistItem = {
+      id: `temp-${Date.now()}`,
+      blockId: blockId ?? '',
+      title,
+      done: false,
+      position: items.length,
+    };
+
+    await withOptimisticUpdate(
+      prev => [...prev, optimisticItem],
+      async () => {
+        const newItem = await makeApiRequest<ChecklistItem>(`/api/schedule/${blockId}/items`, {
+          method: 'POST',
+          body: JSON.stringify({ title }),
+        });
+        return [...items, newItem];
+      }
+    );
+  }, [blockId, items, withOptimisticUpdate, makeApiRequest]);
+
+  // Rename an item or mark it as done
+  const updateItem = useCallback(async (itemId: string, data: { title?: string; done?: boolean }): Promise<void> => {
+    await withOptimisticUpdate(
+      prev => prev.map(item => item.id === itemId ? { ...item, ...data } : item),
+      async () => {
+        await makeApiRequest(`/api/schedule/${blockId}/items/${itemId}`, {
+          method: 'PUT',
+          body: JSON.stringify(data),
+        });
+      }
+    );
+  }, [blockId, withOptimisticUpdate, makeApiRequest]);
+
+  const deleteItem = useCallback(async (itemId: string): Promise<void> => {
+    await withOptimisticUpdate(
+      prev => prev.filter(item => item.id !== itemId),
+      async () => {
+        await makeApiRequest(`/api/schedule/${blockId}/items/${itemId}`, {
+          method: 'DELETE',
+        });
+      }
+    );
+  }, [blockId, withOptimisticUpdate, makeApiRequest]);
+
+  // Set the order of the items: `ids` lists every item of the block
+  const reorderItems = useCallback(async (ids: string[]): Promise<void> => {
+    const positions = new Map(ids.map((id, position) => [id, position]));
+
+    await withOptimisticUpdate(
+      prev => prev
+        .map(item => ({ ...item, position: positions.get(item.id) ?? item.position }))
+        .sort((a, b) => a.position - b.position),
+      () => makeApiRequest<ChecklistItem[]>(`/api/schedule/${blockId}/items/order`, {
+        method: 'PUT',
+        body: JSON.stringify({ ids }),
+      })
+    );
+  }, [blockId, withOptimisticUpdate, makeApiRequest]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchItems();
+    }
+  }, [enabled, fetchItems]);
+
+  return {
+    items,
+    isLoading,
+    error,
+    addItem,
+    updateItem,
+    deleteItem,
+    reorderItems,
+    refetch: fetchItems,
+  };
+}
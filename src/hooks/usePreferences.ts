@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
+import { DEFAULT_LOCALE, DEFAULT_WORKING_HOURS } from '@/lib/utils';
+import type { UserPreferences, UsePreferencesReturn } from '@/lib/types';
+
+// Used until the saved preferences are loaded
+const DEFAULT_PREFERENCES: UserPreferences = {
+  timeZone: DEFAULT_TIMEZONE,
+  weekStartsOn: 0,
+  slotMinutes: 30,
+  reminderMinutes: 15,
+  defaultBlockMinutes: 60,
+  locale: DEFAULT_LOCALE,
+  workingHours: DEFAULT_WORKING_HOURS,
+};
+
+export function usePreferences(): UsePreferencesReturn {
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  const fetchPreferences = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setPreferences(await makeApiRequest<UserPreferences>('/api/preferences'));
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching preferences:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  // Apply the change right away and put the previous preferences back if it can't be saved.
+  // Errors are left to the caller: `error` only reports loading errors
+  const updatePreferences = useCallback(async (data: Partial<UserPreferences>): Promise<void> => {
+    const previousPreferences = preferences;
+    setPreferences({ ...preferences, ...data });
+
+    try {
+      setPreferences(await makeApiRequest<UserPreferences>('/api/preferences', {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }));
+    } catch (err) {
+      setPreferences(previousPreferences);
+      throw err;
+    }
+  }, [preferences, makeApiRequest]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  return {
+    preferences,
+    isLoading,
+    error,
+    updatePreferences,
+    refetch: fetchPreferences,
+  };
+}
@@ -1,27 +1,83 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { startOfWeek, endOfWeek } from 'date-fns';
 import type { 
   ScheduleBlock, 
+  BlockStatus,
+  ChecklistItem,
+  CopyWeekData,
+  CopyWeekResult,
+  ApplyWeekTemplateData,
   CreateBlockData, 
   UpdateBlockData, 
+  CreateBlockOptions,
+  RecurrenceScopeOptions,
   UseScheduleBlocksReturn,
   ScheduleBlocksResponse,
-  ScheduleBlockResponse
+  ScheduleBlockResponse,
+  WeekDay
 } from '@/lib/types';
+import { getWeekStart } from '@/lib/utils';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
 
 interface UseScheduleBlocksOptions {
   weekDate?: Date;
   enableOptimisticUpdates?: boolean;
+  timeZone?: string; // Zone whose weeks are loaded
+  weekStartsOn?: WeekDay;
 }
 
+// Block URL with the recurrence scope as query parameters
+function getBlockUrl(id: string, options?: RecurrenceScopeOptions): string {
+  const params = new URLSearchParams();
+  if (options?.scope) {
+    params.set('scope', options.scope);
+  }
+  if (options?.originalStartTime) {
+    params.set('originalStartTime', new Date(options.originalStartTime).toISOString());
+  }
+
+  const query = params.toString();
+  return `/api/schedule/${id}${query ? `?${query}` : ''}`;
+}
+
+// Whether a loaded block is affected by an edit or delete with the given scope
+function isInScope(block: ScheduleBlock, id: string, options?: RecurrenceScopeOptions): boolean {
+  if (block.id !== id) return false;
+  if (!block.originalStartTime || !options?.originalStartTime || !options.scope || options.scope === 'all') {
+    return true;
+  }
+
+  const occurrence = new Date(block.originalStartTime).getTime();
+  const target = new Date(options.originalStartTime).getTime();
+  return options.scope === 'this' ? occurrence === target : occurrence >= target;
+}
+
+// Inverse of a grid operation, kept on the undo and redo stacks
+interface BlockCommand {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+const MAX_UNDO_STEPS = 50;
+
 export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseScheduleBlocksReturn {
-  const { weekDate = new Date(), enableOptimisticUpdates = true } = options;
+  const {
+    weekDate = new Date(),
+    enableOptimisticUpdates = true,
+    timeZone = DEFAULT_TIMEZONE,
+    weekStartsOn = 0,
+  } = options;
   
   const [blocks, setBlocks] = useState<ScheduleBlock[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Stacks live in refs so that callbacks created before a push (e.g. toast actions) see it
+  const undoStackRef = useRef<BlockCommand[]>([]);
+  const redoStackRef = useRef<BlockCommand[]>([]);
+  const [stackSizes, setStackSizes] = useState({ undo: 0, redo: 0 });
+  const isReplayingRef = useRef(false);
   
   // Keep track of the current week to avoid unnecessary refetches
   const currentWeekRef = useRef<Date>(weekDate);
@@ -39,13 +95,11 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
   }, []);
 
   // Helper function to make API requests with error handling
-  const makeApiRequest = useCallback(async <T>(
-    url: string, 
-    options: RequestInit = {}
-  ): Promise<T> => {
+  const sendApiRequest = useCallback(async (url: string, options: RequestInit = {}): Promise<Response> => {
     const response = await fetch(url, {
       headers: {
         'Content-Type': 'application/json',
+        'X-Planico-Source': 'web', // Source recorded in the change history
         ...options.headers,
       },
       ...options,
@@ -56,8 +110,52 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
       throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
     }
 
+    return response;
+  }, []);
+
+  const makeApiRequest = useCallback(async <T>(
+    url: string, 
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await sendApiRequest(url, options);
     const data = await response.json();
     return data.data || data;
+  }, [sendApiRequest]);
+
+  // Changes also report the history entry they recorded, which is what undo reverts
+  const makeChangeRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<{ data: T; entryId: string | null }> => {
+    const response = await sendApiRequest(url, options);
+    const data = await response.json();
+    return { data: data.data || data, entryId: response.headers.get('X-Planico-History-Entry') };
+  }, [sendApiRequest]);
+
+  // Inverse operations rely on the change history: reverting the change an operation recorded
+  // to its previous version undoes it (and reverting that revert redoes it). The server refuses
+  // when someone else has changed the block since. Resolves with the entry of the revert.
+  const revertChange = useCallback(async (id: string, entryId: string | null): Promise<string | null> => {
+    if (!entryId) {
+      throw new Error('Este cambio no se puede deshacer');
+    }
+
+    const reverted = await makeChangeRequest(`/api/schedule/${id}/history/${entryId}/revert?version=before&ifLatest=true`, {
+      method: 'POST',
+    });
+    return reverted.entryId;
+  }, [makeChangeRequest]);
+
+  const trashBlock = useCallback(async (id: string, options?: RecurrenceScopeOptions): Promise<string | null> => {
+    const trashed = await makeChangeRequest(getBlockUrl(id, options), { method: 'DELETE' });
+    return trashed.entryId;
+  }, [makeChangeRequest]);
+
+  // Every new operation starts a new branch: what was undone can no longer be redone
+  const pushCommand = useCallback((command: BlockCommand) => {
+    undoStackRef.current = [...undoStackRef.current, command].slice(-MAX_UNDO_STEPS);
+    redoStackRef.current = [];
+    setStackSizes({ undo: undoStackRef.current.length, redo: 0 });
   }, []);
 
   // Fetch blocks for the current week
@@ -74,7 +172,7 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
     setError(null);
 
     try {
-      const weekStart = startOfWeek(targetDate, { weekStartsOn: 0 });
+      const weekStart = getWeekStart(targetDate, timeZone, weekStartsOn);
       const url = `/api/schedule?date=${weekStart.toISOString()}`;
       
       const fetchedBlocks = await makeApiRequest<ScheduleBlock[]>(url, {
@@ -105,31 +203,40 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
         setIsLoading(false);
       }
     }
-  }, [weekDate, makeApiRequest, handleApiError]);
+  }, [weekDate, timeZone, weekStartsOn, makeApiRequest, handleApiError]);
 
   // Create a new block with enhanced functionality
   const createBlock = useCallback(async (
     data: CreateBlockData,
-    options?: {
-      onSuccess?: (block: ScheduleBlock) => void;
-      onConflict?: (conflicts: ScheduleBlock[]) => void;
-      enableReminders?: boolean;
-      syncToCalendar?: 'google' | 'outlook' | 'ics' | null;
-    }
+    options?: CreateBlockOptions
   ): Promise<ScheduleBlock> => {
     setError(null);
     
-    // Optimistic update
+    // Optimistic update (recurring blocks are expanded by the server, so they are refetched instead)
     let optimisticBlock: ScheduleBlock | null = null;
-    if (enableOptimisticUpdates) {
+    if (enableOptimisticUpdates && !data.recurrenceRule) {
       optimisticBlock = {
         id: `temp-${Date.now()}`,
         title: data.title,
         description: data.description,
         startTime: data.startTime,
         endTime: data.endTime,
+        allDay: data.allDay,
+        allowOverlap: data.allowOverlap,
         categoryId: data.categoryId,
         category: { id: data.categoryId, name: 'Loading...', color: '#gray' },
+        tags: data.tags?.map(name => ({ id: name, name })),
+        location: data.location,
+        meetingUrl: data.meetingUrl,
+        attendees: data.attendees?.map(email => ({ id: email, email })),
+        checklistItems: data.checklist?.map((title, position) => ({
+          id: `temp-item-${position}`,
+          blockId: '',
+          title,
+          done: false,
+          position,
+        })),
+        status: 'planned',
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -137,13 +244,15 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
     }
 
     try {
-      const newBlock = await makeApiRequest<ScheduleBlock>('/api/schedule', {
+      const { data: newBlock } = await makeChangeRequest<ScheduleBlock>('/api/schedule', {
         method: 'POST',
         body: JSON.stringify(data),
       });
 
       // Replace optimistic update with real data
-      if (enableOptimisticUpdates && optimisticBlock) {
+      if (newBlock.recurrenceRule) {
+        await fetchBlocks(currentWeekRef.current);
+      } else if (enableOptimisticUpdates && optimisticBlock) {
         setBlocks(prev => prev.map(block => 
           block.id === optimisticBlock!.id ? newBlock : block
         ));
@@ -151,6 +260,18 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
         setBlocks(prev => [...prev, newBlock]);
       }
 
+      // Entry of the latest change made by the command
+      let entryId: string | null = null;
+      pushCommand({
+        label: `Crear "${newBlock.title}"`,
+        undo: async () => {
+          entryId = await trashBlock(newBlock.id);
+        },
+        redo: async () => {
+          entryId = await revertChange(newBlock.id, entryId);
+        },
+      });
+
       // Call success callback
       options?.onSuccess?.(newBlock);
 
@@ -169,10 +290,14 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
       
       throw err;
     }
-  }, [enableOptimisticUpdates, makeApiRequest, handleApiError]);
+  }, [enableOptimisticUpdates, makeChangeRequest, handleApiError, fetchBlocks, pushCommand, trashBlock, revertChange]);
 
   // Update an existing block
-  const updateBlock = useCallback(async (id: string, data: UpdateBlockData): Promise<void> => {
+  const updateBlock = useCallback(async (
+    id: string,
+    data: UpdateBlockData,
+    options?: RecurrenceScopeOptions
+  ): Promise<void> => {
     setError(null);
     
     // Store original block for rollback
@@ -181,13 +306,19 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
       throw new Error('Bloque no encontrado');
     }
 
+    // Occurrences share the series id, so recurring blocks are refetched instead of patched locally
+    const isRecurring = Boolean(originalBlock.recurrenceRule || data.recurrenceRule);
+
     // Optimistic update
-    if (enableOptimisticUpdates) {
+    if (enableOptimisticUpdates && !isRecurring) {
       setBlocks(prev => prev.map(block => 
         block.id === id 
           ? { 
               ...block, 
               ...data,
+              // Tag and attendee ids are only known once the server responds
+              tags: data.tags ? data.tags.map(name => ({ id: name, name })) : block.tags,
+              attendees: data.attendees ? data.attendees.map(email => ({ id: email, email })) : block.attendees,
               updatedAt: new Date(),
             }
           : block
@@ -195,18 +326,42 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
     }
 
     try {
-      const updatedBlock = await makeApiRequest<ScheduleBlock>(`/api/schedule/${id}`, {
+      const { data: updatedBlock, entryId: updateEntryId } = await makeChangeRequest<ScheduleBlock>(getBlockUrl(id, options), {
         method: 'PUT',
         body: JSON.stringify(data),
       });
 
       // Update with real data from server
-      setBlocks(prev => prev.map(block => 
-        block.id === id ? updatedBlock : block
-      ));
+      if (isRecurring) {
+        await fetchBlocks(currentWeekRef.current);
+      } else {
+        setBlocks(prev => prev.map(block => 
+          block.id === id ? updatedBlock : block
+        ));
+      }
+
+      // Editing the following occurrences splits the series into a new block
+      const splitBlockId = updatedBlock.id !== id ? updatedBlock.id : null;
+      let entryId = updateEntryId;
+      let splitEntryId: string | null = null;
+      pushCommand({
+        label: `Editar "${originalBlock.title}"`,
+        undo: async () => {
+          if (splitBlockId) {
+            splitEntryId = await trashBlock(splitBlockId);
+          }
+          entryId = await revertChange(id, entryId);
+        },
+        redo: async () => {
+          entryId = await revertChange(id, entryId);
+          if (splitBlockId) {
+            splitEntryId = await revertChange(splitBlockId, splitEntryId);
+          }
+        },
+      });
     } catch (err) {
       // Revert optimistic update on error
-      if (enableOptimisticUpdates) {
+      if (enableOptimisticUpdates && !isRecurring) {
         setBlocks(prev => prev.map(block => 
           block.id === id ? originalBlock : block
         ));
@@ -220,48 +375,192 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
       
       throw err;
     }
-  }, [blocks, enableOptimisticUpdates, makeApiRequest, handleApiError]);
+  }, [blocks, enableOptimisticUpdates, makeChangeRequest, handleApiError, fetchBlocks, pushCommand, trashBlock, revertChange]);
 
-  // Delete a block
-  const deleteBlock = useCallback(async (id: string): Promise<void> => {
+  // Delete a block (or some occurrences of a recurring block, depending on the scope)
+  const deleteBlock = useCallback(async (
+    id: string,
+    options?: RecurrenceScopeOptions
+  ): Promise<void> => {
     setError(null);
     
-    // Store original block for rollback
-    const originalBlock = blocks.find(block => block.id === id);
-    if (!originalBlock) {
+    // Store original blocks for rollback
+    const removedBlocks = blocks.filter(block => isInScope(block, id, options));
+    if (removedBlocks.length === 0) {
       throw new Error('Bloque no encontrado');
     }
 
     // Optimistic update
     if (enableOptimisticUpdates) {
-      setBlocks(prev => prev.filter(block => block.id !== id));
+      setBlocks(prev => prev.filter(block => !isInScope(block, id, options)));
     }
 
     try {
-      await makeApiRequest(`/api/schedule/${id}`, {
-        method: 'DELETE',
-      });
+      let entryId = await trashBlock(id, options);
 
       // Ensure block is removed (in case optimistic update was disabled)
       if (!enableOptimisticUpdates) {
-        setBlocks(prev => prev.filter(block => block.id !== id));
+        setBlocks(prev => prev.filter(block => !isInScope(block, id, options)));
       }
+
+      pushCommand({
+        label: `Eliminar "${removedBlocks[0].title}"`,
+        undo: async () => {
+          entryId = await revertChange(id, entryId);
+        },
+        redo: async () => {
+          entryId = await trashBlock(id, options);
+        },
+      });
     } catch (err) {
       // Revert optimistic update on error
       if (enableOptimisticUpdates) {
-        setBlocks(prev => [...prev, originalBlock]);
+        setBlocks(prev => [...prev, ...removedBlocks]);
       }
       
       const errorMessage = handleApiError(err);
       setError(errorMessage);
       throw err;
     }
-  }, [blocks, enableOptimisticUpdates, makeApiRequest, handleApiError]);
+  }, [blocks, enableOptimisticUpdates, handleApiError, trashBlock, pushCommand, revertChange]);
+
+  // Mark a block (or a single occurrence of a recurring block) as planned, done, skipped or partial
+  const updateBlockStatus = useCallback(async (
+    id: string,
+    status: BlockStatus,
+    originalStartTime?: Date
+  ): Promise<void> => {
+    setError(null);
+
+    const scopeOptions: RecurrenceScopeOptions = { scope: 'this', originalStartTime };
+    // Store original block for rollback
+    const originalBlock = blocks.find(block => isInScope(block, id, scopeOptions));
+    if (!originalBlock) {
+      throw new Error('Bloque no encontrado');
+    }
+
+    // Optimistic update
+    if (enableOptimisticUpdates) {
+      setBlocks(prev => prev.map(block =>
+        isInScope(block, id, scopeOptions) ? { ...block, status } : block
+      ));
+    }
+
+    try {
+      const params = originalStartTime
+        ? `?originalStartTime=${new Date(originalStartTime).toISOString()}`
+        : '';
+      const { data: updatedBlock, entryId: statusEntryId } = await makeChangeRequest<ScheduleBlock>(`/api/schedule/${id}/status${params}`, {
+        method: 'PUT',
+        body: JSON.stringify({ status }),
+      });
+
+      // Update with real data from server
+      setBlocks(prev => prev.map(block =>
+        isInScope(block, id, scopeOptions) ? { ...block, status: updatedBlock.status } : block
+      ));
+
+      let entryId = statusEntryId;
+      pushCommand({
+        label: `Cambiar el estado de "${originalBlock.title}"`,
+        undo: async () => {
+          entryId = await revertChange(id, entryId);
+        },
+        redo: async () => {
+          entryId = await revertChange(id, entryId);
+        },
+      });
+    } catch (err) {
+      // Revert optimistic update on error
+      if (enableOptimisticUpdates) {
+        setBlocks(prev => prev.map(block =>
+          isInScope(block, id, scopeOptions) ? { ...block, status: originalBlock.status } : block
+        ));
+      }
+
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [blocks, enableOptimisticUpdates, makeChangeRequest, handleApiError, pushCommand, revertChange]);
+
+  // Create blocks in a week through a copy endpoint (copy week or apply template).
+  // Dry runs only report the conflicts; real runs can be undone as a single command.
+  const placeWeekBlocks = useCallback(async (
+    url: string,
+    body: object,
+    targetWeek: Date,
+    dryRun: boolean | undefined,
+    getLabel: (result: CopyWeekResult) => string
+  ): Promise<CopyWeekResult> => {
+    setError(null);
 
-  // Refetch blocks (useful for manual refresh)
+    const requestCopy = async (): Promise<CopyWeekResult> => {
+      const result = await makeApiRequest<CopyWeekResult>(url, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+
+      // Only reload when the blocks land on the loaded week
+      const loadedWeek = getWeekStart(currentWeekRef.current, timeZone, weekStartsOn).getTime();
+      if (result.created.length > 0 && getWeekStart(targetWeek, timeZone, weekStartsOn).getTime() === loadedWeek) {
+        await fetchBlocks(currentWeekRef.current);
+      }
+
+      return result;
+    };
+
+    try {
+      let result = await requestCopy();
+
+      if (!dryRun && (result.created.length > 0 || result.overwritten.length > 0)) {
+        pushCommand({
+          label: getLabel(result),
+          undo: async () => {
+            for (const block of result.created) {
+              await trashBlock(block.id);
+            }
+            // Bring back what the copy replaced (trashed blocks and cancelled occurrences)
+            for (const block of result.overwritten) {
+              await revertChange(block.id, block.historyEntryId);
+            }
+          },
+          redo: async () => {
+            result = await requestCopy();
+          },
+        });
+      }
+
+      return result;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [timeZone, weekStartsOn, makeApiRequest, handleApiError, fetchBlocks, pushCommand, trashBlock, revertChange]);
+
+  // Copy the blocks of a week into another one
+  const copyWeek = useCallback((data: CopyWeekData): Promise<CopyWeekResult> =>
+    placeWeekBlocks('/api/schedule/copy-week', data, data.targetWeek, data.dryRun,
+      result => `Copiar ${result.created.length} bloques`), [placeWeekBlocks]);
+
+  // Create the blocks of a template in a week
+  const applyTemplate = useCallback((templateId: string, data: ApplyWeekTemplateData): Promise<CopyWeekResult> =>
+    placeWeekBlocks(`/api/week-templates/${templateId}/apply`, data, data.week, data.dryRun,
+      result => `Aplicar plantilla (${result.created.length} bloques)`), [placeWeekBlocks]);
+
+  // Show checklist changes saved elsewhere on every loaded occurrence of the block
+  const updateChecklist = useCallback((blockId: string, items: ChecklistItem[]): void => {
+    setBlocks(prev => prev.map(block =>
+      block.id === blockId ? { ...block, checklistItems: items } : block
+    ));
+  }, []);
+
+  // Refetch the blocks of the shown week (useful for manual refresh); it only changes along
+  // with the week, the time zone or the first day, so effects can depend on it
   const refetch = useCallback(async (): Promise<void> => {
     try {
-      await fetchBlocks(currentWeekRef.current);
+      await fetchBlocks();
     } catch (error) {
       // Ignore AbortError - it's expected when cancelling requests
       if (error instanceof Error && error.name !== 'AbortError') {
@@ -270,6 +569,41 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
     }
   }, [fetchBlocks]);
 
+  // Run the inverse (or the operation again) and move the command to the other stack
+  const replayCommand = useCallback(async (direction: 'undo' | 'redo'): Promise<string | null> => {
+    const [fromStack, toStack] = direction === 'undo'
+      ? [undoStackRef, redoStackRef]
+      : [redoStackRef, undoStackRef];
+    const command = fromStack.current[fromStack.current.length - 1];
+    // Ignore repeated shortcuts while a command is still running
+    if (!command || isReplayingRef.current) {
+      return null;
+    }
+
+    isReplayingRef.current = true;
+    setError(null);
+
+    try {
+      await command[direction]();
+
+      fromStack.current = fromStack.current.slice(0, -1);
+      toStack.current = [...toStack.current, command];
+      setStackSizes({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+
+      return command.label;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    } finally {
+      isReplayingRef.current = false;
+      await refetch();
+    }
+  }, [handleApiError, refetch]);
+
+  const undo = useCallback(() => replayCommand('undo'), [replayCommand]);
+  const redo = useCallback(() => replayCommand('redo'), [replayCommand]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -286,6 +620,14 @@ export function useScheduleBlocks(options: UseScheduleBlocksOptions = {}): UseSc
     createBlock,
     updateBlock,
     deleteBlock,
+    updateBlockStatus,
+    copyWeek,
+    applyTemplate,
+    updateChecklist,
+    undo,
+    redo,
+    canUndo: stackSizes.undo > 0,
+    canRedo: stackSizes.redo > 0,
     refetch,
   };
 }
\ No newline at end of file
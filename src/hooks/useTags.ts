@@ -0,0 +1,62 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Tag, UseTagsReturn } from '@/lib/types';
+
+interface UseTagsOptions {
+  enabled?: boolean; // Only fetch while the tags are needed
+}
+
+export function useTags({ enabled = true }: UseTagsOptions = {}): UseTagsReturn {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Fetch the tags used in the workspace
+  const fetchTags = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/tags');
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setTags(data.data || data);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching tags:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleApiError]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchTags();
+    }
+  }, [enabled, fetchTags]);
+
+  return {
+    tags,
+    isLoading,
+    error,
+    refetch: fetchTags,
+  };
+}
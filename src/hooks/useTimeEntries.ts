@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getWeekStart } from '@/lib/utils';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
+import type { TimeEntry, StartTimerData, UseTimeEntriesReturn, WeekDay } from '@/lib/types';
+
+interface UseTimeEntriesOptions {
+  weekDate: Date;
+  timeZone?: string; // Zone whose weeks are loaded
+  weekStartsOn?: WeekDay;
+}
+
+export function useTimeEntries({
+  weekDate,
+  timeZone = DEFAULT_TIMEZONE,
+  weekStartsOn = 0,
+}: UseTimeEntriesOptions): UseTimeEntriesReturn {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  // Fetch the entries of the current week
+  const fetchEntries = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const weekStart = getWeekStart(weekDate, timeZone, weekStartsOn);
+      const fetchedEntries = await makeApiRequest<TimeEntry[]>(
+        `/api/time-entries?date=${weekStart.toISOString()}`
+      );
+      setEntries(fetchedEntries);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching time entries:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weekDate, timeZone, weekStartsOn, makeApiRequest, handleApiError]);
+
+  // Start a timer (the server stops the running one first)
+  const startTimer = useCallback(async (data: StartTimerData = {}): Promise<TimeEntry> => {
+    setError(null);
+
+    try {
+      const entry = await makeApiRequest<TimeEntry>('/api/time-entries/start', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+
+      const stoppedAt = entry.startTime;
+      setEntries(prev => [
+        ...prev.map(existing => existing.endTime ? existing : { ...existing, endTime: stoppedAt }),
+        entry,
+      ]);
+
+      return entry;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  // Stop the running timer
+  const stopTimer = useCallback(async (): Promise<TimeEntry> => {
+    setError(null);
+
+    try {
+      const entry = await makeApiRequest<TimeEntry>('/api/time-entries/stop', {
+        method: 'POST',
+      });
+
+      setEntries(prev => prev.map(existing => existing.id === entry.id ? entry : existing));
+
+      return entry;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  // Fetch entries when the week changes
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    activeEntry: entries.find(entry => !entry.endTime) ?? null,
+    isLoading,
+    error,
+    startTimer,
+    stopTimer,
+    refetch: fetchEntries,
+  };
+}
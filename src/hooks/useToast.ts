@@ -1,13 +1,14 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import type { ToastProps } from '@/components/ui/toast';
+import type { ToastProps, ToastAction } from '@/components/ui/toast';
 
 interface ToastOptions {
   title?: string;
   description?: string;
   type?: 'success' | 'error' | 'warning' | 'info';
   duration?: number;
+  action?: ToastAction;
 }
 
 export function useToast() {
@@ -42,8 +43,8 @@ export function useToast() {
   }, []);
 
   const toast = {
-    success: (title: string, description?: string) => 
-      addToast({ title, description, type: 'success' }),
+    success: (title: string, description?: string, action?: ToastAction) => 
+      addToast({ title, description, type: 'success', action }),
     error: (title: string, description?: string) => 
       addToast({ title, description, type: 'error' }),
     warning: (title: string, description?: string) => 
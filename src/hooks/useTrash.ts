@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TrashContents, UseTrashReturn } from '@/lib/types';
+
+interface UseTrashOptions {
+  enabled?: boolean; // Only fetch while the trash is shown
+}
+
+const EMPTY_TRASH: TrashContents = { blocks: [], categories: [], retentionDays: 0 };
+
+export function useTrash({ enabled = true }: UseTrashOptions = {}): UseTrashReturn {
+  const [trash, setTrash] = useState<TrashContents>(EMPTY_TRASH);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Planico-Source': 'web',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  const fetchTrash = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const fetchedTrash = await makeApiRequest<TrashContents>('/api/trash');
+      setTrash(fetchedTrash);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching trash:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  // Run a trash action and drop the affected items from the list
+  const runAction = useCallback(async (
+    url: string,
+    method: 'POST' | 'DELETE',
+    update: (prev: TrashContents) => TrashContents
+  ): Promise<void> => {
+    setError(null);
+
+    try {
+      await makeApiRequest(url, { method });
+      setTrash(update);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  const restoreBlock = useCallback((id: string) =>
+    runAction(`/api/trash/blocks/${id}/restore`, 'POST', prev => {
+      const block = prev.blocks.find(trashed => trashed.id === id);
+      return {
+        ...prev,
+        blocks: prev.blocks.filter(trashed => trashed.id !== id),
+        // The category of the block is restored with it
+        categories: prev.categories.filter(category => category.id !== block?.categoryId),
+      };
+    }), [runAction]);
+
+  const restoreCategory = useCallback((id: string) =>
+    runAction(`/api/trash/categories/${id}/restore`, 'POST', prev => ({
+      ...prev,
+      categories: prev.categories.filter(category => category.id !== id),
+    })), [runAction]);
+
+  const purgeBlock = useCallback((id: string) =>
+    runAction(`/api/trash/blocks/${id}`, 'DELETE', prev => ({
+      ...prev,
+      blocks: prev.blocks.filter(trashed => trashed.id !== id),
+    })), [runAction]);
+
+  const purgeCategory = useCallback((id: string) =>
+    runAction(`/api/trash/categories/${id}`, 'DELETE', prev => ({
+      ...prev,
+      // Trashed blocks of the category are purged with it
+      blocks: prev.blocks.filter(trashed => trashed.categoryId !== id),
+      categories: prev.categories.filter(category => category.id !== id),
+    })), [runAction]);
+
+  const emptyTrash = useCallback(() =>
+    runAction('/api/trash', 'DELETE', prev => ({ ...prev, blocks: [], categories: [] })), [runAction]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchTrash();
+    }
+  }, [enabled, fetchTrash]);
+
+  return {
+    trash,
+    isLoading,
+    error,
+    restoreBlock,
+    restoreCategory,
+    purgeBlock,
+    purgeCategory,
+    emptyTrash,
+    refetch: fetchTrash,
+  };
+}
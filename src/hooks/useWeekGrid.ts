@@ -8,23 +8,62 @@ import {
   generateTimeSlots, 
   calculateGridPosition,
   isSameWeek,
-  getWeekStart
+  getWeekStart,
+  timeSlotToDate,
+  DEFAULT_SLOT_MINUTES,
+  DEFAULT_WORKING_HOURS,
+  DEFAULT_LOCALE,
+  isWorkingTime
 } from '@/lib/utils';
+import { DEFAULT_TIMEZONE, fromZonedParts, getZonedParts } from '@/lib/timezone';
 import type { 
   UseWeekGridReturn, 
   WeekInfo, 
   TimeSlot, 
   GridPosition, 
-  ScheduleBlock 
+  ScheduleBlock,
+  WeekDay,
+  SlotMinutes,
+  WorkingHoursRange
 } from '@/lib/types';
 
 interface UseWeekGridOptions {
   enableUrlState?: boolean;
   initialWeek?: Date;
+  timeZone?: string;
+  weekStartsOn?: WeekDay; // 0 = Sunday (default), 1 = Monday...
+  slotMinutes?: SlotMinutes; // Size of the time slots, 30 minutes by default
+  workingHours?: WorkingHoursRange[]; // Working time of each weekday, for isBusinessHour
+  locale?: string; // Locale of the week range and day labels
 }
 
+// The week in the URL is the calendar date its first day has in the time zone
+const parseWeekParam = (value: string, timeZone: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    const parsedDate = new Date(value);
+    return isNaN(parsedDate.getTime()) ? null : parsedDate;
+  }
+
+  const [, year, month, day] = match.map(Number);
+  return fromZonedParts({ year, month, day }, timeZone);
+};
+
+const formatWeekParam = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return [year, month, day].map((value, i) => value.toString().padStart(i === 0 ? 4 : 2, '0')).join('-');
+};
+
 export function useWeekGrid(options: UseWeekGridOptions = {}): UseWeekGridReturn {
-  const { enableUrlState = true, initialWeek } = options;
+  const {
+    enableUrlState = true,
+    initialWeek,
+    timeZone = DEFAULT_TIMEZONE,
+    weekStartsOn = 0,
+    slotMinutes = DEFAULT_SLOT_MINUTES,
+    workingHours = DEFAULT_WORKING_HOURS,
+    locale = DEFAULT_LOCALE,
+  } = options;
   
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -34,15 +73,15 @@ export function useWeekGrid(options: UseWeekGridOptions = {}): UseWeekGridReturn
     if (enableUrlState) {
       const weekParam = searchParams.get('week');
       if (weekParam) {
-        const parsedDate = new Date(weekParam);
-        if (!isNaN(parsedDate.getTime())) {
+        const parsedDate = parseWeekParam(weekParam, timeZone);
+        if (parsedDate) {
           return parsedDate;
         }
       }
     }
     
     return initialWeek || new Date();
-  }, [enableUrlState, searchParams, initialWeek]);
+  }, [enableUrlState, searchParams, initialWeek, timeZone]);
 
   const [currentWeek, setCurrentWeek] = useState<Date>(initializeWeek);
 
@@ -50,13 +89,13 @@ export function useWeekGrid(options: UseWeekGridOptions = {}): UseWeekGridReturn
   const updateUrl = useCallback((date: Date) => {
     if (!enableUrlState) return;
     
-    const weekStart = getWeekStart(date);
+    const weekStart = getWeekStart(date, timeZone, weekStartsOn);
     const params = new URLSearchParams(searchParams.toString());
-    params.set('week', weekStart.toISOString().split('T')[0]);
+    params.set('week', formatWeekParam(weekStart, timeZone));
     
     // Use replace to avoid cluttering browser history
     router.replace(`?${params.toString()}`, { scroll: false });
-  }, [enableUrlState, router, searchParams]);
+  }, [enableUrlState, router, searchParams, timeZone, weekStartsOn]);
 
   // Sync with URL changes
   useEffect(() => {
@@ -64,88 +103,85 @@ export function useWeekGrid(options: UseWeekGridOptions = {}): UseWeekGridReturn
     
     const weekParam = searchParams.get('week');
     if (weekParam) {
-      const parsedDate = new Date(weekParam);
-      if (!isNaN(parsedDate.getTime()) && !isSameWeek(parsedDate, currentWeek)) {
+      const parsedDate = parseWeekParam(weekParam, timeZone);
+      if (parsedDate && !isSameWeek(parsedDate, currentWeek, timeZone, weekStartsOn)) {
         setCurrentWeek(parsedDate);
       }
     }
-  }, [searchParams, currentWeek, enableUrlState]);
+  }, [searchParams, currentWeek, enableUrlState, timeZone, weekStartsOn]);
 
   // Memoized week information
   const weekInfo = useMemo((): WeekInfo => {
-    return getWeekInfo(currentWeek);
-  }, [currentWeek]);
+    return getWeekInfo(currentWeek, timeZone, weekStartsOn);
+  }, [currentWeek, timeZone, weekStartsOn]);
 
-  // Memoized time slots (static, doesn't change)
+  // Memoized time slots (only change with the slot size)
   const timeSlots = useMemo((): TimeSlot[] => {
-    return generateTimeSlots();
-  }, []);
+    return generateTimeSlots(slotMinutes);
+  }, [slotMinutes]);
 
   // Navigate to previous or next week
   const navigateWeek = useCallback((direction: 'prev' | 'next'): void => {
-    const newWeek = navigateWeekUtil(currentWeek, direction);
+    const newWeek = navigateWeekUtil(currentWeek, direction, timeZone);
     setCurrentWeek(newWeek);
     updateUrl(newWeek);
-  }, [currentWeek, updateUrl]);
+  }, [currentWeek, updateUrl, timeZone]);
 
   // Go to a specific week
   const goToWeek = useCallback((date: Date): void => {
-    if (!isSameWeek(date, currentWeek)) {
+    if (!isSameWeek(date, currentWeek, timeZone, weekStartsOn)) {
       setCurrentWeek(date);
       updateUrl(date);
     }
-  }, [currentWeek, updateUrl]);
+  }, [currentWeek, updateUrl, timeZone, weekStartsOn]);
 
   // Go to current week (today)
   const goToCurrentWeek = useCallback((): void => {
     const today = new Date();
-    if (!isSameWeek(today, currentWeek)) {
+    if (!isSameWeek(today, currentWeek, timeZone, weekStartsOn)) {
       setCurrentWeek(today);
       updateUrl(today);
     }
-  }, [currentWeek, updateUrl]);
+  }, [currentWeek, updateUrl, timeZone, weekStartsOn]);
 
   // Calculate grid position for a schedule block
   const getBlockPosition = useCallback((block: ScheduleBlock): GridPosition => {
-    return calculateGridPosition(block, weekInfo.start);
-  }, [weekInfo.start]);
+    return calculateGridPosition(block, weekInfo.start, timeZone, slotMinutes);
+  }, [weekInfo.start, timeZone, slotMinutes]);
 
   // Additional helper functions for the grid
 
   // Check if a date is in the current week
   const isInCurrentWeek = useCallback((date: Date): boolean => {
-    return isSameWeek(date, currentWeek);
-  }, [currentWeek]);
+    return isSameWeek(date, currentWeek, timeZone, weekStartsOn);
+  }, [currentWeek, timeZone, weekStartsOn]);
 
   // Get the date for a specific time slot
   const getDateForTimeSlot = useCallback((slot: TimeSlot): Date => {
-    const date = new Date(weekInfo.start);
-    date.setDate(date.getDate() + slot.day);
-    date.setHours(slot.hour, slot.minute, 0, 0);
-    return date;
-  }, [weekInfo.start]);
+    return timeSlotToDate(slot, weekInfo.start, timeZone);
+  }, [weekInfo.start, timeZone]);
 
   // Check if current week is the current calendar week
   const isCurrentWeek = useMemo((): boolean => {
-    return isSameWeek(currentWeek, new Date());
-  }, [currentWeek]);
+    return isSameWeek(currentWeek, new Date(), timeZone, weekStartsOn);
+  }, [currentWeek, timeZone, weekStartsOn]);
 
   // Get formatted week range string
   const weekRangeString = useMemo((): string => {
-    const startDate = weekInfo.start;
-    const endDate = weekInfo.end;
+    const startDate = getZonedParts(weekInfo.start, timeZone);
+    const endDate = getZonedParts(weekInfo.end, timeZone);
     
-    const startMonth = startDate.toLocaleDateString('es-MX', { month: 'short' });
-    const endMonth = endDate.toLocaleDateString('es-MX', { month: 'short' });
+    const startMonth = weekInfo.start.toLocaleDateString(locale, { month: 'short', timeZone });
+    const endMonth = weekInfo.end.toLocaleDateString(locale, { month: 'short', timeZone });
     
-    if (startDate.getMonth() === endDate.getMonth()) {
+    if (startDate.month === endDate.month) {
       // Same month
-      return `${startDate.getDate()} - ${endDate.getDate()} ${startMonth} ${startDate.getFullYear()}`;
+      return `${startDate.day} - ${endDate.day} ${startMonth} ${startDate.year}`;
     } else {
       // Different months
-      return `${startDate.getDate()} ${startMonth} - ${endDate.getDate()} ${endMonth} ${startDate.getFullYear()}`;
+      return `${startDate.day} ${startMonth} - ${endDate.day} ${endMonth} ${startDate.year}`;
     }
-  }, [weekInfo]);
+  }, [weekInfo, timeZone, locale]);
 
   // Get time slot label for display
   const getTimeSlotLabel = useCallback((slot: TimeSlot): string => {
@@ -161,16 +197,17 @@ export function useWeekGrid(options: UseWeekGridOptions = {}): UseWeekGridReturn
     
     const options: Intl.DateTimeFormatOptions = {
       weekday: format === 'short' ? 'short' : 'long',
-      timeZone: 'America/Mexico_City',
+      timeZone,
     };
     
-    return new Intl.DateTimeFormat('es-MX', options).format(date);
-  }, [weekInfo.days]);
-
-  // Check if a time slot is in business hours (configurable)
-  const isBusinessHour = useCallback((slot: TimeSlot, startHour = 8, endHour = 18): boolean => {
-    return slot.hour >= startHour && slot.hour < endHour;
-  }, []);
+    return new Intl.DateTimeFormat(locale, options).format(date);
+  }, [weekInfo.days, timeZone, locale]);
+
+  // Check if a time slot is within the working hours of its day (slot days count from the week start)
+  const isBusinessHour = useCallback((slot: TimeSlot): boolean => {
+    const weekday = (slot.day + weekStartsOn) % 7;
+    return isWorkingTime(workingHours, weekday, slot.hour * 60 + slot.minute);
+  }, [workingHours, weekStartsOn]);
 
   return {
     currentWeek,
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { WeekTemplate, CreateWeekTemplateData, UseWeekTemplatesReturn } from '@/lib/types';
+
+interface UseWeekTemplatesOptions {
+  enabled?: boolean; // Only fetch while the templates are shown
+}
+
+export function useWeekTemplates({ enabled = true }: UseWeekTemplatesOptions = {}): UseWeekTemplatesReturn {
+  const [templates, setTemplates] = useState<WeekTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Planico-Source': 'web',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  const fetchTemplates = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const fetchedTemplates = await makeApiRequest<WeekTemplate[]>('/api/week-templates');
+      setTemplates(fetchedTemplates);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching week templates:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  // Save the single blocks of a week as a new template
+  const createTemplate = useCallback(async (data: CreateWeekTemplateData): Promise<WeekTemplate> => {
+    setError(null);
+
+    try {
+      const template = await makeApiRequest<WeekTemplate>('/api/week-templates', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+
+      return template;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  const deleteTemplate = useCallback(async (id: string): Promise<void> => {
+    setError(null);
+
+    try {
+      await makeApiRequest(`/api/week-templates/${id}`, { method: 'DELETE' });
+      setTemplates(prev => prev.filter(template => template.id !== id));
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchTemplates();
+    }
+  }, [enabled, fetchTemplates]);
+
+  return {
+    templates,
+    isLoading,
+    error,
+    createTemplate,
+    deleteTemplate,
+    refetch: fetchTemplates,
+  };
+}
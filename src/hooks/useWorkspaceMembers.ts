@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { WorkspaceMember, WorkspaceRole, UseWorkspaceMembersReturn } from '@/lib/types';
+
+export function useWorkspaceMembers(workspaceId: string | null): UseWorkspaceMembersReturn {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  const fetchMembers = useCallback(async (): Promise<void> => {
+    if (!workspaceId) {
+      setMembers([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const fetchedMembers = await makeApiRequest<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`);
+      setMembers(fetchedMembers);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching workspace members:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId, makeApiRequest, handleApiError]);
+
+  const addMember = useCallback(async (email: string, role: WorkspaceRole): Promise<void> => {
+    setError(null);
+
+    try {
+      const member = await makeApiRequest<WorkspaceMember>(`/api/workspaces/${workspaceId}/members`, {
+        method: 'POST',
+        body: JSON.stringify({ email, role }),
+      });
+      setMembers(prev => [...prev, member]);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [workspaceId, makeApiRequest, handleApiError]);
+
+  const updateMemberRole = useCallback(async (userId: string, role: WorkspaceRole): Promise<void> => {
+    setError(null);
+
+    try {
+      const member = await makeApiRequest<WorkspaceMember>(`/api/workspaces/${workspaceId}/members/${userId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ role }),
+      });
+      setMembers(prev => prev.map(existing => existing.userId === userId ? member : existing));
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [workspaceId, makeApiRequest, handleApiError]);
+
+  const removeMember = useCallback(async (userId: string): Promise<void> => {
+    setError(null);
+
+    try {
+      await makeApiRequest(`/api/workspaces/${workspaceId}/members/${userId}`, { method: 'DELETE' });
+      setMembers(prev => prev.filter(member => member.userId !== userId));
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [workspaceId, makeApiRequest, handleApiError]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  return {
+    members,
+    isLoading,
+    error,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    refetch: fetchMembers,
+  };
+}
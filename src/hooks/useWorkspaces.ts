@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Workspace, UseWorkspacesReturn } from '@/lib/types';
+
+export function useWorkspaces(): UseWorkspacesReturn {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Helper function to handle API errors
+  const handleApiError = useCallback((error: unknown): string => {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'Ha ocurrido un error inesperado';
+  }, []);
+
+  // Helper function to make API requests with error handling
+  const makeApiRequest = useCallback(async <T>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || data;
+  }, []);
+
+  const fetchWorkspaces = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const fetchedWorkspaces = await makeApiRequest<Workspace[]>('/api/workspaces');
+      setWorkspaces(fetchedWorkspaces);
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      console.error('Error fetching workspaces:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  // Switch the workspace the API works on (stored in a cookie by the server)
+  const selectWorkspace = useCallback(async (id: string): Promise<void> => {
+    setError(null);
+
+    try {
+      await makeApiRequest(`/api/workspaces/${id}/select`, { method: 'POST' });
+      setWorkspaces(prev => prev.map(workspace => ({ ...workspace, isCurrent: workspace.id === id })));
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  const createWorkspace = useCallback(async (name: string): Promise<Workspace> => {
+    setError(null);
+
+    try {
+      const workspace = await makeApiRequest<Workspace>('/api/workspaces', {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      setWorkspaces(prev => [...prev, workspace]);
+      return workspace;
+    } catch (err) {
+      const errorMessage = handleApiError(err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [makeApiRequest, handleApiError]);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  const currentWorkspace = workspaces.find(workspace => workspace.isCurrent) ?? null;
+
+  return {
+    workspaces,
+    currentWorkspace,
+    canEdit: currentWorkspace ? currentWorkspace.role !== 'viewer' : true,
+    isLoading,
+    error,
+    selectWorkspace,
+    createWorkspace,
+    refetch: fetchWorkspaces,
+  };
+}
@@ -30,12 +30,26 @@ export class NotFoundError extends Error {
 }
 
 export class ConflictError extends Error {
-  constructor(message: string, public details?: any) {
+  constructor(message: string, public details?: any, public code: string = 'CONFLICT') {
     super(message);
     this.name = 'ConflictError';
   }
 }
 
+export class UnauthorizedError extends Error {
+  constructor(message: string = 'No autenticado') {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends Error {
+  constructor(message: string = 'No tienes permiso para realizar esta acción') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
 // Error handling utilities
 export class ApiErrorHandler {
   static handleZodError(error: ZodError): NextResponse {
@@ -107,7 +121,9 @@ export class ApiErrorHandler {
     }
   }
 
-  static handleCustomError(error: ValidationError | NotFoundError | ConflictError): NextResponse {
+  static handleCustomError(
+    error: ValidationError | NotFoundError | ConflictError | UnauthorizedError | ForbiddenError
+  ): NextResponse {
     if (error instanceof ValidationError) {
       return NextResponse.json(
         {
@@ -134,12 +150,32 @@ export class ApiErrorHandler {
         {
           error: error.message,
           details: error.details,
-          code: 'CONFLICT',
+          code: error.code,
         } as ApiError,
         { status: 409 }
       );
     }
 
+    if (error instanceof UnauthorizedError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'UNAUTHORIZED',
+        } as ApiError,
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof ForbiddenError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'FORBIDDEN',
+        } as ApiError,
+        { status: 403 }
+      );
+    }
+
     return this.handleGenericError(error);
   }
 
@@ -259,7 +295,9 @@ export function withErrorHandling<T extends any[], R>(
         return ApiErrorHandler.handlePrismaError(error);
       }
 
-      if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof ConflictError) {
+      if (error instanceof ValidationError || error instanceof NotFoundError ||
+          error instanceof ConflictError || error instanceof UnauthorizedError ||
+          error instanceof ForbiddenError) {
         return ApiErrorHandler.handleCustomError(error);
       }
       
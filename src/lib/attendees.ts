@@ -0,0 +1,33 @@
+// Attendees of a block, by email
+export const ATTENDEES_INCLUDE = {
+  attendees: { orderBy: { email: 'asc' as const } },
+};
+
+export class AttendeeService {
+  /**
+   * Nested write that creates the attendees of a new block (repeated emails are stored once)
+   */
+  static toCreate(emails: string[]) {
+    return { create: [...new Set(emails)].map(email => ({ email })) };
+  }
+
+  /**
+   * Nested write that replaces the attendees of a block
+   */
+  static toReplace(emails: string[]) {
+    return { deleteMany: {}, ...this.toCreate(emails) };
+  }
+
+  /**
+   * Whether the given emails differ from the current attendees of a block
+   */
+  static isChanged(emails: string[] | undefined, attendees: { email: string }[]): boolean {
+    if (emails === undefined) {
+      return false;
+    }
+
+    const current = new Set(attendees.map(attendee => attendee.email));
+    const next = new Set(emails);
+    return next.size !== current.size || [...next].some(email => !current.has(email));
+  }
+}
@@ -0,0 +1,179 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+import { promisify } from 'util';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ConflictError, UnauthorizedError } from '@/lib/api-utils';
+import type { RegisterInput } from '@/lib/validations';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE_NAME = 'planico_session';
+export const SESSION_DURATION_DAYS = 30;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+// Owner of the data from before accounts existed, created by the user accounts migration.
+// Its password hash never verifies until an account takes it over.
+const LEGACY_USER_ID = 'legacy-user';
+const LEGACY_PASSWORD_HASH = '!';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+const AUTH_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+} as const;
+
+export class AuthService {
+  /**
+   * Hash a password as `scrypt$<salt>$<hash>` (hex encoded)
+   */
+  static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  static async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, salt, hash] = passwordHash.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Create an account. The first one registered after upgrading from a version without accounts
+   * takes over the legacy account instead, with the existing schedule, categories and time entries.
+   */
+  static async register({ email, password, name }: RegisterInput): Promise<AuthUser> {
+    const existingUser = await prisma.user.findUnique({ where: { email } });
+    if (existingUser) {
+      throw new ConflictError('Ya existe una cuenta con ese correo');
+    }
+
+    const passwordHash = await this.hashPassword(password);
+
+    // Only one registration can match: the hash changes with the takeover
+    const claimed = await prisma.user.updateMany({
+      where: { id: LEGACY_USER_ID, passwordHash: LEGACY_PASSWORD_HASH },
+      data: { email, name: name || null, passwordHash },
+    });
+    if (claimed.count > 0) {
+      return prisma.user.findUniqueOrThrow({ where: { id: LEGACY_USER_ID }, select: AUTH_USER_SELECT });
+    }
+
+    return prisma.user.create({
+      data: {
+        email,
+        name: name || null,
+        passwordHash,
+        // Every account starts with its own personal workspace
+        memberships: {
+          create: {
+            role: 'owner',
+            workspace: { create: { name: 'Personal', isPersonal: true } },
+          },
+        },
+      },
+      select: AUTH_USER_SELECT,
+    });
+  }
+
+  static async authenticate(email: string, password: string): Promise<AuthUser> {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user || !(await this.verifyPassword(password, user.passwordHash))) {
+      throw new UnauthorizedError('Correo o contraseña incorrectos');
+    }
+
+    return { id: user.id, email: user.email, name: user.name };
+  }
+
+  /**
+   * Create a session and return its token. Only the token hash is stored.
+   */
+  static async createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_DURATION_DAYS * 24 * 60 * 60 * 1000);
+
+    await prisma.session.create({
+      data: {
+        tokenHash: this.hashToken(token),
+        userId,
+        expiresAt,
+      },
+    });
+
+    return { token, expiresAt };
+  }
+
+  static async destroySession(request: NextRequest): Promise<void> {
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    if (token) {
+      await prisma.session.deleteMany({ where: { tokenHash: this.hashToken(token) } });
+    }
+  }
+
+  /**
+   * User of the session cookie, or null when missing or expired
+   */
+  static async getSessionUser(request: NextRequest): Promise<AuthUser | null> {
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    if (!token) {
+      return null;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { user: { select: AUTH_USER_SELECT } },
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.expiresAt < new Date()) {
+      await prisma.session.delete({ where: { id: session.id } });
+      return null;
+    }
+
+    return session.user;
+  }
+
+  static async requireUser(request: NextRequest): Promise<AuthUser> {
+    const user = await this.getSessionUser(request);
+    if (!user) {
+      throw new UnauthorizedError();
+    }
+    return user;
+  }
+
+  static setSessionCookie(response: NextResponse, token: string, expiresAt: Date): NextResponse {
+    response.cookies.set(SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: expiresAt,
+    });
+    return response;
+  }
+
+  static clearSessionCookie(response: NextResponse): NextResponse {
+    response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+  }
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,5 +1,6 @@
 import { ScheduleBlock } from '@/lib/types';
-import { format } from 'date-fns';
+import { DEFAULT_TIMEZONE, getZonedParts } from '@/lib/timezone';
+import { getBlockKey } from '@/lib/utils';
 
 export interface CalendarEvent {
   title: string;
@@ -7,40 +8,51 @@ export interface CalendarEvent {
   startTime: Date;
   endTime: Date;
   location?: string;
+  url?: string;
+  attendees?: string[]; // Emails
 }
 
+const pad = (value: number) => String(value).padStart(2, '0');
+
 export class CalendarSyncService {
-  // Generate .ics file content for calendar import
-  static generateICSFile(blocks: ScheduleBlock[]): string {
+  // Generate .ics file content for calendar import. Times are written in UTC; the days of
+  // all-day events are the ones they have in the given time zone
+  static generateICSFile(blocks: ScheduleBlock[], timeZone: string = DEFAULT_TIMEZONE): string {
     const icsHeader = [
       'BEGIN:VCALENDAR',
       'VERSION:2.0',
       'PRODID:-//Planico//Planico Calendar//ES',
       'CALSCALE:GREGORIAN',
       'METHOD:PUBLISH',
+      `X-WR-TIMEZONE:${timeZone}`,
     ].join('\r\n');
 
     const icsFooter = 'END:VCALENDAR';
 
-    const events = blocks.map(block => this.blockToICSEvent(block)).join('\r\n');
+    const events = blocks.map(block => this.blockToICSEvent(block, timeZone)).join('\r\n');
 
     return [icsHeader, events, icsFooter].join('\r\n');
   }
 
-  private static blockToICSEvent(block: ScheduleBlock): string {
+  private static blockToICSEvent(block: ScheduleBlock, timeZone: string): string {
     const startTime = this.formatDateForICS(new Date(block.startTime));
     const endTime = this.formatDateForICS(new Date(block.endTime));
-    const uid = `${block.id}@planico.app`;
+    // Occurrences of a series share its id; the occurrence key keeps each event separate
+    const uid = `${getBlockKey(block)}@planico.app`;
     const timestamp = this.formatDateForICS(new Date());
 
     return [
       'BEGIN:VEVENT',
       `UID:${uid}`,
       `DTSTAMP:${timestamp}`,
-      `DTSTART:${startTime}`,
-      `DTEND:${endTime}`,
+      // All-day events use dates; DTEND is the day after the last one
+      block.allDay ? `DTSTART;VALUE=DATE:${this.formatDayForICS(new Date(block.startTime), timeZone)}` : `DTSTART:${startTime}`,
+      block.allDay ? `DTEND;VALUE=DATE:${this.formatDayForICS(new Date(block.endTime), timeZone)}` : `DTEND:${endTime}`,
       `SUMMARY:${this.escapeICSText(block.title)}`,
       block.description ? `DESCRIPTION:${this.escapeICSText(block.description)}` : '',
+      block.location ? `LOCATION:${this.escapeICSText(block.location)}` : '',
+      block.meetingUrl ? `URL:${block.meetingUrl}` : '',
+      ...(block.attendees ?? []).map(attendee => `ATTENDEE;ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:${attendee.email}`),
       `CATEGORIES:${this.escapeICSText(block.category.name)}`,
       'STATUS:CONFIRMED',
       'TRANSP:OPAQUE',
@@ -48,8 +60,19 @@ export class CalendarSyncService {
     ].filter(Boolean).join('\r\n');
   }
 
+  // Description with the meeting link appended, for calendars without a URL field
+  private static getEventDetails(block: ScheduleBlock): string {
+    return [block.description, block.meetingUrl].filter(Boolean).join('\n\n');
+  }
+
+  // UTC date-time, e.g. 20250915T130000Z
   private static formatDateForICS(date: Date): string {
-    return format(date, "yyyyMMdd'T'HHmmss'Z'");
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private static formatDayForICS(date: Date, timeZone: string): string {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return `${year}${pad(month)}${pad(day)}`;
   }
 
   private static escapeICSText(text: string): string {
@@ -61,8 +84,12 @@ export class CalendarSyncService {
   }
 
   // Download ICS file
-  static downloadICSFile(blocks: ScheduleBlock[], filename: string = 'planico-calendar.ics'): void {
-    const icsContent = this.generateICSFile(blocks);
+  static downloadICSFile(
+    blocks: ScheduleBlock[],
+    filename: string = 'planico-calendar.ics',
+    timeZone: string = DEFAULT_TIMEZONE
+  ): void {
+    const icsContent = this.generateICSFile(blocks, timeZone);
     const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' });
     const url = URL.createObjectURL(blob);
     
@@ -76,23 +103,24 @@ export class CalendarSyncService {
   }
 
   // Generate Google Calendar URL
-  static generateGoogleCalendarURL(block: ScheduleBlock): string {
+  static generateGoogleCalendarURL(block: ScheduleBlock, timeZone: string = DEFAULT_TIMEZONE): string {
     const baseURL = 'https://calendar.google.com/calendar/render';
     const params = new URLSearchParams({
       action: 'TEMPLATE',
       text: block.title,
-      dates: `${this.formatDateForGoogle(new Date(block.startTime))}/${this.formatDateForGoogle(new Date(block.endTime))}`,
-      details: block.description || '',
-      location: '',
+      dates: block.allDay
+        ? `${this.formatDayForICS(new Date(block.startTime), timeZone)}/${this.formatDayForICS(new Date(block.endTime), timeZone)}`
+        : `${this.formatDateForICS(new Date(block.startTime))}/${this.formatDateForICS(new Date(block.endTime))}`,
+      details: this.getEventDetails(block),
+      location: block.location || '',
     });
+    if (block.attendees?.length) {
+      params.set('add', block.attendees.map(attendee => attendee.email).join(','));
+    }
 
     return `${baseURL}?${params.toString()}`;
   }
 
-  private static formatDateForGoogle(date: Date): string {
-    return format(date, "yyyyMMdd'T'HHmmss'Z'");
-  }
-
   // Generate Outlook Calendar URL
   static generateOutlookCalendarURL(block: ScheduleBlock): string {
     const baseURL = 'https://outlook.live.com/calendar/0/deeplink/compose';
@@ -100,9 +128,15 @@ export class CalendarSyncService {
       subject: block.title,
       startdt: new Date(block.startTime).toISOString(),
       enddt: new Date(block.endTime).toISOString(),
-      body: block.description || '',
-      location: '',
+      body: this.getEventDetails(block),
+      location: block.location || '',
     });
+    if (block.allDay) {
+      params.set('allday', 'true');
+    }
+    if (block.attendees?.length) {
+      params.set('to', block.attendees.map(attendee => attendee.email).join(','));
+    }
 
     return `${baseURL}?${params.toString()}`;
   }
@@ -110,17 +144,18 @@ export class CalendarSyncService {
   // Sync single block to external calendar
   static async syncBlockToExternalCalendar(
     block: ScheduleBlock, 
-    provider: 'google' | 'outlook' | 'ics'
+    provider: 'google' | 'outlook' | 'ics',
+    timeZone: string = DEFAULT_TIMEZONE
   ): Promise<void> {
     switch (provider) {
       case 'google':
-        window.open(this.generateGoogleCalendarURL(block), '_blank');
+        window.open(this.generateGoogleCalendarURL(block, timeZone), '_blank');
         break;
       case 'outlook':
         window.open(this.generateOutlookCalendarURL(block), '_blank');
         break;
       case 'ics':
-        this.downloadICSFile([block], `${block.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.ics`);
+        this.downloadICSFile([block], `${block.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.ics`, timeZone);
         break;
     }
   }
@@ -0,0 +1,215 @@
+import { prisma } from '@/lib/prisma';
+import { HistoryService, type HistoryContext } from '@/lib/history';
+import { ScheduleOverlapService } from '@/lib/schedule-overlap';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/api-utils';
+
+// What happens to a category once its blocks are reassigned
+type ReassignMode = 'trash' | 'merge';
+
+export class CategoryService {
+  /**
+   * Check that `parentId` can be the parent of a category (`categoryId` is null for new ones).
+   * Returns the error message, or null when the parent is valid.
+   */
+  static async validateParent(workspaceId: string, categoryId: string | null, parentId: string): Promise<string | null> {
+    if (parentId === categoryId) {
+      return 'Una categoría no puede ser su propia categoría padre';
+    }
+
+    const categories = await prisma.category.findMany({
+      where: { workspaceId, deletedAt: null },
+      select: { id: true, parentId: true },
+    });
+    const parentById = new Map(categories.map(category => [category.id, category.parentId]));
+
+    if (!parentById.has(parentId)) {
+      return 'La categoría padre no existe';
+    }
+
+    // Walk up from the new parent: reaching the category itself would create a cycle
+    const visited = new Set<string>();
+    for (let id: string | null | undefined = parentId; id && !visited.has(id); id = parentById.get(id)) {
+      if (id === categoryId) {
+        return 'Una categoría no puede estar dentro de una de sus subcategorías';
+      }
+      visited.add(id);
+    }
+
+    return null;
+  }
+
+  /**
+   * Fail when the blocks of a category would overlap other blocks once they follow `allowOverlap`:
+   * the category stops allowing overlaps, or its blocks move to a category that does not allow them
+   */
+  static async assertNoOverlaps(workspaceId: string, id: string, allowOverlap: boolean): Promise<void> {
+    const conflicts = await ScheduleOverlapService.findCategoryOverlaps(workspaceId, id, allowOverlap);
+
+    if (conflicts.length > 0) {
+      throw new ConflictError(
+        'Algunos bloques de la categoría se superpondrían con otros bloques',
+        { conflicts },
+        'SCHEDULE_CONFLICT'
+      );
+    }
+  }
+
+  /**
+   * Set the order of the categories: each one takes its index in `ids` as position.
+   * Categories left out keep their position.
+   */
+  static async reorder(workspaceId: string, ids: string[]) {
+    if (new Set(ids).size !== ids.length) {
+      throw new ValidationError('Cada categoría solo puede aparecer una vez');
+    }
+
+    const count = await prisma.category.count({
+      where: { id: { in: ids }, workspaceId, deletedAt: null },
+    });
+
+    if (count !== ids.length) {
+      throw new NotFoundError('Alguna de las categorías no existe');
+    }
+
+    await prisma.$transaction(
+      ids.map((id, position) => prisma.category.update({ where: { id }, data: { position } }))
+    );
+
+    return prisma.category.findMany({
+      where: { workspaceId, deletedAt: null },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Archive or unarchive a category. Archived categories keep their blocks but are not
+   * offered for new ones.
+   */
+  static async setArchived(context: HistoryContext, id: string, archived: boolean) {
+    const category = await this.getCategory(context.workspaceId, id);
+
+    const updatedCategory = await prisma.category.update({
+      where: { id },
+      data: { archivedAt: archived ? category.archivedAt ?? new Date() : null },
+    });
+
+    await HistoryService.record(
+      context,
+      'category',
+      id,
+      'update',
+      HistoryService.snapshotCategory(category),
+      HistoryService.snapshotCategory(updatedCategory)
+    );
+
+    return updatedCategory;
+  }
+
+  /**
+   * Move the blocks of a category to `targetId` and move the category to the trash.
+   * Blocks already in the trash stay with it.
+   */
+  static async deleteAndReassign(context: HistoryContext, id: string, targetId: string) {
+    return this.reassign(context, id, targetId, 'trash');
+  }
+
+  /**
+   * Merge a category into `targetId`: everything that uses it (trashed blocks included) moves
+   * to the target and the category is deleted permanently.
+   */
+  static async merge(context: HistoryContext, id: string, targetId: string) {
+    return this.reassign(context, id, targetId, 'merge');
+  }
+
+  private static async reassign(context: HistoryContext, id: string, targetId: string, mode: ReassignMode) {
+    const { workspaceId } = context;
+    const category = await this.getCategory(workspaceId, id);
+    const target = await this.getTarget(workspaceId, id, targetId);
+
+    // The blocks take the overlap setting of the target
+    if (category.allowOverlap !== target.allowOverlap) {
+      await this.assertNoOverlaps(workspaceId, id, target.allowOverlap);
+    }
+
+    const blockWhere = { categoryId: id, ...(mode === 'trash' && { deletedAt: null }) };
+    const [blocks, children] = await Promise.all([
+      prisma.scheduleBlock.findMany({ where: blockWhere, include: { tags: true } }),
+      prisma.category.findMany({ where: { parentId: id } }),
+    ]);
+
+    // Everything moves in one transaction, sub-categories included
+    const [, , , , , removedCategory] = await prisma.$transaction([
+      prisma.scheduleBlock.updateMany({ where: blockWhere, data: { categoryId: targetId } }),
+      prisma.recurrenceException.updateMany({
+        where: { categoryId: id, ...(mode === 'trash' && { block: { deletedAt: null } }) },
+        data: { categoryId: targetId },
+      }),
+      prisma.timeEntry.updateMany({ where: { categoryId: id }, data: { categoryId: targetId } }),
+      prisma.weekTemplateBlock.updateMany({ where: { categoryId: id }, data: { categoryId: targetId } }),
+      prisma.category.updateMany({ where: { parentId: id }, data: { parentId: targetId } }),
+      mode === 'merge'
+        ? prisma.category.delete({ where: { id } })
+        : prisma.category.update({ where: { id }, data: { deletedAt: new Date() } }),
+    ]);
+
+    await HistoryService.recordMany(context, 'block', 'update', blocks.map(block => ({
+      entityId: block.id,
+      before: HistoryService.snapshotBlock(block),
+      after: HistoryService.snapshotBlock({ ...block, categoryId: targetId }),
+    })));
+
+    await HistoryService.recordMany(context, 'category', 'update', children.map(child => ({
+      entityId: child.id,
+      before: HistoryService.snapshotCategory(child),
+      after: HistoryService.snapshotCategory({ ...child, parentId: targetId }),
+    })));
+
+    await HistoryService.record(
+      context,
+      'category',
+      id,
+      mode === 'merge' ? 'purge' : 'delete',
+      HistoryService.snapshotCategory(category),
+      mode === 'merge' ? null : HistoryService.snapshotCategory(removedCategory)
+    );
+
+    return { category: target, movedBlocks: blocks.length };
+  }
+
+  private static async getCategory(workspaceId: string, id: string) {
+    const category = await prisma.category.findFirst({
+      where: { id, workspaceId, deletedAt: null },
+    });
+
+    if (!category) {
+      throw new NotFoundError('Categoría no encontrada');
+    }
+
+    return category;
+  }
+
+  private static async getTarget(workspaceId: string, id: string, targetId: string) {
+    if (targetId === id) {
+      throw new ValidationError('La categoría de destino debe ser distinta de la categoría eliminada');
+    }
+
+    const target = await prisma.category.findFirst({
+      where: { id: targetId, workspaceId, deletedAt: null },
+    });
+
+    if (!target) {
+      throw new NotFoundError('Categoría de destino no encontrada');
+    }
+
+    if (target.archivedAt) {
+      throw new ValidationError('La categoría de destino está archivada');
+    }
+
+    // Sub-categories move under the target, so the target cannot be one of them
+    if (await this.validateParent(workspaceId, id, targetId)) {
+      throw new ValidationError('La categoría de destino no puede ser una subcategoría de la categoría eliminada');
+    }
+
+    return target;
+  }
+}
@@ -0,0 +1,113 @@
+import { prisma } from '@/lib/prisma';
+import { NotFoundError, ValidationError } from '@/lib/api-utils';
+import type { CreateChecklistItemInput, UpdateChecklistItemInput } from '@/lib/validations';
+
+// Items of a block in their display order
+export const CHECKLIST_INCLUDE = {
+  checklistItems: { orderBy: { position: 'asc' as const } },
+};
+
+const MAX_ITEMS = 50;
+
+export class ChecklistService {
+  static async list(workspaceId: string, blockId: string) {
+    await this.assertBlock(workspaceId, blockId);
+
+    return prisma.blockChecklistItem.findMany({
+      where: { blockId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Add an item at the end of the checklist
+   */
+  static async create(workspaceId: string, blockId: string, input: CreateChecklistItemInput) {
+    await this.assertBlock(workspaceId, blockId);
+
+    const { _count, _max } = await prisma.blockChecklistItem.aggregate({
+      where: { blockId },
+      _count: true,
+      _max: { position: true },
+    });
+
+    if (_count >= MAX_ITEMS) {
+      throw new ValidationError(`Un bloque puede tener como máximo ${MAX_ITEMS} elementos`);
+    }
+
+    return prisma.blockChecklistItem.create({
+      data: {
+        blockId,
+        title: input.title,
+        done: input.done ?? false,
+        position: (_max.position ?? -1) + 1,
+      },
+    });
+  }
+
+  static async update(workspaceId: string, blockId: string, itemId: string, input: UpdateChecklistItemInput) {
+    await this.getItem(workspaceId, blockId, itemId);
+
+    return prisma.blockChecklistItem.update({
+      where: { id: itemId },
+      data: {
+        ...(input.title !== undefined && { title: input.title }),
+        ...(input.done !== undefined && { done: input.done }),
+      },
+    });
+  }
+
+  static async delete(workspaceId: string, blockId: string, itemId: string): Promise<void> {
+    await this.getItem(workspaceId, blockId, itemId);
+    await prisma.blockChecklistItem.delete({ where: { id: itemId } });
+  }
+
+  /**
+   * Set the order of the checklist: `ids` must list every item of the block
+   */
+  static async reorder(workspaceId: string, blockId: string, ids: string[]) {
+    await this.assertBlock(workspaceId, blockId);
+
+    const items = await prisma.blockChecklistItem.findMany({
+      where: { blockId },
+      select: { id: true },
+    });
+    const itemIds = new Set(items.map(item => item.id));
+
+    if (new Set(ids).size !== ids.length || ids.length !== itemIds.size || ids.some(id => !itemIds.has(id))) {
+      throw new ValidationError('El nuevo orden debe incluir cada elemento de la lista una sola vez');
+    }
+
+    await prisma.$transaction(
+      ids.map((id, position) => prisma.blockChecklistItem.update({ where: { id }, data: { position } }))
+    );
+
+    return prisma.blockChecklistItem.findMany({
+      where: { blockId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  private static async assertBlock(workspaceId: string, blockId: string): Promise<void> {
+    const block = await prisma.scheduleBlock.findFirst({
+      where: { id: blockId, workspaceId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!block) {
+      throw new NotFoundError('Bloque no encontrado');
+    }
+  }
+
+  private static async getItem(workspaceId: string, blockId: string, itemId: string) {
+    const item = await prisma.blockChecklistItem.findFirst({
+      where: { id: itemId, blockId, block: { workspaceId, deletedAt: null } },
+    });
+
+    if (!item) {
+      throw new NotFoundError('Elemento no encontrado');
+    }
+
+    return item;
+  }
+}
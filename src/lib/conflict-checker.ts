@@ -1,5 +1,10 @@
-import { ScheduleBlock } from '@/lib/types';
-import { areIntervalsOverlapping, format } from 'date-fns';
+import { ScheduleBlock, WorkingHoursRange } from '@/lib/types';
+import { areIntervalsOverlapping } from 'date-fns';
+import { DEFAULT_WORKING_HOURS, formatDate, formatTime, getWorkingRanges, isWithinWorkingHours } from '@/lib/utils';
+import { DEFAULT_TIMEZONE, addZonedDays, fromZonedParts, getZonedParts, startOfZonedDay } from '@/lib/timezone';
+
+// How far ahead findNextAvailableSlot looks for a free slot
+const SEARCH_DAYS = 14;
 
 export interface ConflictResult {
   hasConflict: boolean;
@@ -9,9 +14,11 @@ export interface ConflictResult {
 
 export class ConflictChecker {
   static checkForConflicts(
-    newBlock: { startTime: Date; endTime: Date },
+    newBlock: { startTime: Date; endTime: Date; allDay?: boolean; allowOverlap?: boolean },
     existingBlocks: ScheduleBlock[],
-    excludeBlockId?: string
+    excludeBlockId?: string,
+    timeZone: string = DEFAULT_TIMEZONE,
+    workingHours: WorkingHoursRange[] = DEFAULT_WORKING_HOURS
   ): ConflictResult {
     const conflictingBlocks = existingBlocks.filter(block => {
       // Skip the block being edited
@@ -19,6 +26,16 @@ export class ConflictChecker {
         return false;
       }
 
+      // All-day events never conflict with other blocks
+      if (newBlock.allDay || block.allDay) {
+        return false;
+      }
+
+      // Neither do blocks that allow overlaps, themselves or through their category
+      if (newBlock.allowOverlap || block.allowOverlap || block.category?.allowOverlap) {
+        return false;
+      }
+
       return areIntervalsOverlapping(
         { start: newBlock.startTime, end: newBlock.endTime },
         { start: new Date(block.startTime), end: new Date(block.endTime) },
@@ -27,7 +44,9 @@ export class ConflictChecker {
     });
 
     const hasConflict = conflictingBlocks.length > 0;
-    const suggestions = hasConflict ? this.generateSuggestions(newBlock, conflictingBlocks) : [];
+    const suggestions = hasConflict
+      ? this.generateSuggestions(newBlock, conflictingBlocks, existingBlocks, excludeBlockId, timeZone, workingHours)
+      : [];
 
     return {
       hasConflict,
@@ -36,69 +55,101 @@ export class ConflictChecker {
     };
   }
 
+  // Only moves that keep the block within working hours are suggested
   private static generateSuggestions(
     newBlock: { startTime: Date; endTime: Date },
-    conflictingBlocks: ScheduleBlock[]
+    conflictingBlocks: ScheduleBlock[],
+    existingBlocks: ScheduleBlock[],
+    excludeBlockId: string | undefined,
+    timeZone: string,
+    workingHours: WorkingHoursRange[]
   ): string[] {
     const suggestions: string[] = [];
+    const duration = newBlock.endTime.getTime() - newBlock.startTime.getTime();
 
     conflictingBlocks.forEach(conflict => {
       const conflictStart = new Date(conflict.startTime);
       const conflictEnd = new Date(conflict.endTime);
 
       // Suggest time before the conflicting block
-      if (conflictStart > newBlock.startTime) {
+      if (
+        conflictStart > newBlock.startTime &&
+        isWithinWorkingHours(new Date(conflictStart.getTime() - duration), conflictStart, workingHours, timeZone)
+      ) {
         suggestions.push(
-          `Mover antes de "${conflict.title}" (terminar a las ${format(conflictStart, 'HH:mm')})`
+          `Mover antes de "${conflict.title}" (terminar a las ${formatTime(conflictStart, timeZone)})`
         );
       }
 
       // Suggest time after the conflicting block
-      if (conflictEnd < newBlock.endTime) {
+      if (
+        conflictEnd < newBlock.endTime &&
+        isWithinWorkingHours(conflictEnd, new Date(conflictEnd.getTime() + duration), workingHours, timeZone)
+      ) {
         suggestions.push(
-          `Mover después de "${conflict.title}" (comenzar a las ${format(conflictEnd, 'HH:mm')})`
+          `Mover después de "${conflict.title}" (comenzar a las ${formatTime(conflictEnd, timeZone)})`
         );
       }
     });
 
+    // Otherwise, the first free working time from the block on
+    if (suggestions.length === 0) {
+      const otherBlocks = existingBlocks.filter(block => block.id !== excludeBlockId);
+      const nextSlot = this.findNextAvailableSlot(duration / 60000, newBlock.startTime, otherBlocks, workingHours, timeZone);
+      if (nextSlot) {
+        suggestions.push(
+          `Mover al siguiente hueco libre (${formatDate(nextSlot, 'day', timeZone)}, ${formatTime(nextSlot, timeZone)})`
+        );
+      }
+    }
+
     // Remove duplicates
     return [...new Set(suggestions)];
   }
 
+  /**
+   * Earliest start from preferredStart on where a block of the duration fits within one
+   * working range of its day without overlapping other blocks (all-day events and blocks
+   * that allow overlaps don't count).
+   * Looks up to two weeks ahead
+   */
   static findNextAvailableSlot(
     duration: number, // in minutes
     preferredStart: Date,
     existingBlocks: ScheduleBlock[],
-    workingHours: { start: number; end: number } = { start: 8, end: 18 }
+    workingHours: WorkingHoursRange[] = DEFAULT_WORKING_HOURS,
+    timeZone: string = DEFAULT_TIMEZONE
   ): Date | null {
-    const sortedBlocks = [...existingBlocks].sort((a, b) => 
-      new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
-    );
-
-    let currentTime = new Date(preferredStart);
-    
-    // Ensure we start within working hours
-    if (currentTime.getHours() < workingHours.start) {
-      currentTime.setHours(workingHours.start, 0, 0, 0);
-    }
-
-    for (const block of sortedBlocks) {
-      const blockStart = new Date(block.startTime);
-      const proposedEnd = new Date(currentTime.getTime() + duration * 60000);
-
-      // Check if we can fit before this block
-      if (proposedEnd <= blockStart) {
-        return currentTime;
+    const busy = existingBlocks
+      .filter(block => !block.allDay && !block.allowOverlap && !block.category?.allowOverlap)
+      .map(block => ({ start: new Date(block.startTime), end: new Date(block.endTime) }))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+    const durationMs = duration * 60000;
+
+    let day = startOfZonedDay(preferredStart, timeZone);
+    for (let i = 0; i < SEARCH_DAYS; i++, day = addZonedDays(day, 1, timeZone)) {
+      const { year, month, day: dayOfMonth, weekday } = getZonedParts(day, timeZone);
+
+      for (const range of getWorkingRanges(workingHours, weekday)) {
+        const rangeStart = fromZonedParts({ year, month, day: dayOfMonth, minute: range.startMinutes }, timeZone);
+        const rangeEnd = fromZonedParts({ year, month, day: dayOfMonth, minute: range.endMinutes }, timeZone);
+        let candidate = rangeStart < preferredStart ? new Date(preferredStart) : rangeStart;
+
+        // Move past the blocks in the way until a gap is long enough
+        for (const block of busy) {
+          if (block.end <= candidate) {
+            continue;
+          }
+          if (block.start.getTime() >= candidate.getTime() + durationMs || block.start >= rangeEnd) {
+            break;
+          }
+          candidate = block.end;
+        }
+
+        if (candidate.getTime() + durationMs <= rangeEnd.getTime()) {
+          return candidate;
+        }
       }
-
-      // Move to after this block
-      currentTime = new Date(block.endTime);
-    }
-
-    // Check if we can fit after all blocks
-    const proposedEnd = new Date(currentTime.getTime() + duration * 60000);
-    if (proposedEnd.getHours() <= workingHours.end) {
-      return currentTime;
     }
 
     return null; // No available slot found
@@ -0,0 +1,408 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ScheduleOverlapService } from '@/lib/schedule-overlap';
+import { RecurringSeriesService, type SeriesBlock } from '@/lib/recurring-series';
+import { TagService } from '@/lib/tags';
+import { CHECKLIST_INCLUDE } from '@/lib/checklists';
+import { ATTENDEES_INCLUDE, AttendeeService } from '@/lib/attendees';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/api-utils';
+import type { WorkspaceAccess } from '@/lib/workspaces';
+
+export type HistoryEntityType = 'block' | 'category';
+export type HistoryAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'revert';
+export type HistorySource = 'web' | 'api' | 'system';
+export type HistoryVersion = 'before' | 'after';
+
+// Clients identify themselves with this header; anything else is recorded as 'api'
+export const HISTORY_SOURCE_HEADER = 'x-planico-source';
+// Changes answer with the id of the entry they recorded, so that clients can undo exactly that change
+export const HISTORY_ENTRY_HEADER = 'x-planico-history-entry';
+
+export interface BlockSnapshot {
+  title: string;
+  description: string | null;
+  startTime: string;
+  endTime: string;
+  allDay?: boolean;
+  allowOverlap?: boolean;
+  categoryId: string;
+  recurrenceRule: string | null;
+  status: string;
+  deletedAt: string | null;
+  tags?: string[]; // Names; missing when the tags were not loaded with the block
+  location?: string | null;
+  meetingUrl?: string | null;
+  attendees?: string[]; // Emails; missing when the attendees were not loaded with the block
+  originalStartTime?: string; // Set when the change only touched one occurrence of a recurring block
+  cancelled?: boolean;
+}
+
+export interface CategorySnapshot {
+  name: string;
+  color: string;
+  parentId?: string | null;
+  allowOverlap?: boolean;
+  archivedAt?: string | null;
+  deletedAt: string | null;
+}
+
+type Snapshot = BlockSnapshot | CategorySnapshot;
+
+// Who made a change, where, and from which client
+export interface HistoryContext {
+  workspaceId: string;
+  actorId: string | null;
+  source: HistorySource;
+}
+
+interface SnapshotBlock {
+  title: string;
+  description: string | null;
+  startTime: Date;
+  endTime: Date;
+  allDay?: boolean;
+  allowOverlap?: boolean;
+  categoryId: string;
+  recurrenceRule: string | null;
+  status: string;
+  deletedAt?: Date | null;
+  tags?: { name: string }[];
+  location?: string | null;
+  meetingUrl?: string | null;
+  attendees?: { email: string }[];
+}
+
+export class HistoryService {
+  static getContext(request: NextRequest, access: WorkspaceAccess): HistoryContext {
+    const source = request.headers.get(HISTORY_SOURCE_HEADER);
+    return {
+      workspaceId: access.workspaceId,
+      actorId: access.user.id,
+      source: source === 'web' ? 'web' : 'api',
+    };
+  }
+
+  /**
+   * Changes made by the app itself (automatic purges, default categories)
+   */
+  static getSystemContext(workspaceId: string): HistoryContext {
+    return { workspaceId, actorId: null, source: 'system' };
+  }
+
+  static snapshotBlock(block: SnapshotBlock, originalStartTime?: Date, cancelled?: boolean): BlockSnapshot {
+    return {
+      title: block.title,
+      description: block.description,
+      startTime: block.startTime.toISOString(),
+      endTime: block.endTime.toISOString(),
+      ...(block.allDay !== undefined && { allDay: block.allDay }),
+      ...(block.allowOverlap !== undefined && { allowOverlap: block.allowOverlap }),
+      categoryId: block.categoryId,
+      recurrenceRule: block.recurrenceRule,
+      status: block.status,
+      deletedAt: block.deletedAt?.toISOString() ?? null,
+      ...(block.tags && { tags: block.tags.map(tag => tag.name) }),
+      ...(block.location !== undefined && { location: block.location }),
+      ...(block.meetingUrl !== undefined && { meetingUrl: block.meetingUrl }),
+      ...(block.attendees && { attendees: block.attendees.map(attendee => attendee.email) }),
+      ...(originalStartTime && { originalStartTime: originalStartTime.toISOString() }),
+      ...(cancelled && { cancelled }),
+    };
+  }
+
+  static snapshotCategory(category: {
+    name: string;
+    color: string;
+    parentId?: string | null;
+    allowOverlap?: boolean;
+    archivedAt?: Date | null;
+    deletedAt?: Date | null;
+  }): CategorySnapshot {
+    return {
+      name: category.name,
+      color: category.color,
+      parentId: category.parentId ?? null,
+      ...(category.allowOverlap !== undefined && { allowOverlap: category.allowOverlap }),
+      archivedAt: category.archivedAt?.toISOString() ?? null,
+      deletedAt: category.deletedAt?.toISOString() ?? null,
+    };
+  }
+
+  static async record(
+    context: HistoryContext,
+    entityType: HistoryEntityType,
+    entityId: string,
+    action: HistoryAction,
+    before: Snapshot | null,
+    after: Snapshot | null
+  ): Promise<string> {
+    const entry = await prisma.changeHistory.create({
+      data: {
+        ...context,
+        entityType,
+        entityId,
+        action,
+        before: before && JSON.stringify(before),
+        after: after && JSON.stringify(after),
+      },
+    });
+
+    return entry.id;
+  }
+
+  static withEntry(response: NextResponse, entryId: string): NextResponse {
+    response.headers.set(HISTORY_ENTRY_HEADER, entryId);
+    return response;
+  }
+
+  static async recordMany(
+    context: HistoryContext,
+    entityType: HistoryEntityType,
+    action: HistoryAction,
+    changes: { entityId: string; before: Snapshot | null; after: Snapshot | null }[]
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    await prisma.changeHistory.createMany({
+      data: changes.map(({ entityId, before, after }) => ({
+        ...context,
+        entityType,
+        entityId,
+        action,
+        before: before && JSON.stringify(before),
+        after: after && JSON.stringify(after),
+      })),
+    });
+  }
+
+  /**
+   * History of a block or category, most recent first
+   */
+  static async getHistory(workspaceId: string, entityType: HistoryEntityType, entityId: string) {
+    const entries = await prisma.changeHistory.findMany({
+      where: { workspaceId, entityType, entityId },
+      include: { actor: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return entries.map(entry => ({
+      ...entry,
+      before: entry.before ? JSON.parse(entry.before) as Snapshot : null,
+      after: entry.after ? JSON.parse(entry.after) as Snapshot : null,
+    }));
+  }
+
+  /**
+   * Bring a block (or one of its occurrences) back to the version recorded by a history entry:
+   * the one after the change (default) or the one before it (undo).
+   * With ifLatest, fails when someone else has changed the block since the entry.
+   */
+  static async revertBlock(
+    context: HistoryContext,
+    blockId: string,
+    entryId: string,
+    version: HistoryVersion = 'after',
+    ifLatest = false
+  ) {
+    const entry = await prisma.changeHistory.findFirst({
+      where: { id: entryId, workspaceId: context.workspaceId, entityType: 'block', entityId: blockId },
+    });
+
+    if (!entry) {
+      throw new NotFoundError('Versión no encontrada');
+    }
+
+    const recordedVersion = entry[version];
+    if (!recordedVersion) {
+      throw new ValidationError('Esta versión no se puede restaurar');
+    }
+
+    const snapshot = JSON.parse(recordedVersion) as BlockSnapshot;
+    if (snapshot.deletedAt) {
+      throw new ValidationError('Esta versión corresponde al bloque eliminado. Restáuralo desde la papelera');
+    }
+
+    if (ifLatest) {
+      await this.assertNoLaterChanges(context, entry, snapshot.originalStartTime);
+    }
+
+    // Trashed blocks can be reverted too (they come back from the trash)
+    const block = await prisma.scheduleBlock.findFirst({
+      where: { id: blockId, workspaceId: context.workspaceId },
+      include: { category: true, tags: true, ...CHECKLIST_INCLUDE, ...ATTENDEES_INCLUDE },
+    });
+
+    if (!block) {
+      throw new NotFoundError('Bloque no encontrado');
+    }
+
+    const category = await prisma.category.findFirst({
+      where: { id: snapshot.categoryId, workspaceId: context.workspaceId, deletedAt: null },
+    });
+
+    if (!category) {
+      throw new ValidationError('La categoría de esta versión ya no existe');
+    }
+
+    const startTime = new Date(snapshot.startTime);
+    const endTime = new Date(snapshot.endTime);
+
+    if (snapshot.originalStartTime) {
+      return this.revertOccurrence(context, block, new Date(snapshot.originalStartTime), snapshot, category);
+    }
+
+    const overlappingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+      context.workspaceId,
+      ScheduleOverlapService.getBlockIntervals({
+        startTime,
+        endTime,
+        recurrenceRule: snapshot.recurrenceRule,
+        allDay: snapshot.allDay ?? block.allDay,
+        timeZone: block.timeZone,
+        allowOverlap: snapshot.allowOverlap ?? block.allowOverlap,
+        category,
+      }),
+      blockId
+    );
+
+    if (overlappingBlocks.length > 0) {
+      throw new ConflictError(
+        'La versión restaurada se superpondría con otro bloque existente',
+        { conflictingBlocks: overlappingBlocks }
+      );
+    }
+
+    // Exceptions refer to the original occurrence times, so they are dropped when those change
+    const seriesChanged = Boolean(block.recurrenceRule) && (
+      startTime.getTime() !== block.startTime.getTime() ||
+      endTime.getTime() !== block.endTime.getTime() ||
+      snapshot.recurrenceRule !== block.recurrenceRule
+    );
+
+    const revertedBlock = await prisma.scheduleBlock.update({
+      where: { id: blockId },
+      data: {
+        title: snapshot.title,
+        description: snapshot.description,
+        startTime,
+        endTime,
+        ...(snapshot.allDay !== undefined && { allDay: snapshot.allDay }),
+        ...(snapshot.allowOverlap !== undefined && { allowOverlap: snapshot.allowOverlap }),
+        categoryId: snapshot.categoryId,
+        recurrenceRule: snapshot.recurrenceRule,
+        status: snapshot.status,
+        deletedAt: null,
+        ...(snapshot.location !== undefined && { location: snapshot.location }),
+        ...(snapshot.meetingUrl !== undefined && { meetingUrl: snapshot.meetingUrl }),
+        ...(snapshot.tags && { tags: { set: await TagService.resolve(context.workspaceId, snapshot.tags) } }),
+        ...(snapshot.attendees && { attendees: AttendeeService.toReplace(snapshot.attendees) }),
+        ...(seriesChanged && { exceptions: { deleteMany: {} } }),
+      },
+      include: { category: true, tags: true, ...CHECKLIST_INCLUDE, ...ATTENDEES_INCLUDE },
+    });
+
+    const revertEntryId = await this.record(
+      context, 'block', blockId, 'revert', this.snapshotBlock(block), this.snapshotBlock(revertedBlock)
+    );
+
+    return { block: revertedBlock, entryId: revertEntryId };
+  }
+
+  /**
+   * Undoing a change must not overwrite what other people did afterwards: only later entries
+   * of the same user (e.g. the changes undone before this one) are allowed. For an occurrence,
+   * only changes of that occurrence or of the whole series count.
+   */
+  private static async assertNoLaterChanges(
+    context: HistoryContext,
+    entry: { entityId: string; createdAt: Date },
+    originalStartTime?: string
+  ): Promise<void> {
+    const laterEntries = await prisma.changeHistory.findMany({
+      where: {
+        workspaceId: context.workspaceId,
+        entityType: 'block',
+        entityId: entry.entityId,
+        createdAt: { gt: entry.createdAt },
+      },
+      select: { actorId: true, before: true, after: true },
+    });
+
+    const othersChanged = laterEntries.some(laterEntry => {
+      if (laterEntry.actorId === context.actorId) {
+        return false;
+      }
+
+      const version = JSON.parse((laterEntry.after ?? laterEntry.before)!) as BlockSnapshot;
+      return !originalStartTime || !version.originalStartTime || version.originalStartTime === originalStartTime;
+    });
+
+    if (othersChanged) {
+      throw new ConflictError('Otra persona ha cambiado el bloque después; este cambio ya no se puede deshacer');
+    }
+  }
+
+  private static async revertOccurrence<B extends SeriesBlock & { category?: unknown }>(
+    context: HistoryContext,
+    block: B,
+    originalStartTime: Date,
+    version: BlockSnapshot,
+    category: { allowOverlap: boolean }
+  ) {
+    RecurringSeriesService.assertOccurrence(block, originalStartTime);
+
+    const startTime = new Date(version.startTime);
+    const endTime = new Date(version.endTime);
+
+    const overlappingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+      context.workspaceId,
+      ScheduleOverlapService.getBlockIntervals({
+        startTime,
+        endTime,
+        allDay: block.allDay,
+        allowOverlap: block.allowOverlap,
+        category,
+      }),
+      block.id,
+      originalStartTime
+    );
+
+    if (overlappingBlocks.length > 0) {
+      throw new ConflictError(
+        'La versión restaurada se superpondría con otro bloque existente',
+        { conflictingBlocks: overlappingBlocks }
+      );
+    }
+
+    const previousOccurrence = await RecurringSeriesService.getOccurrence(block, originalStartTime);
+
+    const exception = await RecurringSeriesService.updateOccurrence(block, originalStartTime, {
+      title: version.title,
+      description: version.description,
+      startTime,
+      endTime,
+      categoryId: version.categoryId,
+      status: version.status,
+    });
+
+    const revertedOccurrence = RecurringSeriesService.applyException(block, {
+      startTime,
+      endTime,
+      originalStartTime,
+      exception,
+    });
+
+    const entryId = await this.record(
+      context,
+      'block',
+      block.id,
+      'revert',
+      this.snapshotBlock(previousOccurrence, originalStartTime, previousOccurrence.cancelled),
+      this.snapshotBlock(revertedOccurrence, originalStartTime)
+    );
+
+    return { block: revertedOccurrence, entryId };
+  }
+}
@@ -1,35 +1,98 @@
-import { ScheduleBlock } from '@/lib/types';
-import { differenceInMinutes, startOfWeek, endOfWeek, isWithinInterval } from 'date-fns';
+import { ScheduleBlock, BlockStatus, TimeEntry, Category, WeekDay } from '@/lib/types';
+import { differenceInMinutes, isWithinInterval } from 'date-fns';
+import { getWeekStart, getWeekEnd } from '@/lib/utils';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
 
 export interface ProductivityMetrics {
   totalBlocks: number;
   totalMinutes: number;
   averageBlockDuration: number;
+  // Parents include the time of their sub-categories, so only top-level percentages add up to 100
   categoryBreakdown: Record<string, {
     name: string;
     color: string;
+    parentId: string | null;
     blocks: number;
     minutes: number;
     percentage: number;
+    completedMinutes: number;
+    efficiency: number;
+    trackedMinutes: number;
+    variance: number; // Tracked minus planned minutes
+  }>;
+  // Keyed by tag name; a block counts in each of its tags, so percentages may add up to more than 100
+  tagBreakdown: Record<string, {
+    blocks: number;
+    minutes: number;
+    percentage: number;
+    completedMinutes: number;
+    efficiency: number;
   }>;
   weeklyProgress: {
     planned: number;
     completed: number;
+    plannedMinutes: number;
+    completedMinutes: number;
     efficiency: number;
   };
+  timeTracking: {
+    plannedMinutes: number;
+    trackedMinutes: number;
+    variance: number; // Tracked minus planned minutes
+  };
 }
 
+// How much of a block's planned time counts as completed for each status
+export const STATUS_COMPLETION_WEIGHT: Record<BlockStatus, number> = {
+  planned: 0,
+  done: 1,
+  partial: 0.5,
+  skipped: 0,
+};
+
 export class MetricsCalculator {
+  /**
+   * Share of a block's time that counts as completed. Planned and partial blocks with a
+   * checklist count the share of done items when it is higher than the status weight.
+   */
+  static getCompletionWeight(block: ScheduleBlock): number {
+    const weight = STATUS_COMPLETION_WEIGHT[block.status] ?? 0;
+    const items = block.checklistItems ?? [];
+
+    if ((block.status === 'planned' || block.status === 'partial') && items.length > 0) {
+      return Math.max(weight, items.filter(item => item.done).length / items.length);
+    }
+
+    return weight;
+  }
+
+  static calculateEfficiency(completedMinutes: number, plannedMinutes: number): number {
+    return plannedMinutes > 0 ? Math.round((completedMinutes / plannedMinutes) * 100) : 0;
+  }
+
+  /**
+   * Minutes of a time entry inside the given range (running entries count until now)
+   */
+  static getTrackedMinutes(entry: TimeEntry, rangeStart: Date, rangeEnd: Date, now: Date = new Date()): number {
+    const start = Math.max(new Date(entry.startTime).getTime(), rangeStart.getTime());
+    const end = Math.min(entry.endTime ? new Date(entry.endTime).getTime() : now.getTime(), rangeEnd.getTime());
+    return end > start ? Math.round((end - start) / 60000) : 0;
+  }
+
   static calculateWeeklyMetrics(
     blocks: ScheduleBlock[], 
-    weekDate: Date = new Date()
+    weekDate: Date = new Date(),
+    timeEntries: TimeEntry[] = [],
+    categories: Category[] = [],
+    timeZone: string = DEFAULT_TIMEZONE,
+    weekStartsOn: WeekDay = 0
   ): ProductivityMetrics {
-    const weekStart = startOfWeek(weekDate, { weekStartsOn: 0 });
-    const weekEnd = endOfWeek(weekDate, { weekStartsOn: 0 });
+    const weekStart = getWeekStart(weekDate, timeZone, weekStartsOn);
+    const weekEnd = getWeekEnd(weekDate, timeZone, weekStartsOn);
 
-    // Filter blocks for current week
+    // Filter blocks for current week (all-day events don't count as planned time)
     const weekBlocks = blocks.filter(block => 
-      isWithinInterval(new Date(block.startTime), { start: weekStart, end: weekEnd })
+      !block.allDay && isWithinInterval(new Date(block.startTime), { start: weekStart, end: weekEnd })
     );
 
     const totalBlocks = weekBlocks.length;
@@ -39,45 +102,98 @@ export class MetricsCalculator {
 
     const averageBlockDuration = totalBlocks > 0 ? totalMinutes / totalBlocks : 0;
 
+    let completedBlocks = 0;
+    let completedMinutes = 0;
+
     // Category breakdown
     const categoryMap = new Map<string, {
       name: string;
       color: string;
+      parentId: string | null;
       blocks: number;
       minutes: number;
+      completedMinutes: number;
     }>();
 
     weekBlocks.forEach(block => {
       const categoryId = block.categoryId;
       const duration = differenceInMinutes(new Date(block.endTime), new Date(block.startTime));
+      const weight = this.getCompletionWeight(block);
+
+      completedBlocks += weight;
+      completedMinutes += duration * weight;
       
       if (categoryMap.has(categoryId)) {
         const existing = categoryMap.get(categoryId)!;
         existing.blocks += 1;
         existing.minutes += duration;
+        existing.completedMinutes += duration * weight;
       } else {
         categoryMap.set(categoryId, {
           name: block.category.name,
           color: block.category.color,
+          parentId: block.category.parentId ?? null,
           blocks: 1,
           minutes: duration,
+          completedMinutes: duration * weight,
         });
       }
     });
 
+    const tagBreakdown: ProductivityMetrics['tagBreakdown'] = {};
+    weekBlocks.forEach(block => {
+      this.addBlockToTags(tagBreakdown, block);
+    });
+    this.updateTagPercentages(tagBreakdown, totalMinutes);
+
     const categoryBreakdown: ProductivityMetrics['categoryBreakdown'] = {};
     categoryMap.forEach((data, categoryId) => {
       categoryBreakdown[categoryId] = {
         ...data,
-        percentage: totalMinutes > 0 ? (data.minutes / totalMinutes) * 100 : 0,
+        percentage: 0,
+        efficiency: 0,
+        trackedMinutes: 0,
+        variance: 0,
       };
     });
 
-    // Weekly progress (simplified - could be enhanced with completion tracking)
+    // Tracked time per category (entries without category only count in the total)
+    let trackedMinutes = 0;
+    timeEntries.forEach(entry => {
+      const minutes = this.getTrackedMinutes(entry, weekStart, weekEnd);
+      if (minutes === 0) return;
+
+      trackedMinutes += minutes;
+      if (!entry.categoryId) return;
+
+      if (!categoryBreakdown[entry.categoryId]) {
+        categoryBreakdown[entry.categoryId] = {
+          name: entry.category?.name ?? 'Sin categoría',
+          color: entry.category?.color ?? '#6B7280',
+          parentId: entry.category?.parentId ?? null,
+          blocks: 0,
+          minutes: 0,
+          percentage: 0,
+          completedMinutes: 0,
+          efficiency: 0,
+          trackedMinutes: 0,
+          variance: 0,
+        };
+      }
+
+      categoryBreakdown[entry.categoryId].trackedMinutes += minutes;
+    });
+
+    this.rollUpCategories(categoryBreakdown, categories);
+    this.updateCategoryPercentages(categoryBreakdown, totalMinutes);
+
+    // Weekly progress: done blocks count fully and partially done ones by half
     const weeklyProgress = {
       planned: totalBlocks,
-      completed: totalBlocks, // For now, assume all blocks are completed
-      efficiency: totalBlocks > 0 ? 100 : 0,
+      completed: completedBlocks,
+      plannedMinutes: totalMinutes,
+      completedMinutes,
+      efficiency: this.calculateEfficiency(completedMinutes, totalMinutes),
     };
 
     return {
@@ -85,19 +201,32 @@ export class MetricsCalculator {
       totalMinutes,
       averageBlockDuration,
       categoryBreakdown,
+      tagBreakdown,
       weeklyProgress,
+      timeTracking: {
+        plannedMinutes: totalMinutes,
+        trackedMinutes,
+        variance: trackedMinutes - totalMinutes,
+      },
     };
   }
 
   static updateMetricsAfterBlockCreation(
     currentMetrics: ProductivityMetrics,
-    newBlock: ScheduleBlock
+    newBlock: ScheduleBlock,
+    categories: Category[] = []
   ): ProductivityMetrics {
+    // All-day events don't count as planned time
+    if (newBlock.allDay) {
+      return currentMetrics;
+    }
+
     const blockDuration = differenceInMinutes(
       new Date(newBlock.endTime), 
       new Date(newBlock.startTime)
     );
 
+    const weight = this.getCompletionWeight(newBlock);
     const updatedMetrics = { ...currentMetrics };
     
     // Update totals
@@ -105,31 +234,145 @@ export class MetricsCalculator {
     updatedMetrics.totalMinutes += blockDuration;
     updatedMetrics.averageBlockDuration = updatedMetrics.totalMinutes / updatedMetrics.totalBlocks;
 
-    // Update category breakdown
-    const categoryId = newBlock.categoryId;
-    if (updatedMetrics.categoryBreakdown[categoryId]) {
-      updatedMetrics.categoryBreakdown[categoryId].blocks += 1;
-      updatedMetrics.categoryBreakdown[categoryId].minutes += blockDuration;
-    } else {
-      updatedMetrics.categoryBreakdown[categoryId] = {
+    // Update category breakdown (the block's category and the ones above it)
+    const categoryBreakdown = Object.fromEntries(
+      Object.entries(updatedMetrics.categoryBreakdown).map(([id, category]) => [id, { ...category }])
+    );
+    const blockBreakdown = {
+      [newBlock.categoryId]: {
         name: newBlock.category.name,
         color: newBlock.category.color,
+        parentId: newBlock.category.parentId ?? null,
         blocks: 1,
         minutes: blockDuration,
         percentage: 0,
-      };
-    }
-
-    // Recalculate percentages
-    Object.keys(updatedMetrics.categoryBreakdown).forEach(catId => {
-      updatedMetrics.categoryBreakdown[catId].percentage = 
-        (updatedMetrics.categoryBreakdown[catId].minutes / updatedMetrics.totalMinutes) * 100;
+        completedMinutes: blockDuration * weight,
+        efficiency: 0,
+        trackedMinutes: 0,
+        variance: 0,
+      },
+    };
+    this.rollUpCategories(blockBreakdown, categories, categoryBreakdown);
+    Object.entries(blockBreakdown).forEach(([id, category]) => {
+      const existing = categoryBreakdown[id];
+      if (existing) {
+        existing.blocks += category.blocks;
+        existing.minutes += category.minutes;
+        existing.completedMinutes += category.completedMinutes;
+      } else {
+        categoryBreakdown[id] = category;
+      }
     });
+    this.updateCategoryPercentages(categoryBreakdown, updatedMetrics.totalMinutes);
+    updatedMetrics.categoryBreakdown = categoryBreakdown;
+
+    // Update tag breakdown
+    const tagBreakdown = Object.fromEntries(
+      Object.entries(updatedMetrics.tagBreakdown).map(([name, tag]) => [name, { ...tag }])
+    );
+    this.addBlockToTags(tagBreakdown, newBlock);
+    this.updateTagPercentages(tagBreakdown, updatedMetrics.totalMinutes);
+    updatedMetrics.tagBreakdown = tagBreakdown;
 
     // Update weekly progress
-    updatedMetrics.weeklyProgress.planned += 1;
-    updatedMetrics.weeklyProgress.completed += 1;
+    const weeklyProgress = { ...updatedMetrics.weeklyProgress };
+    weeklyProgress.planned += 1;
+    weeklyProgress.completed += weight;
+    weeklyProgress.plannedMinutes += blockDuration;
+    weeklyProgress.completedMinutes += blockDuration * weight;
+    weeklyProgress.efficiency = this.calculateEfficiency(weeklyProgress.completedMinutes, weeklyProgress.plannedMinutes);
+    updatedMetrics.weeklyProgress = weeklyProgress;
+
+    updatedMetrics.timeTracking = {
+      plannedMinutes: updatedMetrics.timeTracking.plannedMinutes + blockDuration,
+      trackedMinutes: updatedMetrics.timeTracking.trackedMinutes,
+      variance: updatedMetrics.timeTracking.variance - blockDuration,
+    };
 
     return updatedMetrics;
   }
+
+  /**
+   * Add the time of every category to the categories above it. `known` lists more categories
+   * whose parent can be followed (names and colors of new parents come from `categories`).
+   */
+  private static rollUpCategories(
+    categoryBreakdown: ProductivityMetrics['categoryBreakdown'],
+    categories: Category[],
+    known: ProductivityMetrics['categoryBreakdown'] = {}
+  ): void {
+    const categoryById = new Map(categories.map(category => [category.id, category]));
+    const getParentId = (id: string) =>
+      categoryBreakdown[id]?.parentId ?? known[id]?.parentId ?? categoryById.get(id)?.parentId ?? null;
+
+    // Own time is read before anything is added, so nothing is counted twice
+    const ownTime = Object.entries(categoryBreakdown).map(([id, category]) => ({ id, ...category }));
+
+    ownTime.forEach(({ id, blocks, minutes, completedMinutes, trackedMinutes }) => {
+      const visited = new Set([id]);
+      for (let parentId = getParentId(id); parentId && !visited.has(parentId); parentId = getParentId(parentId)) {
+        visited.add(parentId);
+
+        const parent = categoryById.get(parentId) ?? known[parentId];
+        if (!categoryBreakdown[parentId]) {
+          // A parent that cannot be named ends the chain
+          if (!parent) break;
+
+          categoryBreakdown[parentId] = {
+            name: parent.name,
+            color: parent.color,
+            parentId: parent.parentId ?? null,
+            blocks: 0,
+            minutes: 0,
+            percentage: 0,
+            completedMinutes: 0,
+            efficiency: 0,
+            trackedMinutes: 0,
+            variance: 0,
+          };
+        }
+
+        const entry = categoryBreakdown[parentId];
+        entry.blocks += blocks;
+        entry.minutes += minutes;
+        entry.completedMinutes += completedMinutes;
+        entry.trackedMinutes += trackedMinutes;
+      }
+    });
+  }
+
+  private static updateCategoryPercentages(categoryBreakdown: ProductivityMetrics['categoryBreakdown'], totalMinutes: number): void {
+    Object.values(categoryBreakdown).forEach(category => {
+      category.percentage = totalMinutes > 0 ? (category.minutes / totalMinutes) * 100 : 0;
+      category.efficiency = this.calculateEfficiency(category.completedMinutes, category.minutes);
+      category.variance = category.trackedMinutes - category.minutes;
+    });
+  }
+
+  private static addBlockToTags(tagBreakdown: ProductivityMetrics['tagBreakdown'], block: ScheduleBlock): void {
+    const duration = differenceInMinutes(new Date(block.endTime), new Date(block.startTime));
+    const weight = this.getCompletionWeight(block);
+
+    block.tags?.forEach(tag => {
+      const existing = tagBreakdown[tag.name] ?? {
+        blocks: 0,
+        minutes: 0,
+        percentage: 0,
+        completedMinutes: 0,
+        efficiency: 0,
+      };
+
+      existing.blocks += 1;
+      existing.minutes += duration;
+      existing.completedMinutes += duration * weight;
+      tagBreakdown[tag.name] = existing;
+    });
+  }
+
+  private static updateTagPercentages(tagBreakdown: ProductivityMetrics['tagBreakdown'], totalMinutes: number): void {
+    Object.values(tagBreakdown).forEach(tag => {
+      tag.percentage = totalMinutes > 0 ? (tag.minutes / totalMinutes) * 100 : 0;
+      tag.efficiency = this.calculateEfficiency(tag.completedMinutes, tag.minutes);
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
+import { DEFAULT_LOCALE, DEFAULT_WORKING_HOURS } from '@/lib/utils';
+import type { UpdatePreferencesInput, WorkingHoursRangeInput } from '@/lib/validations';
+import type { SlotMinutes } from '@/lib/types';
+
+// Settings of users that haven't changed them
+export const DEFAULT_PREFERENCES = {
+  timeZone: DEFAULT_TIMEZONE,
+  weekStartsOn: 0,
+  slotMinutes: 30,
+  reminderMinutes: 15,
+  defaultBlockMinutes: 60,
+  locale: DEFAULT_LOCALE,
+  workingHours: DEFAULT_WORKING_HOURS,
+};
+
+const PREFERENCES_SELECT = {
+  timeZone: true,
+  weekStartsOn: true,
+  slotMinutes: true,
+  reminderMinutes: true,
+  defaultBlockMinutes: true,
+  locale: true,
+  workingHours: {
+    select: { weekday: true, startMinutes: true, endMinutes: true },
+    orderBy: [{ weekday: 'asc' }, { startMinutes: 'asc' }],
+  },
+} satisfies Prisma.UserPreferencesSelect;
+
+const toCreateRanges = (ranges: WorkingHoursRangeInput[]) => ({
+  create: ranges.map(({ weekday, startMinutes, endMinutes }) => ({ weekday, startMinutes, endMinutes })),
+});
+
+export class PreferencesService {
+  /**
+   * Settings of the user, or the defaults until they are first saved
+   */
+  static async get(userId: string) {
+    const preferences = await prisma.userPreferences.findUnique({
+      where: { userId },
+      select: PREFERENCES_SELECT,
+    });
+
+    return preferences ?? { ...DEFAULT_PREFERENCES };
+  }
+
+  /**
+   * Change some of the settings. Working hours are replaced as a whole; the first save
+   * stores the default ones unless they are given
+   */
+  static async update(userId: string, input: UpdatePreferencesInput) {
+    const { workingHours, ...settings } = input;
+
+    return prisma.userPreferences.upsert({
+      where: { userId },
+      create: { userId, ...settings, workingHours: toCreateRanges(workingHours ?? DEFAULT_WORKING_HOURS) },
+      update: {
+        ...settings,
+        ...(workingHours && { workingHours: { deleteMany: {}, ...toCreateRanges(workingHours) } }),
+      },
+      select: PREFERENCES_SELECT,
+    });
+  }
+
+  /**
+   * Slot size and zone of the user's days: block times are checked against them and the zone
+   * is also given to the blocks they create
+   */
+  static async getSlotSettings(userId: string): Promise<{ slotMinutes: SlotMinutes; timeZone: string }> {
+    const { slotMinutes, timeZone } = await this.get(userId);
+    // Saved sizes are one of the supported ones
+    return { slotMinutes: slotMinutes as SlotMinutes, timeZone };
+  }
+}
@@ -0,0 +1,390 @@
+import { DEFAULT_TIMEZONE, addZonedDays, fromZonedParts, getZonedParts } from '@/lib/timezone';
+import { DEFAULT_LOCALE } from '@/lib/utils';
+import type { RecurrenceRule, WeekDay } from '@/lib/types';
+
+// RRULE weekday codes indexed by Date#getDay()
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+const WEEKDAY_LABELS = ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb'];
+
+// Largest COUNT accepted, so that counted series stay cheap to expand
+export const MAX_RECURRENCE_OCCURRENCES = 730;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Occurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface OccurrenceException {
+  originalStartTime: Date;
+  cancelled: boolean;
+  startTime?: Date | null;
+  endTime?: Date | null;
+}
+
+export interface ExpandedOccurrence<E extends OccurrenceException> extends Occurrence {
+  originalStartTime: Date;
+  exception?: E;
+}
+
+/**
+ * Supports the RFC 5545 subset used by Planico:
+ * FREQ=DAILY|WEEKLY, INTERVAL, BYDAY (weekly only), UNTIL and COUNT.
+ * Occurrences keep the wall-clock time of the series start in its time zone (as DTSTART;TZID),
+ * so they don't move by an hour across DST changes.
+ */
+export class RecurrenceService {
+  /**
+   * Parse a rule; a date-only or floating UNTIL is read in the time zone of the series
+   */
+  static parse(rrule: string, timeZone?: string | null): RecurrenceRule {
+    const parts = rrule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+    const values = new Map<string, string>();
+
+    for (const part of parts) {
+      const [key, value] = part.split('=');
+      if (!key || !value) {
+        throw new Error(`Segmento de RRULE inválido: ${part}`);
+      }
+      values.set(key.toUpperCase(), value.toUpperCase());
+    }
+
+    const freq = values.get('FREQ');
+    if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+      throw new Error('FREQ debe ser DAILY o WEEKLY');
+    }
+
+    const rule: RecurrenceRule = {
+      frequency: freq === 'DAILY' ? 'daily' : 'weekly',
+      interval: 1,
+    };
+
+    const interval = values.get('INTERVAL');
+    if (interval !== undefined) {
+      rule.interval = this.parsePositiveInt(interval, 'INTERVAL');
+    }
+
+    const byDay = values.get('BYDAY');
+    if (byDay !== undefined) {
+      if (rule.frequency !== 'weekly') {
+        throw new Error('BYDAY solo se admite con FREQ=WEEKLY');
+      }
+      rule.byWeekday = byDay.split(',').map(code => {
+        const index = RRULE_WEEKDAYS.indexOf(code as typeof RRULE_WEEKDAYS[number]);
+        if (index === -1) {
+          throw new Error(`Día inválido en BYDAY: ${code}`);
+        }
+        return index as WeekDay;
+      });
+    }
+
+    const until = values.get('UNTIL');
+    const count = values.get('COUNT');
+    if (until !== undefined && count !== undefined) {
+      throw new Error('UNTIL y COUNT no pueden usarse juntos');
+    }
+    if (until !== undefined) {
+      rule.until = this.parseUntil(until, timeZone ?? DEFAULT_TIMEZONE);
+    }
+    if (count !== undefined) {
+      rule.count = this.parsePositiveInt(count, 'COUNT');
+      if (rule.count > MAX_RECURRENCE_OCCURRENCES) {
+        throw new Error(`COUNT no puede ser mayor que ${MAX_RECURRENCE_OCCURRENCES}`);
+      }
+    }
+
+    return rule;
+  }
+
+  static isValid(rrule: string, timeZone?: string | null): boolean {
+    try {
+      this.parse(rrule, timeZone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static serialize(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.frequency === 'daily' ? 'DAILY' : 'WEEKLY'}`];
+
+    if (rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+      const days = [...new Set(rule.byWeekday)].sort((a, b) => this.mondayIndex(a) - this.mondayIndex(b));
+      parts.push(`BYDAY=${days.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+    }
+    if (rule.until) {
+      parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    } else if (rule.count) {
+      parts.push(`COUNT=${rule.count}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * Expand a rule into the occurrences that overlap the given range.
+   * The first occurrence is always the series start (DTSTART). Series without COUNT are
+   * expanded from the range on, so open-ended ones go on for as long as asked.
+   */
+  static expand(
+    rule: RecurrenceRule | string,
+    startTime: Date,
+    endTime: Date,
+    range: DateRange,
+    timeZone?: string | null
+  ): Occurrence[] {
+    const parsedRule = typeof rule === 'string' ? this.parse(rule, timeZone) : rule;
+    const duration = endTime.getTime() - startTime.getTime();
+    const occurrences: Occurrence[] = [];
+
+    // Occurrences starting up to one duration before the range still overlap it
+    const from = new Date(range.start.getTime() - duration);
+
+    for (const occurrenceStart of this.generateStarts(parsedRule, startTime, timeZone, from)) {
+      if (occurrenceStart >= range.end) break;
+
+      const occurrenceEnd = new Date(occurrenceStart.getTime() + duration);
+      if (occurrenceEnd > range.start) {
+        occurrences.push({ startTime: occurrenceStart, endTime: occurrenceEnd });
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Expand a series applying its exceptions: cancelled occurrences are dropped and
+   * moved ones use their new times (even when the original start is outside the range)
+   */
+  static expandWithExceptions<E extends OccurrenceException>(
+    rule: RecurrenceRule | string,
+    startTime: Date,
+    endTime: Date,
+    range: DateRange,
+    exceptions: E[] = [],
+    timeZone?: string | null
+  ): ExpandedOccurrence<E>[] {
+    const exceptionsByStart = new Map(
+      exceptions.map(exception => [exception.originalStartTime.getTime(), exception])
+    );
+    const overlapsRange = (occurrence: Occurrence) =>
+      occurrence.startTime < range.end && occurrence.endTime > range.start;
+
+    const resolve = (occurrence: Occurrence, exception?: E): ExpandedOccurrence<E> => ({
+      startTime: exception?.startTime ?? occurrence.startTime,
+      endTime: exception?.endTime ?? occurrence.endTime,
+      originalStartTime: occurrence.startTime,
+      exception,
+    });
+
+    const expanded = this.expand(rule, startTime, endTime, range, timeZone).map(occurrence => {
+      const exception = exceptionsByStart.get(occurrence.startTime.getTime());
+      exceptionsByStart.delete(occurrence.startTime.getTime());
+      return resolve(occurrence, exception);
+    });
+
+    // Occurrences moved into the range from outside of it
+    const duration = endTime.getTime() - startTime.getTime();
+    exceptionsByStart.forEach(exception => {
+      const original = {
+        startTime: exception.originalStartTime,
+        endTime: new Date(exception.originalStartTime.getTime() + duration),
+      };
+      expanded.push(resolve(original, exception));
+    });
+
+    return expanded
+      .filter(occurrence => !occurrence.exception?.cancelled && overlapsRange(occurrence))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Whether the rule generates an occurrence starting exactly at the given date
+   */
+  static isOccurrence(
+    rule: RecurrenceRule | string,
+    startTime: Date,
+    endTime: Date,
+    date: Date,
+    timeZone?: string | null
+  ): boolean {
+    return this.expand(rule, startTime, endTime, {
+      start: date,
+      end: new Date(date.getTime() + 1),
+    }, timeZone).some(occurrence => occurrence.startTime.getTime() === date.getTime());
+  }
+
+  /**
+   * Number of occurrences that start before the given date
+   */
+  static countOccurrencesBefore(
+    rule: RecurrenceRule | string,
+    startTime: Date,
+    endTime: Date,
+    date: Date,
+    timeZone?: string | null
+  ): number {
+    return this.expand(rule, startTime, endTime, { start: startTime, end: date }, timeZone).length;
+  }
+
+  /**
+   * End of the last occurrence, or null when the series is open-ended
+   */
+  static getSeriesEnd(
+    rule: RecurrenceRule | string,
+    startTime: Date,
+    endTime: Date,
+    timeZone?: string | null
+  ): Date | null {
+    const parsedRule = typeof rule === 'string' ? this.parse(rule, timeZone) : rule;
+    if (!parsedRule.until && !parsedRule.count) {
+      return null;
+    }
+
+    // Series with UNTIL are only generated over the last interval before it
+    const from = parsedRule.until
+      ? new Date(parsedRule.until.getTime() - (parsedRule.interval * 7 + 1) * DAY_MS)
+      : undefined;
+
+    let lastStart = startTime;
+    for (const occurrenceStart of this.generateStarts(parsedRule, startTime, timeZone, from)) {
+      lastStart = occurrenceStart;
+    }
+
+    return new Date(lastStart.getTime() + (endTime.getTime() - startTime.getTime()));
+  }
+
+  /**
+   * Human readable summary of a rule, in Spanish with the end date in the given locale and
+   * the time zone of the series
+   */
+  static describe(
+    rule: RecurrenceRule | string,
+    locale: string = DEFAULT_LOCALE,
+    timeZone?: string | null
+  ): string {
+    const parsedRule = typeof rule === 'string' ? this.parse(rule, timeZone) : rule;
+    let description: string;
+
+    if (parsedRule.frequency === 'daily') {
+      description = parsedRule.interval > 1 ? `Cada ${parsedRule.interval} días` : 'Diariamente';
+    } else {
+      description = parsedRule.interval > 1 ? `Cada ${parsedRule.interval} semanas` : 'Semanalmente';
+      if (parsedRule.byWeekday && parsedRule.byWeekday.length > 0) {
+        const days = [...parsedRule.byWeekday].sort((a, b) => this.mondayIndex(a) - this.mondayIndex(b));
+        description += `: ${days.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+      }
+    }
+
+    if (parsedRule.until) {
+      const until = new Intl.DateTimeFormat(locale, {
+        day: 'numeric', month: 'short', year: 'numeric', timeZone: timeZone ?? DEFAULT_TIMEZONE,
+      }).format(parsedRule.until);
+      description += `, hasta el ${until}`;
+    } else if (parsedRule.count) {
+      description += `, ${parsedRule.count} ${parsedRule.count === 1 ? 'vez' : 'veces'}`;
+    }
+
+    return description;
+  }
+
+  /**
+   * Occurrence starts in order, endless for open-ended rules. Without COUNT, those on days
+   * before `from` may be skipped (COUNT needs every occurrence from DTSTART).
+   */
+  private static *generateStarts(
+    rule: RecurrenceRule,
+    dtStart: Date,
+    timeZone?: string | null,
+    from?: Date
+  ): Generator<Date> {
+    const zone = timeZone ?? DEFAULT_TIMEZONE;
+    let emitted = 0;
+
+    // Whole calendar days from DTSTART to `from`, in the zone
+    const daysToFrom = (): number => {
+      if (!from || rule.count) {
+        return 0;
+      }
+      const toDay = (date: Date) => {
+        const { year, month, day } = getZonedParts(date, zone);
+        return Date.UTC(year, month - 1, day) / DAY_MS;
+      };
+      return Math.max(0, toDay(from) - toDay(dtStart));
+    };
+
+    if (rule.frequency === 'daily') {
+      const firstStep = Math.floor(daysToFrom() / rule.interval) * rule.interval;
+      for (let step = firstStep; ; step += rule.interval) {
+        const occurrenceStart = addZonedDays(dtStart, step, zone);
+        if (rule.until && occurrenceStart > rule.until) return;
+
+        yield occurrenceStart;
+        if (rule.count && ++emitted >= rule.count) return;
+      }
+    }
+
+    // Weekly rules: weeks start on Monday (RFC 5545 default WKST)
+    const start = getZonedParts(dtStart, zone);
+    const weekdays = (rule.byWeekday && rule.byWeekday.length > 0 ? [...rule.byWeekday] : [start.weekday as WeekDay])
+      .sort((a, b) => this.mondayIndex(a) - this.mondayIndex(b));
+    const firstMonday = start.day - this.mondayIndex(start.weekday as WeekDay);
+    const weeksToFrom = Math.floor((daysToFrom() + this.mondayIndex(start.weekday as WeekDay)) / 7);
+
+    for (let week = Math.floor(weeksToFrom / rule.interval) * rule.interval; ; week += rule.interval) {
+      for (const weekday of weekdays) {
+        const occurrenceStart = fromZonedParts({
+          ...start,
+          day: firstMonday + week * 7 + this.mondayIndex(weekday),
+        }, zone);
+
+        if (occurrenceStart < dtStart) continue;
+        if (rule.until && occurrenceStart > rule.until) return;
+
+        yield occurrenceStart;
+        if (rule.count && ++emitted >= rule.count) return;
+      }
+    }
+  }
+
+  private static mondayIndex(day: WeekDay): number {
+    return (day + 6) % 7;
+  }
+
+  private static parsePositiveInt(value: string, field: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`${field} debe ser un entero positivo`);
+    }
+    return parsed;
+  }
+
+  private static parseUntil(value: string, timeZone: string): Date {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+      throw new Error('UNTIL debe tener formato YYYYMMDD o YYYYMMDDTHHMMSSZ');
+    }
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const date = { year: Number(year), month: Number(month), day: Number(day) };
+    if (!hour) {
+      // Date-only UNTIL is inclusive of the whole day
+      return fromZonedParts({ ...date, hour: 23, minute: 59, second: 59, millisecond: 999 }, timeZone);
+    }
+
+    const time = { hour: Number(hour), minute: Number(minute), second: Number(second) };
+    return utc
+      ? new Date(Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute, time.second))
+      : fromZonedParts({ ...date, ...time }, timeZone);
+  }
+}
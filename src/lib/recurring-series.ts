@@ -0,0 +1,256 @@
+import { prisma } from '@/lib/prisma';
+import { RecurrenceService, type ExpandedOccurrence } from '@/lib/recurrence';
+import { recurrenceScopeSchema } from '@/lib/validations';
+import { CHECKLIST_INCLUDE } from '@/lib/checklists';
+import { ATTENDEES_INCLUDE, AttendeeService } from '@/lib/attendees';
+import { NotFoundError, ValidationError } from '@/lib/api-utils';
+import type { RecurrenceScope } from '@/lib/types';
+
+export interface SeriesBlock {
+  id: string;
+  workspaceId: string;
+  title: string;
+  description: string | null;
+  startTime: Date;
+  endTime: Date;
+  allDay?: boolean;
+  categoryId: string;
+  recurrenceRule: string | null;
+  timeZone?: string | null; // Zone where the occurrences keep their time of day
+  status: string;
+  location?: string | null; // Location, link and attendees belong to the whole series
+  meetingUrl?: string | null;
+  allowOverlap?: boolean; // So does allowing overlaps
+}
+
+export interface OccurrenceChanges {
+  title?: string;
+  description?: string | null;
+  startTime?: Date;
+  endTime?: Date;
+  allDay?: boolean;
+  categoryId?: string;
+  recurrenceRule?: string | null;
+  status?: string;
+  location?: string | null;
+  meetingUrl?: string | null;
+  allowOverlap?: boolean;
+}
+
+interface StoredException {
+  originalStartTime: Date;
+  cancelled: boolean;
+  title: string | null;
+  description: string | null;
+  startTime: Date | null;
+  endTime: Date | null;
+  categoryId: string | null;
+  status: string | null;
+}
+
+export class RecurringSeriesService {
+  /**
+   * Read `scope` and `originalStartTime` from the query string.
+   * Scopes other than 'all' need the occurrence they start from.
+   */
+  static parseScopeParams(searchParams: URLSearchParams): {
+    scope: RecurrenceScope;
+    originalStartTime?: Date;
+  } {
+    const scope = recurrenceScopeSchema.parse(searchParams.get('scope') ?? 'all');
+    const originalStartTimeParam = searchParams.get('originalStartTime');
+
+    if (!originalStartTimeParam) {
+      if (scope !== 'all') {
+        throw new ValidationError('originalStartTime es requerido para editar o eliminar ocurrencias');
+      }
+      return { scope };
+    }
+
+    const originalStartTime = new Date(originalStartTimeParam);
+    if (isNaN(originalStartTime.getTime())) {
+      throw new ValidationError('Formato de originalStartTime inválido. Use formato ISO 8601');
+    }
+
+    return { scope, originalStartTime };
+  }
+
+  /**
+   * Make sure the series generates an occurrence at the given start
+   */
+  static assertOccurrence(block: SeriesBlock, originalStartTime: Date): void {
+    if (!block.recurrenceRule ||
+        !RecurrenceService.isOccurrence(block.recurrenceRule, block.startTime, block.endTime, originalStartTime, block.timeZone)) {
+      throw new NotFoundError('Ocurrencia no encontrada');
+    }
+  }
+
+  /**
+   * Block data for an expanded occurrence, with the exception overrides applied
+   */
+  static applyException<B extends SeriesBlock & { category?: unknown }, E extends StoredException & { category?: unknown }>(
+    block: B,
+    occurrence: ExpandedOccurrence<E>
+  ): B & { originalStartTime: Date } {
+    const { exception } = occurrence;
+
+    return {
+      ...block,
+      title: exception?.title ?? block.title,
+      description: exception?.description ?? block.description,
+      categoryId: exception?.categoryId ?? block.categoryId,
+      category: (exception?.categoryId && exception.category) || block.category,
+      status: exception?.status ?? block.status,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      originalStartTime: occurrence.originalStartTime,
+    };
+  }
+
+  /**
+   * Current data of a single occurrence, with its stored exception (if any) applied
+   */
+  static async getOccurrence<B extends SeriesBlock & { category?: unknown }>(block: B, originalStartTime: Date) {
+    const exception = await prisma.recurrenceException.findUnique({
+      where: { blockId_originalStartTime: { blockId: block.id, originalStartTime } },
+      include: { category: true },
+    });
+    const duration = block.endTime.getTime() - block.startTime.getTime();
+
+    const occurrence = this.applyException(block, {
+      startTime: exception?.startTime ?? originalStartTime,
+      endTime: exception?.endTime ?? new Date(originalStartTime.getTime() + duration),
+      originalStartTime,
+      exception: exception ?? undefined,
+    });
+
+    return { ...occurrence, cancelled: exception?.cancelled ?? false };
+  }
+
+  /**
+   * Store the changes for a single occurrence as an exception of the series.
+   * Values equal to the series ones clear the override, and a cancelled occurrence comes back.
+   */
+  static async updateOccurrence(block: SeriesBlock, originalStartTime: Date, changes: OccurrenceChanges) {
+    const originalEndTime = new Date(originalStartTime.getTime() + block.endTime.getTime() - block.startTime.getTime());
+    const override = <T>(value: T | undefined, seriesValue: T, isSame = value === seriesValue) =>
+      value === undefined ? undefined : isSame ? null : value;
+
+    const data = {
+      title: override(changes.title, block.title),
+      description: override(changes.description, block.description),
+      startTime: override(changes.startTime, originalStartTime, changes.startTime?.getTime() === originalStartTime.getTime()),
+      endTime: override(changes.endTime, originalEndTime, changes.endTime?.getTime() === originalEndTime.getTime()),
+      categoryId: override(changes.categoryId, block.categoryId),
+      status: override(changes.status, block.status),
+    };
+
+    return prisma.recurrenceException.upsert({
+      where: { blockId_originalStartTime: { blockId: block.id, originalStartTime } },
+      create: { blockId: block.id, originalStartTime, ...data },
+      update: { ...data, cancelled: false },
+      include: { category: true },
+    });
+  }
+
+  /**
+   * Skip a single occurrence of the series
+   */
+  static async cancelOccurrence(block: SeriesBlock, originalStartTime: Date) {
+    return prisma.recurrenceException.upsert({
+      where: { blockId_originalStartTime: { blockId: block.id, originalStartTime } },
+      create: { blockId: block.id, originalStartTime, cancelled: true },
+      update: { cancelled: true },
+    });
+  }
+
+  /**
+   * End the series right before the given occurrence. Moves the whole block
+   * to the trash when the occurrence is the first one.
+   */
+  static async truncateSeries(block: SeriesBlock, originalStartTime: Date): Promise<void> {
+    if (originalStartTime.getTime() <= block.startTime.getTime()) {
+      await prisma.scheduleBlock.update({
+        where: { id: block.id },
+        data: { deletedAt: new Date() },
+      });
+      return;
+    }
+
+    await prisma.$transaction([...this.truncateOperations(block, originalStartTime)]);
+  }
+
+  /**
+   * Apply changes from the given occurrence onwards: the original series ends before it
+   * and a new series starts with the changes (and the given tags and checklist). Exceptions from that point on are dropped.
+   */
+  static async splitSeries(
+    block: SeriesBlock,
+    originalStartTime: Date,
+    changes: OccurrenceChanges,
+    tags: { id: string }[] = [],
+    checklist: { title: string; done: boolean }[] = [],
+    attendees: string[] = []
+  ) {
+    const duration = block.endTime.getTime() - block.startTime.getTime();
+    const [, , newBlock] = await prisma.$transaction([
+      ...this.truncateOperations(block, originalStartTime),
+      prisma.scheduleBlock.create({
+        data: {
+          workspaceId: block.workspaceId,
+          title: changes.title || block.title,
+          description: changes.description !== undefined ? changes.description : block.description,
+          startTime: changes.startTime || originalStartTime,
+          endTime: changes.endTime || new Date(originalStartTime.getTime() + duration),
+          allDay: changes.allDay ?? block.allDay ?? false,
+          allowOverlap: changes.allowOverlap ?? block.allowOverlap ?? false,
+          categoryId: changes.categoryId || block.categoryId,
+          recurrenceRule: changes.recurrenceRule !== undefined
+            ? changes.recurrenceRule || null
+            : this.getFollowingRule(block, originalStartTime),
+          timeZone: block.timeZone ?? null,
+          location: changes.location !== undefined ? changes.location || null : block.location ?? null,
+          meetingUrl: changes.meetingUrl !== undefined ? changes.meetingUrl || null : block.meetingUrl ?? null,
+          tags: { connect: tags },
+          attendees: AttendeeService.toCreate(attendees),
+          checklistItems: {
+            create: checklist.map(({ title, done }, position) => ({ title, done, position })),
+          },
+        },
+        include: { category: true, tags: true, ...CHECKLIST_INCLUDE, ...ATTENDEES_INCLUDE },
+      }),
+    ]);
+
+    return newBlock;
+  }
+
+  /**
+   * Rule for the occurrences from the given one onwards (COUNT keeps only the remaining ones)
+   */
+  static getFollowingRule(block: SeriesBlock, originalStartTime: Date): string {
+    const rule = RecurrenceService.parse(block.recurrenceRule!, block.timeZone);
+    if (rule.count) {
+      const previous = RecurrenceService.countOccurrencesBefore(
+        rule, block.startTime, block.endTime, originalStartTime, block.timeZone
+      );
+      rule.count = Math.max(1, rule.count - previous);
+    }
+    return RecurrenceService.serialize(rule);
+  }
+
+  private static truncateOperations(block: SeriesBlock, originalStartTime: Date) {
+    const rule = RecurrenceService.parse(block.recurrenceRule!, block.timeZone);
+    // UNTIL is stored with second precision, so stop one second before the occurrence
+    const until = new Date(originalStartTime.getTime() - 1000);
+
+    return [
+      prisma.scheduleBlock.update({
+        where: { id: block.id },
+        data: { recurrenceRule: RecurrenceService.serialize({ ...rule, until, count: undefined }) },
+      }),
+      prisma.recurrenceException.deleteMany({
+        where: { blockId: block.id, originalStartTime: { gte: originalStartTime } },
+      }),
+    ] as const;
+  }
+}
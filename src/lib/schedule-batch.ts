@@ -0,0 +1,254 @@
+import { prisma } from '@/lib/prisma';
+import { ScheduleOverlapService, type OverlapCategories, type TimeInterval } from '@/lib/schedule-overlap';
+import { HistoryService, type HistoryContext } from '@/lib/history';
+import { TrashService } from '@/lib/trash';
+import { TagService } from '@/lib/tags';
+import { CHECKLIST_INCLUDE } from '@/lib/checklists';
+import { ATTENDEES_INCLUDE, AttendeeService } from '@/lib/attendees';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/api-utils';
+import type { ScheduleBatchOperationInput, UpdateBlockInput } from '@/lib/validations';
+
+interface StoredBlock {
+  startTime: Date;
+  endTime: Date;
+  recurrenceRule: string | null;
+  allDay: boolean;
+  timeZone: string | null;
+  allowOverlap: boolean;
+  category: { allowOverlap: boolean } | null;
+}
+
+// Time the block of a create or update operation occupies once the batch is applied
+interface PlannedRange {
+  index: number;
+  intervals: TimeInterval[];
+  checkStored: boolean; // Updates that keep the times are not checked against stored blocks again
+}
+
+const operationLabel = (index: number) => `Operación ${index + 1}`;
+
+export class ScheduleBatchService {
+  /**
+   * Apply create, update and delete operations all-or-nothing. Every operation is checked
+   * (blocks, categories, overlaps with stored blocks and with the rest of the batch) before
+   * anything is written, and the writes run in a single transaction.
+   * Updates and deletes of recurring blocks apply to the whole series.
+   * New blocks take the given time zone (the one of the user).
+   */
+  static async run(context: HistoryContext, operations: ScheduleBatchOperationInput[], timeZone: string) {
+    const { workspaceId } = context;
+
+    const targetIds = operations.flatMap(operation => operation.op === 'create' ? [] : [operation.id]);
+    if (new Set(targetIds).size !== targetIds.length) {
+      throw new ValidationError('Cada bloque solo puede aparecer una vez en el lote');
+    }
+
+    const existingBlocks = await prisma.scheduleBlock.findMany({
+      where: { id: { in: targetIds }, workspaceId, deletedAt: null },
+      include: { category: true, tags: true, ...ATTENDEES_INCLUDE },
+    });
+    const existingById = new Map(existingBlocks.map(block => [block.id, block]));
+
+    operations.forEach((operation, index) => {
+      if (operation.op !== 'create' && !existingById.has(operation.id)) {
+        throw new NotFoundError(`${operationLabel(index)}: bloque no encontrado`);
+      }
+    });
+
+    const categories = await this.assertCategories(workspaceId, operations);
+
+    const ranges = operations.flatMap((operation, index): PlannedRange[] => {
+      if (operation.op === 'delete') {
+        return [];
+      }
+
+      const block = operation.op === 'create'
+        ? {
+            ...operation.data,
+            recurrenceRule: operation.data.recurrenceRule || null,
+            allDay: operation.data.allDay ?? false,
+            timeZone,
+            allowOverlap: operation.data.allowOverlap ?? false,
+            category: categories.get(operation.data.categoryId) ?? null,
+          }
+        : this.getUpdatedBlock(existingById.get(operation.id)!, operation.data, categories);
+
+      if (block.endTime <= block.startTime) {
+        throw new ValidationError(`${operationLabel(index)}: la hora de fin debe ser posterior a la hora de inicio`, { index });
+      }
+
+      return [{
+        index,
+        intervals: ScheduleOverlapService.getBlockIntervals(block),
+        checkStored: operation.op === 'create' || Boolean(
+          operation.data.startTime || operation.data.endTime || operation.data.recurrenceRule !== undefined ||
+          operation.data.allDay !== undefined || operation.data.allowOverlap !== undefined || operation.data.categoryId
+        ),
+      }];
+    });
+
+    // Blocks changed by the batch are checked with their new times among the batch instead
+    const touchedIds = new Set(targetIds);
+    for (const range of ranges.filter(range => range.checkStored)) {
+      const conflictingBlocks = (await ScheduleOverlapService.findOverlappingBlocks(workspaceId, range.intervals))
+        .filter(block => !touchedIds.has(block.id));
+
+      if (conflictingBlocks.length > 0) {
+        throw new ConflictError(
+          `${operationLabel(range.index)}: el bloque se superpondría con otro bloque existente`,
+          { index: range.index, conflictingBlocks }
+        );
+      }
+    }
+
+    const batchConflict = ScheduleOverlapService.findBatchConflict(ranges);
+    if (batchConflict) {
+      const [first, second] = batchConflict;
+      throw new ConflictError(
+        `Las operaciones ${first + 1} y ${second + 1} se superponen entre sí`,
+        { index: second, conflictingOperation: first }
+      );
+    }
+
+    // Tags are created up front; the ones left unused if the transaction fails stay hidden
+    const tagsByIndex = new Map<number, { id: string }[]>();
+    for (const [index, operation] of operations.entries()) {
+      if (operation.op !== 'delete' && operation.data.tags) {
+        tagsByIndex.set(index, await TagService.resolve(workspaceId, operation.data.tags));
+      }
+    }
+
+    const deletedAt = new Date();
+    const blocks = await prisma.$transaction(
+      operations.map((operation, index) => {
+        const tags = tagsByIndex.get(index);
+
+        if (operation.op === 'create') {
+          const { data } = operation;
+          return prisma.scheduleBlock.create({
+            data: {
+              workspaceId,
+              title: data.title,
+              description: data.description,
+              startTime: data.startTime,
+              endTime: data.endTime,
+              allDay: data.allDay ?? false,
+              allowOverlap: data.allowOverlap ?? false,
+              categoryId: data.categoryId,
+              recurrenceRule: data.recurrenceRule || null,
+              timeZone,
+              location: data.location || null,
+              meetingUrl: data.meetingUrl || null,
+              ...(tags && { tags: { connect: tags } }),
+              ...(data.attendees && { attendees: AttendeeService.toCreate(data.attendees) }),
+              ...(data.checklist && {
+                checklistItems: { create: data.checklist.map((title, position) => ({ title, position })) },
+              }),
+            },
+            include: { category: true, tags: true, ...CHECKLIST_INCLUDE, ...ATTENDEES_INCLUDE },
+          });
+        }
+
+        if (operation.op === 'delete') {
+          return prisma.scheduleBlock.update({
+            where: { id: operation.id },
+            data: { deletedAt },
+            include: { category: true, tags: true, ...CHECKLIST_INCLUDE, ...ATTENDEES_INCLUDE },
+          });
+        }
+
+        const existingBlock = existingById.get(operation.id)!;
+        const { data } = operation;
+        const { startTime, endTime, recurrenceRule } = this.getUpdatedBlock(existingBlock, data, categories);
+
+        // Exceptions refer to the original occurrence times, so they are dropped when those change
+        const seriesChanged = Boolean(existingBlock.recurrenceRule) && (
+          startTime.getTime() !== existingBlock.startTime.getTime() ||
+          endTime.getTime() !== existingBlock.endTime.getTime() ||
+          recurrenceRule !== existingBlock.recurrenceRule
+        );
+
+        return prisma.scheduleBlock.update({
+          where: { id: operation.id },
+          data: {
+            ...(data.title && { title: data.title }),
+            ...(data.description !== undefined && { description: data.description }),
+            ...(data.startTime && { startTime }),
+            ...(data.endTime && { endTime }),
+            ...(data.allDay !== undefined && { allDay: data.allDay }),
+            ...(data.allowOverlap !== undefined && { allowOverlap: data.allowOverlap }),
+            ...(data.categoryId && { categoryId: data.categoryId }),
+            ...(data.recurrenceRule !== undefined && { recurrenceRule }),
+            ...(data.location !== undefined && { location: data.location || null }),
+            ...(data.meetingUrl !== undefined && { meetingUrl: data.meetingUrl || null }),
+            ...(tags && { tags: { set: tags } }),
+            ...(data.attendees && { attendees: AttendeeService.toReplace(data.attendees) }),
+            ...(seriesChanged && { exceptions: { deleteMany: {} } }),
+          },
+          include: { category: true, tags: true, ...CHECKLIST_INCLUDE, ...ATTENDEES_INCLUDE },
+        });
+      })
+    );
+
+    const changes = operations.map((operation, index) => ({
+      op: operation.op,
+      entityId: blocks[index].id,
+      before: operation.op === 'create' ? null : HistoryService.snapshotBlock(existingById.get(operation.id)!),
+      after: HistoryService.snapshotBlock(blocks[index]),
+    }));
+
+    for (const action of ['create', 'update', 'delete'] as const) {
+      await HistoryService.recordMany(context, 'block', action, changes.filter(change => change.op === action));
+    }
+
+    if (operations.some(operation => operation.op === 'delete')) {
+      await TrashService.purgeExpired(workspaceId);
+    }
+
+    return operations.map((operation, index) => ({
+      index,
+      op: operation.op,
+      id: blocks[index].id,
+      block: operation.op === 'delete' ? null : blocks[index],
+    }));
+  }
+
+  private static getUpdatedBlock(block: StoredBlock, data: UpdateBlockInput, categories: OverlapCategories): StoredBlock {
+    return {
+      startTime: data.startTime || block.startTime,
+      endTime: data.endTime || block.endTime,
+      recurrenceRule: data.recurrenceRule !== undefined ? data.recurrenceRule || null : block.recurrenceRule,
+      allDay: data.allDay ?? block.allDay,
+      timeZone: block.timeZone,
+      allowOverlap: data.allowOverlap ?? block.allowOverlap,
+      category: data.categoryId ? categories.get(data.categoryId) ?? null : block.category,
+    };
+  }
+
+  /**
+   * Check the categories given by the operations, returned by id with whether they allow overlaps
+   */
+  private static async assertCategories(
+    workspaceId: string,
+    operations: ScheduleBatchOperationInput[]
+  ): Promise<OverlapCategories> {
+    const categoryIds = operations.map(operation => operation.op !== 'delete' ? operation.data.categoryId : undefined);
+    const categories = await prisma.category.findMany({
+      where: {
+        id: { in: categoryIds.filter((id): id is string => Boolean(id)) },
+        workspaceId,
+        deletedAt: null,
+      },
+      select: { id: true, allowOverlap: true },
+    });
+    const categoriesById: OverlapCategories = new Map(categories.map(category => [category.id, category]));
+
+    categoryIds.forEach((categoryId, index) => {
+      if (categoryId && !categoriesById.has(categoryId)) {
+        throw new ValidationError(`${operationLabel(index)}: la categoría especificada no existe`, { index });
+      }
+    });
+
+    return categoriesById;
+  }
+}
@@ -0,0 +1,267 @@
+import { addDays } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { RecurrenceService } from '@/lib/recurrence';
+
+export interface TimeInterval {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface OverlappingBlock {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  originalStartTime?: Date; // Set when the overlap is an occurrence of a recurring block
+}
+
+// An affected block (or occurrence) and the blocks it would overlap
+export interface BlockOverlap {
+  block: OverlappingBlock;
+  conflictingBlocks: OverlappingBlock[];
+}
+
+// Overlap setting of categories by id, for changes that are not saved yet
+export type OverlapCategories = Map<string, { allowOverlap: boolean }>;
+
+// How far ahead open-ended series are checked for overlaps
+export const RECURRENCE_CHECK_HORIZON_DAYS = 365;
+
+export class ScheduleOverlapService {
+  /**
+   * Whether a block may share its time with other blocks, set on the block or on its category
+   */
+  static allowsOverlap(block: { allowOverlap?: boolean; category?: { allowOverlap: boolean } | null }): boolean {
+    return Boolean(block.allowOverlap || block.category?.allowOverlap);
+  }
+
+  /**
+   * Intervals occupied by a block: its own range or, for recurring blocks,
+   * every occurrence until the series ends (or the check horizon, if that comes first).
+   * All-day blocks occupy none: they are shown apart and never overlap.
+   * Neither do blocks that allow overlaps (see `allowsOverlap`).
+   */
+  static getBlockIntervals(block: {
+    startTime: Date;
+    endTime: Date;
+    recurrenceRule?: string | null;
+    allDay?: boolean;
+    timeZone?: string | null;
+    allowOverlap?: boolean;
+    category?: { allowOverlap: boolean } | null;
+  }): TimeInterval[] {
+    if (block.allDay || this.allowsOverlap(block)) {
+      return [];
+    }
+
+    if (!block.recurrenceRule) {
+      return [{ startTime: block.startTime, endTime: block.endTime }];
+    }
+
+    return RecurrenceService.expand(block.recurrenceRule, block.startTime, block.endTime, {
+      start: block.startTime,
+      end: this.getCheckEnd(block.recurrenceRule, block),
+    }, block.timeZone);
+  }
+
+  /**
+   * First pair of blocks created together (as their indexes) that overlap each other,
+   * given the intervals each one occupies
+   */
+  static findBatchConflict(blocks: { index: number; intervals: TimeInterval[] }[]): [number, number] | null {
+    const intervals = blocks
+      .flatMap(({ index, intervals }) => intervals.map(interval => ({ ...interval, index })))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    let active: typeof intervals = [];
+    for (const interval of intervals) {
+      active = active.filter(other => other.endTime > interval.startTime);
+
+      const other = active.find(other => other.index !== interval.index);
+      if (other) {
+        return [Math.min(other.index, interval.index), Math.max(other.index, interval.index)];
+      }
+
+      active.push(interval);
+    }
+
+    return null;
+  }
+
+  /**
+   * Blocks that would overlap others once the occurrences in a category take a new overlap setting:
+   * the category stops allowing overlaps, or its blocks move to a category that does not allow them.
+   * Only occurrences whose category (their own or the series') is `categoryId` are checked.
+   */
+  static async findCategoryOverlaps(
+    workspaceId: string,
+    categoryId: string,
+    allowOverlap: boolean
+  ): Promise<BlockOverlap[]> {
+    if (allowOverlap) {
+      return [];
+    }
+
+    const blocks = await prisma.scheduleBlock.findMany({
+      where: {
+        workspaceId,
+        deletedAt: null,
+        allDay: false,
+        allowOverlap: false,
+        OR: [{ categoryId }, { exceptions: { some: { categoryId } } }],
+      },
+      select: {
+        id: true,
+        title: true,
+        startTime: true,
+        endTime: true,
+        recurrenceRule: true,
+        timeZone: true,
+        categoryId: true,
+        exceptions: {
+          select: { originalStartTime: true, cancelled: true, startTime: true, endTime: true, categoryId: true },
+        },
+      },
+    });
+
+    const categories: OverlapCategories = new Map([[categoryId, { allowOverlap }]]);
+    const overlaps: BlockOverlap[] = [];
+
+    for (const block of blocks) {
+      const intervals: TimeInterval[] = block.recurrenceRule
+        ? RecurrenceService.expandWithExceptions(
+            block.recurrenceRule,
+            block.startTime,
+            block.endTime,
+            { start: block.startTime, end: this.getCheckEnd(block.recurrenceRule, block) },
+            block.exceptions,
+            block.timeZone
+          ).filter(occurrence => (occurrence.exception?.categoryId ?? block.categoryId) === categoryId)
+        : [block];
+
+      const conflictingBlocks = await this.findOverlappingBlocks(workspaceId, intervals, block.id, undefined, categories);
+
+      if (conflictingBlocks.length > 0) {
+        overlaps.push({
+          block: { id: block.id, title: block.title, startTime: block.startTime, endTime: block.endTime },
+          conflictingBlocks,
+        });
+      }
+    }
+
+    return overlaps;
+  }
+
+  // Long series (open-ended or with a distant UNTIL) are only checked up to the horizon
+  private static getCheckEnd(
+    recurrenceRule: string,
+    block: { startTime: Date; endTime: Date; timeZone?: string | null }
+  ): Date {
+    const horizon = addDays(block.startTime, RECURRENCE_CHECK_HORIZON_DAYS);
+    const lastEnd = RecurrenceService.getSeriesEnd(recurrenceRule, block.startTime, block.endTime, block.timeZone);
+    return lastEnd && lastEnd < horizon ? lastEnd : horizon;
+  }
+
+  /**
+   * Find the workspace's stored timed blocks (including occurrences of recurring blocks) that overlap any interval.
+   * Touching intervals are not considered overlapping, and blocks that allow overlaps never get in the way
+   * (occurrences moved to another category follow that one). When `excludeOccurrence` is given,
+   * only that occurrence of `excludeBlockId` is ignored instead of the whole block.
+   * `categories` replaces the stored overlap setting of some categories.
+   */
+  static async findOverlappingBlocks(
+    workspaceId: string,
+    intervals: TimeInterval[],
+    excludeBlockId?: string,
+    excludeOccurrence?: Date,
+    categories?: OverlapCategories
+  ): Promise<OverlappingBlock[]> {
+    if (intervals.length === 0) {
+      return [];
+    }
+
+    const rangeStart = new Date(Math.min(...intervals.map(interval => interval.startTime.getTime())));
+    const rangeEnd = new Date(Math.max(...intervals.map(interval => interval.endTime.getTime())));
+
+    const candidates = await prisma.scheduleBlock.findMany({
+      where: {
+        workspaceId,
+        deletedAt: null,
+        allDay: false,
+        allowOverlap: false,
+        ...(excludeBlockId && !excludeOccurrence && { id: { not: excludeBlockId } }),
+        startTime: { lt: rangeEnd },
+        OR: [
+          { recurrenceRule: null, endTime: { gt: rangeStart } },
+          { recurrenceRule: { not: null } },
+        ],
+      },
+      select: {
+        id: true,
+        title: true,
+        startTime: true,
+        endTime: true,
+        recurrenceRule: true,
+        timeZone: true,
+        categoryId: true,
+        category: { select: { allowOverlap: true } },
+        exceptions: {
+          select: {
+            originalStartTime: true,
+            cancelled: true,
+            startTime: true,
+            endTime: true,
+            categoryId: true,
+            category: { select: { allowOverlap: true } },
+          },
+        },
+      },
+    });
+
+    // The category of an occurrence is the one of its exception, if it has one, or the series' one
+    type Candidate = (typeof candidates)[number];
+    const allowsOverlap = (candidate: Candidate, exception?: Candidate['exceptions'][number]) => {
+      const [categoryId, category] = exception?.categoryId && exception.category
+        ? [exception.categoryId, exception.category]
+        : [candidate.categoryId, candidate.category];
+      return (categories?.get(categoryId) ?? category).allowOverlap;
+    };
+
+    const overlapping: OverlappingBlock[] = [];
+
+    for (const candidate of candidates) {
+      const occurrences: (TimeInterval & { originalStartTime?: Date })[] = candidate.recurrenceRule
+        ? RecurrenceService.expandWithExceptions(
+            candidate.recurrenceRule,
+            candidate.startTime,
+            candidate.endTime,
+            { start: rangeStart, end: rangeEnd },
+            candidate.exceptions,
+            candidate.timeZone
+          ).filter(occurrence =>
+            (candidate.id !== excludeBlockId ||
+              occurrence.originalStartTime.getTime() !== excludeOccurrence?.getTime()) &&
+            !allowsOverlap(candidate, occurrence.exception)
+          )
+        : allowsOverlap(candidate) ? [] : [candidate];
+
+      const hit = occurrences.find(occurrence =>
+        intervals.some(interval =>
+          interval.startTime < occurrence.endTime && interval.endTime > occurrence.startTime
+        )
+      );
+
+      if (hit) {
+        overlapping.push({
+          id: candidate.id,
+          title: candidate.title,
+          startTime: hit.startTime,
+          endTime: hit.endTime,
+          ...(hit.originalStartTime && { originalStartTime: hit.originalStartTime }),
+        });
+      }
+    }
+
+    return overlapping;
+  }
+}
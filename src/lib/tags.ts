@@ -0,0 +1,54 @@
+import { prisma } from '@/lib/prisma';
+
+export class TagService {
+  /**
+   * Tags used by the workspace's blocks, for autocomplete. Tags left without blocks are hidden.
+   */
+  static async list(workspaceId: string) {
+    return prisma.tag.findMany({
+      where: { workspaceId, blocks: { some: { deletedAt: null } } },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Ids of the tags with the given names, creating the missing ones
+   */
+  static async resolve(workspaceId: string, names: string[]): Promise<{ id: string }[]> {
+    const tags = [];
+    for (const name of [...new Set(names)]) {
+      tags.push(await prisma.tag.upsert({
+        where: { workspaceId_name: { workspaceId, name } },
+        create: { workspaceId, name },
+        update: {},
+        select: { id: true },
+      }));
+    }
+    return tags;
+  }
+
+  /**
+   * Whether the given names differ from the current tags of a block
+   */
+  static isChanged(names: string[] | undefined, tags: { name: string }[]): boolean {
+    if (names === undefined) {
+      return false;
+    }
+
+    const current = new Set(tags.map(tag => tag.name));
+    const next = new Set(names);
+    return next.size !== current.size || [...next].some(name => !current.has(name));
+  }
+
+  /**
+   * Tag names of the `tags` query parameter (comma separated), or undefined when missing
+   */
+  static parseFilter(searchParams: URLSearchParams): string[] | undefined {
+    const names = searchParams.get('tags')
+      ?.split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+
+    return names && names.length > 0 ? names : undefined;
+  }
+}
@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/prisma';
+import { RecurringSeriesService } from '@/lib/recurring-series';
+import { NotFoundError } from '@/lib/api-utils';
+import type { StartTimerInput } from '@/lib/validations';
+
+export class TimeTrackingService {
+  /**
+   * The user's running entry, if any. Only one timer runs at a time per user.
+   */
+  static async getActiveEntry(userId: string) {
+    return prisma.timeEntry.findFirst({
+      where: { userId, endTime: null },
+      orderBy: { startTime: 'desc' },
+      include: { category: true },
+    });
+  }
+
+  /**
+   * Start a timer, stopping the running one first. Entries linked to a block
+   * take its category unless another one is given. Blocks and categories must
+   * belong to the given workspace.
+   */
+  static async startTimer(userId: string, workspaceId: string, input: StartTimerInput) {
+    let categoryId = input.categoryId;
+
+    if (input.blockId) {
+      const block = await prisma.scheduleBlock.findFirst({
+        where: { id: input.blockId, workspaceId, deletedAt: null },
+      });
+
+      if (!block) {
+        throw new NotFoundError('Bloque no encontrado');
+      }
+
+      if (block.recurrenceRule && input.originalStartTime) {
+        RecurringSeriesService.assertOccurrence(block, input.originalStartTime);
+      }
+
+      categoryId = categoryId || block.categoryId;
+    }
+
+    if (categoryId) {
+      const category = await prisma.category.findFirst({
+        where: { id: categoryId, workspaceId, deletedAt: null },
+      });
+
+      if (!category) {
+        throw new NotFoundError('La categoría especificada no existe');
+      }
+    }
+
+    const now = new Date();
+    const [, entry] = await prisma.$transaction([
+      prisma.timeEntry.updateMany({
+        where: { userId, endTime: null },
+        data: { endTime: now },
+      }),
+      prisma.timeEntry.create({
+        data: {
+          userId,
+          blockId: input.blockId,
+          occurrenceStartTime: input.blockId ? input.originalStartTime : undefined,
+          categoryId,
+          description: input.description,
+          startTime: now,
+        },
+        include: { category: true },
+      }),
+    ]);
+
+    return entry;
+  }
+
+  /**
+   * Stop the running timer
+   */
+  static async stopTimer(userId: string) {
+    const activeEntry = await this.getActiveEntry(userId);
+
+    if (!activeEntry) {
+      throw new NotFoundError('No hay un temporizador en curso');
+    }
+
+    return prisma.timeEntry.update({
+      where: { id: activeEntry.id },
+      data: { endTime: new Date() },
+      include: { category: true },
+    });
+  }
+}
@@ -0,0 +1,154 @@
+// Wall-clock helpers for IANA time zones (e.g. "America/Mexico_City"), built on Intl.
+// Dates are instants; days, weeks and times of day are read in the given zone so that
+// the server, the grid and exports agree regardless of the machine's own zone.
+
+// Zone used until the user picks one (the one the app used to assume)
+export const DEFAULT_TIMEZONE = 'America/Mexico_City';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  weekday: number; // 0 = Sunday, as Date#getDay()
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Time zones offered to the user, or just the default one where the runtime can't list them
+ */
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [DEFAULT_TIMEZONE];
+}
+
+/**
+ * Calendar date and time of day of an instant in the zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const values = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(values.year),
+    month: Number(values.month),
+    day: Number(values.day),
+    hour: Number(values.hour),
+    minute: Number(values.minute),
+    second: Number(values.second),
+    millisecond: date.getUTCMilliseconds(),
+    weekday: WEEKDAYS.indexOf(values.weekday),
+  };
+}
+
+// Wall-clock time of an instant in the zone, as if it were UTC
+const getWallTime = (time: number, timeZone: string): number => {
+  const parts = getZonedParts(new Date(time), timeZone);
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+};
+
+/**
+ * Offset of the zone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  return getWallTime(date.getTime(), timeZone) - date.getTime();
+}
+
+/**
+ * Instant of a wall-clock time in the zone. Out of range values roll over (day 32 is the
+ * next month). Times skipped by a DST change move forward by the gap, and repeated ones
+ * resolve to their first occurrence.
+ */
+export function fromZonedParts(
+  parts: Pick<ZonedParts, 'year' | 'month' | 'day'> & Partial<Pick<ZonedParts, 'hour' | 'minute' | 'second' | 'millisecond'>>,
+  timeZone: string
+): Date {
+  const wallTime = Date.UTC(
+    parts.year, parts.month - 1, parts.day,
+    parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0, parts.millisecond ?? 0
+  );
+
+  // The offset before and after the guess covers both sides of a DST change
+  const firstGuess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone);
+  const secondGuess = wallTime - getTimeZoneOffset(new Date(firstGuess), timeZone);
+  const candidates = [firstGuess, secondGuess].sort((a, b) => a - b);
+  const exact = candidates.find(candidate => getWallTime(candidate, timeZone) === wallTime);
+
+  return new Date(exact ?? candidates[candidates.length - 1]);
+}
+
+/**
+ * Midnight of the day of the date in the zone
+ */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return fromZonedParts({ year, month, day }, timeZone);
+}
+
+/**
+ * Same time of day a number of calendar days later (or earlier), so that days with
+ * a DST change keep the wall-clock time instead of moving by exactly 24 hours
+ */
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return fromZonedParts({ ...parts, day: parts.day + days }, timeZone);
+}
+
+/**
+ * Midnight of the first day of the week of the date in the zone, weeks starting on
+ * the given weekday (0 = Sunday, 1 = Monday...)
+ */
+export function startOfZonedWeek(date: Date, timeZone: string, weekStartsOn: number = 0): Date {
+  const { year, month, day, weekday } = getZonedParts(date, timeZone);
+  return fromZonedParts({ year, month, day: day - (weekday - weekStartsOn + 7) % 7 }, timeZone);
+}
+
+/**
+ * Minutes since midnight of the date's day in the zone
+ */
+export function getZonedMinutes(date: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Whether two dates fall on the same calendar day in the zone
+ */
+export function isSameZonedDay(date1: Date, date2: Date, timeZone: string): boolean {
+  return startOfZonedDay(date1, timeZone).getTime() === startOfZonedDay(date2, timeZone).getTime();
+}
@@ -0,0 +1,236 @@
+import { subDays } from 'date-fns';
+import type { Category, ScheduleBlock } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ScheduleOverlapService } from '@/lib/schedule-overlap';
+import { HistoryService, type HistoryContext } from '@/lib/history';
+import { ConflictError, NotFoundError } from '@/lib/api-utils';
+
+// Days trashed blocks and categories are kept before being purged (TRASH_RETENTION_DAYS)
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+export class TrashService {
+  /**
+   * Trashed blocks and categories of a workspace, most recent first.
+   * Expired items are purged first.
+   */
+  static async listTrash(workspaceId: string) {
+    await this.purgeExpired(workspaceId);
+
+    const [blocks, categories] = await Promise.all([
+      prisma.scheduleBlock.findMany({
+        where: { workspaceId, deletedAt: { not: null } },
+        include: { category: true },
+        orderBy: { deletedAt: 'desc' },
+      }),
+      prisma.category.findMany({
+        where: { workspaceId, deletedAt: { not: null } },
+        orderBy: { deletedAt: 'desc' },
+      }),
+    ]);
+
+    return { blocks, categories, retentionDays: TRASH_RETENTION_DAYS };
+  }
+
+  /**
+   * Move a block to the trash, purging the expired items on the way.
+   * Resolves with the id of the history entry of the change.
+   */
+  static async trashBlock(context: HistoryContext, id: string): Promise<string> {
+    const trashedBlock = await prisma.scheduleBlock.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+
+    const entryId = await HistoryService.record(
+      context,
+      'block',
+      id,
+      'delete',
+      HistoryService.snapshotBlock({ ...trashedBlock, deletedAt: null }),
+      HistoryService.snapshotBlock(trashedBlock)
+    );
+
+    await this.purgeExpired(context.workspaceId);
+
+    return entryId;
+  }
+
+  /**
+   * Restore a block (and its category when it is trashed too).
+   * Fails when the block now overlaps other blocks.
+   */
+  static async restoreBlock(context: HistoryContext, id: string) {
+    const block = await this.getTrashedBlock(context.workspaceId, id);
+
+    const overlappingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+      context.workspaceId,
+      ScheduleOverlapService.getBlockIntervals(block)
+    );
+
+    if (overlappingBlocks.length > 0) {
+      throw new ConflictError(
+        'El bloque restaurado se superpondría con otro bloque existente',
+        { conflictingBlocks: overlappingBlocks }
+      );
+    }
+
+    const [, restoredBlock] = await prisma.$transaction([
+      prisma.category.updateMany({
+        where: { id: block.categoryId, deletedAt: { not: null } },
+        data: { deletedAt: null },
+      }),
+      prisma.scheduleBlock.update({
+        where: { id },
+        data: { deletedAt: null },
+        include: { category: true },
+      }),
+    ]);
+
+    if (block.category.deletedAt) {
+      await HistoryService.record(
+        context,
+        'category',
+        block.categoryId,
+        'restore',
+        HistoryService.snapshotCategory(block.category),
+        HistoryService.snapshotCategory(restoredBlock.category)
+      );
+    }
+
+    await HistoryService.record(
+      context,
+      'block',
+      id,
+      'restore',
+      HistoryService.snapshotBlock(block),
+      HistoryService.snapshotBlock(restoredBlock)
+    );
+
+    return restoredBlock;
+  }
+
+  static async restoreCategory(context: HistoryContext, id: string) {
+    const category = await this.getTrashedCategory(context.workspaceId, id);
+
+    const restoredCategory = await prisma.category.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+
+    await HistoryService.record(
+      context,
+      'category',
+      id,
+      'restore',
+      HistoryService.snapshotCategory(category),
+      HistoryService.snapshotCategory(restoredCategory)
+    );
+
+    return restoredCategory;
+  }
+
+  static async purgeBlock(context: HistoryContext, id: string): Promise<void> {
+    const block = await this.getTrashedBlock(context.workspaceId, id);
+    await prisma.scheduleBlock.delete({ where: { id } });
+
+    await HistoryService.record(context, 'block', id, 'purge', HistoryService.snapshotBlock(block), null);
+  }
+
+  /**
+   * Permanently delete a category together with the trashed blocks that still use it
+   */
+  static async purgeCategory(context: HistoryContext, id: string): Promise<void> {
+    const category = await this.getTrashedCategory(context.workspaceId, id);
+    const blocks = await prisma.scheduleBlock.findMany({
+      where: { categoryId: id, deletedAt: { not: null } },
+    });
+
+    await prisma.$transaction([
+      prisma.scheduleBlock.deleteMany({ where: { id: { in: blocks.map(block => block.id) } } }),
+      prisma.category.delete({ where: { id } }),
+    ]);
+
+    await this.recordPurge(context, blocks, [category]);
+  }
+
+  static async emptyTrash(context: HistoryContext): Promise<void> {
+    const { blocks, categories } = await this.purgeBefore(context.workspaceId, new Date());
+    await this.recordPurge(context, blocks, categories);
+  }
+
+  /**
+   * Delete items trashed longer than the retention period
+   */
+  static async purgeExpired(workspaceId: string): Promise<void> {
+    const { blocks, categories } = await this.purgeBefore(workspaceId, subDays(new Date(), TRASH_RETENTION_DAYS));
+    await this.recordPurge(HistoryService.getSystemContext(workspaceId), blocks, categories);
+  }
+
+  private static async purgeBefore(workspaceId: string, date: Date) {
+    // A purged category takes its trashed blocks with it
+    const [blocks, categories] = await Promise.all([
+      prisma.scheduleBlock.findMany({
+        where: {
+          workspaceId,
+          OR: [
+            { deletedAt: { lte: date } },
+            { deletedAt: { not: null }, category: { deletedAt: { lte: date } } },
+          ],
+        },
+      }),
+      prisma.category.findMany({
+        where: { workspaceId, deletedAt: { lte: date } },
+      }),
+    ]);
+
+    // Blocks go first so that no category is deleted while still in use
+    await prisma.$transaction([
+      prisma.scheduleBlock.deleteMany({ where: { id: { in: blocks.map(block => block.id) } } }),
+      prisma.category.deleteMany({ where: { id: { in: categories.map(category => category.id) } } }),
+    ]);
+
+    return { blocks, categories };
+  }
+
+  private static async recordPurge(
+    context: HistoryContext,
+    blocks: ScheduleBlock[],
+    categories: Category[]
+  ): Promise<void> {
+    await HistoryService.recordMany(context, 'block', 'purge', blocks.map(block => ({
+      entityId: block.id,
+      before: HistoryService.snapshotBlock(block),
+      after: null,
+    })));
+    await HistoryService.recordMany(context, 'category', 'purge', categories.map(category => ({
+      entityId: category.id,
+      before: HistoryService.snapshotCategory(category),
+      after: null,
+    })));
+  }
+
+  private static async getTrashedBlock(workspaceId: string, id: string) {
+    const block = await prisma.scheduleBlock.findFirst({
+      where: { id, workspaceId, deletedAt: { not: null } },
+      include: { category: true },
+    });
+
+    if (!block) {
+      throw new NotFoundError('El bloque no está en la papelera');
+    }
+
+    return block;
+  }
+
+  private static async getTrashedCategory(workspaceId: string, id: string) {
+    const category = await prisma.category.findFirst({
+      where: { id, workspaceId, deletedAt: { not: null } },
+    });
+
+    if (!category) {
+      throw new NotFoundError('La categoría no está en la papelera');
+    }
+
+    return category;
+  }
+}
@@ -7,29 +7,180 @@ export interface ScheduleBlock {
   description?: string;
   startTime: Date;
   endTime: Date;
+  allDay?: boolean; // Shown in the all-day lane; startTime and endTime are the midnights around the days
+  allowOverlap?: boolean; // Other blocks may share its time (so may the blocks of a category that allows it)
   categoryId: string;
   category: Category;
+  tags?: Tag[];
+  checklistItems?: ChecklistItem[]; // In display order
+  location?: string | null;
+  meetingUrl?: string | null; // Video call link
+  attendees?: BlockAttendee[];
+  recurrenceRule?: string | null; // RRULE string, e.g. FREQ=WEEKLY;BYDAY=MO,WE
+  timeZone?: string | null; // Zone where the occurrences keep their time of day
+  originalStartTime?: Date; // Set on expanded occurrences of a recurring block
+  status: BlockStatus;
+  deletedAt?: Date | null; // Set while the block is in the trash
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Person invited to a block
+export interface BlockAttendee {
+  id: string;
+  email: string;
+}
+
+// Step of a block; done items count towards the completion of planned and partial blocks
+export interface ChecklistItem {
+  id: string;
+  blockId: string;
+  title: string;
+  done: boolean;
+  position: number;
+}
+
+// Completion status of a block (or of an occurrence of a recurring block)
+export type BlockStatus = 'planned' | 'done' | 'skipped' | 'partial';
+
+// Signed-in account
+export interface User {
+  id: string;
+  email: string;
+  name?: string | null;
+}
+
+// Settings of the signed-in user
+export interface UserPreferences {
+  timeZone: string; // IANA zone (e.g. America/Mexico_City) for weeks, the grid and exports
+  weekStartsOn: WeekDay; // First day of the week: 0 = Sunday, 1 = Monday...
+  slotMinutes: SlotMinutes; // Size of the grid slots; block times are rounded to it
+  workingHours: WorkingHoursRange[]; // Working time of each weekday; days without ranges are off
+  reminderMinutes: number; // Minutes before a new block to remind it, 0 = no reminder
+  defaultBlockMinutes: number; // Duration of new blocks
+  locale: string; // Locale of dates and times (e.g. es-MX)
+}
+
+// Working time on a weekday, in minutes from midnight (end not included). A day can have
+// several ranges, e.g. around a lunch break
+export interface WorkingHoursRange {
+  weekday: WeekDay; // 0 = Sunday
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+// Shared planning space; blocks and categories belong to one
+export interface Workspace {
+  id: string;
+  name: string;
+  isPersonal: boolean;
+  role: WorkspaceRole; // Role of the signed-in user
+  isCurrent: boolean;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  userId: string;
+  role: WorkspaceRole;
+  user: User;
+}
+
 export interface Category {
   id: string;
   name: string;
   color: string; // Hex color code
+  position?: number; // Order among its sibling categories
+  parentId?: string | null; // Parent category; sub-categories roll their time up into it
+  allowOverlap?: boolean; // Its blocks may overlap others, e.g. background availability
+  archivedAt?: Date | null; // Archived categories are not offered for new blocks
+  deletedAt?: Date | null; // Set while the category is in the trash
+}
+
+// Free-form label of blocks, independent of the category
+export interface Tag {
+  id: string;
+  name: string;
+}
+
+// Trashed items of the current workspace, purged after `retentionDays`
+export interface TrashContents {
+  blocks: ScheduleBlock[];
+  categories: Category[];
+  retentionDays: number;
+}
+
+// Version of a block recorded in the change history (dates as ISO strings)
+export interface BlockSnapshot {
+  title: string;
+  description: string | null;
+  startTime: string;
+  endTime: string;
+  allDay?: boolean;
+  allowOverlap?: boolean;
+  categoryId: string;
+  recurrenceRule: string | null;
+  status: BlockStatus;
+  deletedAt: string | null;
+  tags?: string[];
+  location?: string | null;
+  meetingUrl?: string | null;
+  attendees?: string[];
+  originalStartTime?: string; // Set when the change only touched one occurrence
+  cancelled?: boolean;
+}
+
+export type HistoryAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'revert';
+
+// Who changed a block, how and when
+export interface HistoryEntry {
+  id: string;
+  entityId: string;
+  action: HistoryAction;
+  before: BlockSnapshot | null;
+  after: BlockSnapshot | null;
+  actor?: User | null; // null for changes made by the app itself
+  source: 'web' | 'api' | 'system';
+  createdAt: Date;
+}
+
+// Time actually spent, optionally linked to a planned block
+export interface TimeEntry {
+  id: string;
+  blockId?: string | null;
+  occurrenceStartTime?: Date | null; // Original start of the tracked occurrence when the block repeats
+  categoryId?: string | null;
+  category?: Category | null;
+  description?: string | null;
+  startTime: Date;
+  endTime?: Date | null; // null while the timer is running
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Recurrence types
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks
+  byWeekday?: WeekDay[]; // Weekly rules only
+  until?: Date;
+  count?: number;
 }
 
 // Grid and time types
 export interface TimeSlot {
   day: number; // 0-6 (Sunday-Saturday)
   hour: number; // 0-23
-  minute: number; // 0 or 30
+  minute: number; // Start of the slot within the hour: 0, 15, 30 or 45
 }
 
 export interface GridPosition {
   column: number; // 1-7 (days of week)
-  row: number; // 1-48 (30min slots per day)
-  span: number; // Duration in 30min slots
+  row: number; // 1 to the number of slots per day (96 with 15-minute slots)
+  span: number; // Duration in slots
 }
 
 // Form data types
@@ -38,19 +189,42 @@ export interface BlockFormData {
   description?: string;
   startTime: Date;
   endTime: Date;
+  allDay?: boolean;
+  allowOverlap?: boolean;
   categoryId: string;
+  recurrenceRule?: string | null;
+  tags?: string[]; // Tag names
+  checklist?: string[]; // Item titles, only used when creating a block
+  location?: string | null;
+  meetingUrl?: string | null;
+  attendees?: string[]; // Emails
 }
 
 export interface CategoryFormData {
   name: string;
   color: string;
+  parentId?: string | null;
+  allowOverlap?: boolean;
 }
 
 // API operation types
 export interface CreateBlockData extends Omit<BlockFormData, 'id'> {}
 export interface UpdateBlockData extends Partial<BlockFormData> {}
 export interface CreateCategoryData extends CategoryFormData {}
+export interface StartTimerData {
+  blockId?: string;
+  originalStartTime?: Date; // Occurrence being tracked when the block repeats
+  categoryId?: string;
+  description?: string;
+}
 export interface UpdateCategoryData extends Partial<CategoryFormData> {}
+export interface LoginData {
+  email: string;
+  password: string;
+}
+export interface RegisterData extends LoginData {
+  name?: string;
+}
 
 // API response types
 export interface ApiResponse<T> {
@@ -79,14 +253,215 @@ export interface BlockPosition {
   position: GridPosition;
 }
 
+// Hook option types
+export interface CreateBlockOptions {
+  onSuccess?: (block: ScheduleBlock) => void;
+  onConflict?: (conflicts: ScheduleBlock[]) => void;
+  enableReminders?: boolean;
+  syncToCalendar?: 'google' | 'outlook' | 'ics' | null;
+}
+
+// Copying the blocks of a week into another week
+export type CopyWeekConflictStrategy = 'skip' | 'overwrite' | 'abort';
+
+export interface CopyWeekData {
+  sourceWeek: Date;
+  targetWeek: Date;
+  categoryIds?: string[];
+  days?: WeekDay[];
+  onConflict?: CopyWeekConflictStrategy;
+  dryRun?: boolean;
+}
+
+// A block of the target week in the way of a copy (occurrences carry originalStartTime)
+export interface ConflictingBlock {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  originalStartTime?: Date;
+}
+
+export interface CopyWeekConflict {
+  block: ConflictingBlock; // Source block at its target time
+  conflictingBlocks: ConflictingBlock[];
+}
+
+export interface CopyWeekResult {
+  created: ScheduleBlock[];
+  conflicts: CopyWeekConflict[];
+  overwritten: (ConflictingBlock & { historyEntryId: string })[]; // Moved to the trash (or cancelled occurrences)
+  total: number; // Blocks selected in the source week (or in the template)
+}
+
+// Reusable week layout; blocks are placed relative to the start of the week
+export interface WeekTemplateBlock {
+  id: string;
+  title: string;
+  description?: string | null;
+  weekday: number; // 0 = Sunday
+  startMinutes: number; // Minutes from midnight
+  durationMinutes: number; // Whole days for all-day blocks
+  allDay?: boolean;
+  allowOverlap?: boolean;
+  categoryId: string;
+  category: Category;
+}
+
+export interface WeekTemplate {
+  id: string;
+  name: string;
+  blocks: WeekTemplateBlock[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWeekTemplateData {
+  name: string;
+  sourceWeek: Date; // Week whose single blocks are saved in the template
+}
+
+export interface ApplyWeekTemplateData {
+  week: Date;
+  onConflict?: CopyWeekConflictStrategy;
+  dryRun?: boolean;
+}
+
+// Which occurrences of a recurring block an edit or delete applies to
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+export interface RecurrenceScopeOptions {
+  scope?: RecurrenceScope;
+  originalStartTime?: Date; // Occurrence being edited or deleted when the block repeats
+}
+
 // Hook return types
 export interface UseScheduleBlocksReturn {
   blocks: ScheduleBlock[];
   isLoading: boolean;
   error: string | null;
-  createBlock: (data: CreateBlockData) => Promise<void>;
-  updateBlock: (id: string, data: UpdateBlockData) => Promise<void>;
-  deleteBlock: (id: string) => Promise<void>;
+  createBlock: (data: CreateBlockData, options?: CreateBlockOptions) => Promise<ScheduleBlock>;
+  updateBlock: (id: string, data: UpdateBlockData, options?: RecurrenceScopeOptions) => Promise<void>;
+  deleteBlock: (id: string, options?: RecurrenceScopeOptions) => Promise<void>;
+  updateBlockStatus: (id: string, status: BlockStatus, originalStartTime?: Date) => Promise<void>;
+  copyWeek: (data: CopyWeekData) => Promise<CopyWeekResult>;
+  applyTemplate: (templateId: string, data: ApplyWeekTemplateData) => Promise<CopyWeekResult>;
+  updateChecklist: (blockId: string, items: ChecklistItem[]) => void; // Local only, the items are already saved
+  // Undo/redo the last grid operations; resolve with the label of the operation (null when there is none)
+  undo: () => Promise<string | null>;
+  redo: () => Promise<string | null>;
+  canUndo: boolean;
+  canRedo: boolean;
+  refetch: () => Promise<void>;
+}
+
+export interface UseTimeEntriesReturn {
+  entries: TimeEntry[];
+  activeEntry: TimeEntry | null;
+  isLoading: boolean;
+  error: string | null;
+  startTimer: (data?: StartTimerData) => Promise<TimeEntry>;
+  stopTimer: () => Promise<TimeEntry>;
+  refetch: () => Promise<void>;
+}
+
+export interface UseAuthReturn {
+  user: User | null;
+  isLoading: boolean;
+  error: string | null;
+  login: (data: LoginData) => Promise<User>;
+  register: (data: RegisterData) => Promise<User>;
+  logout: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export interface UsePreferencesReturn {
+  preferences: UserPreferences; // Defaults until they are loaded
+  isLoading: boolean;
+  error: string | null;
+  updatePreferences: (data: Partial<UserPreferences>) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export interface UseTrashReturn {
+  trash: TrashContents;
+  isLoading: boolean;
+  error: string | null;
+  restoreBlock: (id: string) => Promise<void>;
+  restoreCategory: (id: string) => Promise<void>;
+  purgeBlock: (id: string) => Promise<void>;
+  purgeCategory: (id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export interface UseWeekTemplatesReturn {
+  templates: WeekTemplate[];
+  isLoading: boolean;
+  error: string | null;
+  createTemplate: (data: CreateWeekTemplateData) => Promise<WeekTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export interface UseCategoriesReturn {
+  categories: Category[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  createCategory: (data: CreateCategoryData) => Promise<Category>;
+  updateCategory: (id: string, data: UpdateCategoryData) => Promise<Category>;
+  // With reassignTo, the blocks of the category move to that category before it is trashed
+  deleteCategory: (id: string, options?: { reassignTo?: string }) => Promise<void>;
+  mergeCategory: (id: string, targetId: string) => Promise<void>;
+  setArchived: (id: string, archived: boolean) => Promise<void>;
+  reorderCategories: (ids: string[]) => Promise<void>;
+}
+
+export interface UseChecklistReturn {
+  items: ChecklistItem[];
+  isLoading: boolean;
+  error: string | null;
+  addItem: (title: string) => Promise<void>;
+  updateItem: (itemId: string, data: { title?: string; done?: boolean }) => Promise<void>;
+  deleteItem: (itemId: string) => Promise<void>;
+  reorderItems: (ids: string[]) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export interface UseTagsReturn {
+  tags: Tag[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export interface UseBlockHistoryReturn {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  error: string | null;
+  revert: (entryId: string) => Promise<ScheduleBlock>;
+  refetch: () => Promise<void>;
+}
+
+export interface UseWorkspacesReturn {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  canEdit: boolean; // Owners and editors can change blocks and categories
+  isLoading: boolean;
+  error: string | null;
+  selectWorkspace: (id: string) => Promise<void>;
+  createWorkspace: (name: string) => Promise<Workspace>;
+  refetch: () => Promise<void>;
+}
+
+export interface UseWorkspaceMembersReturn {
+  members: WorkspaceMember[];
+  isLoading: boolean;
+  error: string | null;
+  addMember: (email: string, role: WorkspaceRole) => Promise<void>;
+  updateMemberRole: (userId: string, role: WorkspaceRole) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>;
   refetch: () => Promise<void>;
 }
 
@@ -106,13 +481,14 @@ export interface UseWeekGridReturn {
   weekRangeString: string;
   getTimeSlotLabel: (slot: TimeSlot) => string;
   getDayLabel: (dayIndex: number, format?: 'short' | 'long') => string;
-  isBusinessHour: (slot: TimeSlot, startHour?: number, endHour?: number) => boolean;
+  isBusinessHour: (slot: TimeSlot) => boolean;
 }
 
 // Utility types
 export type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6; // Sunday to Saturday
 export type HourSlot = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14 | 15 | 16 | 17 | 18 | 19 | 20 | 21 | 22 | 23;
-export type MinuteSlot = 0 | 30;
+export type MinuteSlot = 0 | 15 | 30 | 45;
+export type SlotMinutes = 15 | 30 | 60; // Size of the grid slots
 
 // Error types
 export interface ValidationError {
@@ -2,107 +2,116 @@ import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { 
   ScheduleBlock, 
+  TimeEntry,
   TimeSlot, 
   GridPosition, 
   WeekInfo, 
   Category,
   WeekDay,
   HourSlot,
-  MinuteSlot
+  MinuteSlot,
+  SlotMinutes,
+  WorkingHoursRange
 } from "./types"
+import {
+  DEFAULT_TIMEZONE,
+  addZonedDays,
+  fromZonedParts,
+  getZonedMinutes,
+  getZonedParts,
+  startOfZonedDay,
+  startOfZonedWeek,
+} from "./timezone"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
 // Date manipulation utilities
+// Days, weeks and times of day are read in the user's time zone (see lib/timezone)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Get the start of the week (Sunday) for a given date
+ * Get the start of the week (midnight of its first day, Sunday by default) for a given date
  */
-export function getWeekStart(date: Date): Date {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day;
-  return new Date(d.setDate(diff));
+export function getWeekStart(date: Date, timeZone: string = DEFAULT_TIMEZONE, weekStartsOn: WeekDay = 0): Date {
+  return startOfZonedWeek(date, timeZone, weekStartsOn);
 }
 
 /**
- * Get the end of the week (Saturday) for a given date
+ * Get the end of the week (the last moment of its seventh day) for a given date
  */
-export function getWeekEnd(date: Date): Date {
-  const weekStart = getWeekStart(date);
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
-  return weekEnd;
+export function getWeekEnd(date: Date, timeZone: string = DEFAULT_TIMEZONE, weekStartsOn: WeekDay = 0): Date {
+  return new Date(addZonedDays(getWeekStart(date, timeZone, weekStartsOn), 7, timeZone).getTime() - 1);
 }
 
 /**
- * Get all days of the week for a given date
+ * Get all days of the week for a given date (their midnights)
  */
-export function getWeekDays(date: Date): Date[] {
-  const weekStart = getWeekStart(date);
-  const days: Date[] = [];
-  
-  for (let i = 0; i < 7; i++) {
-    const day = new Date(weekStart);
-    day.setDate(weekStart.getDate() + i);
-    days.push(day);
-  }
-  
-  return days;
+export function getWeekDays(date: Date, timeZone: string = DEFAULT_TIMEZONE, weekStartsOn: WeekDay = 0): Date[] {
+  const weekStart = getWeekStart(date, timeZone, weekStartsOn);
+  return Array.from({ length: 7 }, (_, i) => addZonedDays(weekStart, i, timeZone));
 }
 
 /**
  * Get week information for a given date
  */
-export function getWeekInfo(date: Date): WeekInfo {
-  const start = getWeekStart(date);
-  const end = getWeekEnd(date);
-  const days = getWeekDays(date);
+export function getWeekInfo(date: Date, timeZone: string = DEFAULT_TIMEZONE, weekStartsOn: WeekDay = 0): WeekInfo {
+  const start = getWeekStart(date, timeZone, weekStartsOn);
+  const end = getWeekEnd(date, timeZone, weekStartsOn);
+  const days = getWeekDays(date, timeZone, weekStartsOn);
   
-  // Calculate ISO week number
-  const tempDate = new Date(date);
-  tempDate.setHours(0, 0, 0, 0);
-  tempDate.setDate(tempDate.getDate() + 3 - (tempDate.getDay() + 6) % 7);
-  const week1 = new Date(tempDate.getFullYear(), 0, 4);
-  const weekNumber = 1 + Math.round(((tempDate.getTime() - week1.getTime()) / 86400000 - 3 + (week1.getDay() + 6) % 7) / 7);
+  // Weeks are numbered as ISO weeks, but starting on the chosen day: a week belongs to the
+  // year of its fourth day, and week 1 is the one holding January 4th (ISO with Monday)
+  const { year, month, day } = getZonedParts(start, timeZone);
+  const fourthDay = new Date(Date.UTC(year, month - 1, day + 3));
+  const weekYear = fourthDay.getUTCFullYear();
+  const weekNumber = Math.floor((fourthDay.getTime() - Date.UTC(weekYear, 0, 1)) / DAY_MS / 7) + 1;
   
   return {
     start,
     end,
     days,
     weekNumber,
-    year: tempDate.getFullYear(),
+    year: weekYear,
   };
 }
 
 /**
  * Navigate to previous or next week
  */
-export function navigateWeek(currentDate: Date, direction: 'prev' | 'next'): Date {
-  const newDate = new Date(currentDate);
-  const daysToAdd = direction === 'next' ? 7 : -7;
-  newDate.setDate(newDate.getDate() + daysToAdd);
-  return newDate;
+export function navigateWeek(currentDate: Date, direction: 'prev' | 'next', timeZone: string = DEFAULT_TIMEZONE): Date {
+  return addZonedDays(currentDate, direction === 'next' ? 7 : -7, timeZone);
 }
 
 /**
  * Check if two dates are in the same week
  */
-export function isSameWeek(date1: Date, date2: Date): boolean {
-  const week1Start = getWeekStart(date1);
-  const week2Start = getWeekStart(date2);
-  return week1Start.getTime() === week2Start.getTime();
+export function isSameWeek(
+  date1: Date,
+  date2: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  weekStartsOn: WeekDay = 0
+): boolean {
+  return getWeekStart(date1, timeZone, weekStartsOn).getTime() === getWeekStart(date2, timeZone, weekStartsOn).getTime();
 }
 
+// Locales offered for dates and times (the text of the app is in Spanish)
+export const SUPPORTED_LOCALES = ['es-MX', 'es-ES', 'es-AR', 'es-CO', 'es-CL', 'en-US'] as const;
+export const DEFAULT_LOCALE = 'es-MX';
+
 /**
  * Format date for display
  */
-export function formatDate(date: Date, format: 'short' | 'long' | 'day' = 'short'): string {
+export function formatDate(
+  date: Date,
+  format: 'short' | 'long' | 'day' = 'short',
+  timeZone: string = DEFAULT_TIMEZONE,
+  locale: string = DEFAULT_LOCALE
+): string {
   const options: Intl.DateTimeFormatOptions = {
-    timeZone: 'America/Mexico_City',
+    timeZone,
   };
 
   switch (format) {
@@ -122,38 +131,95 @@ export function formatDate(date: Date, format: 'short' | 'long' | 'day' = 'short
       break;
   }
 
-  return new Intl.DateTimeFormat('es-MX', options).format(date);
+  return new Intl.DateTimeFormat(locale, options).format(date);
 }
 
 /**
  * Format time for display
  */
-export function formatTime(date: Date): string {
-  return new Intl.DateTimeFormat('es-MX', {
+export function formatTime(date: Date, timeZone: string = DEFAULT_TIMEZONE, locale: string = DEFAULT_LOCALE): string {
+  return new Intl.DateTimeFormat(locale, {
     hour: '2-digit',
     minute: '2-digit',
     hour12: false,
-    timeZone: 'America/Mexico_City',
+    timeZone,
   }).format(date);
 }
 
 // Time slot utilities
+// The grid is split in slots of the size chosen by the user (a preference)
+
+export const SLOT_MINUTES_OPTIONS: SlotMinutes[] = [15, 30, 60];
+export const DEFAULT_SLOT_MINUTES: SlotMinutes = 30;
+// Block times are stored aligned to the smallest slot, so any size can show them
+export const MIN_SLOT_MINUTES: SlotMinutes = 15;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Working hours used until the user sets their own: Monday to Friday, 8:00 to 18:00
+export const DEFAULT_WORKING_HOURS: WorkingHoursRange[] = ([1, 2, 3, 4, 5] as WeekDay[])
+  .map(weekday => ({ weekday, startMinutes: 8 * 60, endMinutes: 18 * 60 }));
+
+/**
+ * Working ranges of a weekday (0 = Sunday), in order
+ */
+export function getWorkingRanges(workingHours: WorkingHoursRange[], weekday: number): WorkingHoursRange[] {
+  return workingHours
+    .filter(range => range.weekday === weekday)
+    .sort((a, b) => a.startMinutes - b.startMinutes);
+}
+
+/**
+ * Whether a time of day (minutes from midnight) of a weekday is working time
+ */
+export function isWorkingTime(workingHours: WorkingHoursRange[], weekday: number, minutes: number): boolean {
+  return workingHours.some(range =>
+    range.weekday === weekday && minutes >= range.startMinutes && minutes < range.endMinutes
+  );
+}
 
 /**
- * Generate all time slots for a day (48 slots of 30 minutes each)
+ * Whether a block falls entirely within one working range of its day in the zone
  */
-export function generateTimeSlots(): TimeSlot[] {
+export function isWithinWorkingHours(
+  startTime: Date,
+  endTime: Date,
+  workingHours: WorkingHoursRange[],
+  timeZone: string = DEFAULT_TIMEZONE
+): boolean {
+  const nextDay = addZonedDays(startOfZonedDay(startTime, timeZone), 1, timeZone);
+  if (endTime > nextDay) {
+    return false;
+  }
+
+  const { weekday } = getZonedParts(startTime, timeZone);
+  const startMinutes = getZonedMinutes(startTime, timeZone);
+  const endMinutes = endTime.getTime() === nextDay.getTime() ? MINUTES_PER_DAY : getZonedMinutes(endTime, timeZone);
+  return getWorkingRanges(workingHours, weekday).some(range =>
+    range.startMinutes <= startMinutes && endMinutes <= range.endMinutes
+  );
+}
+
+/**
+ * Number of slots (grid rows) in a day
+ */
+export function getSlotsPerDay(slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES): number {
+  return MINUTES_PER_DAY / slotMinutes;
+}
+
+/**
+ * Generate all time slots of the week (48 slots a day with 30-minute slots)
+ */
+export function generateTimeSlots(slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES): TimeSlot[] {
   const slots: TimeSlot[] = [];
   
   for (let day = 0; day < 7; day++) {
-    for (let hour = 0; hour < 24; hour++) {
-      for (const minute of [0, 30] as MinuteSlot[]) {
-        slots.push({
-          day: day as WeekDay,
-          hour: hour as HourSlot,
-          minute,
-        });
-      }
+    for (let minutes = 0; minutes < MINUTES_PER_DAY; minutes += slotMinutes) {
+      slots.push({
+        day: day as WeekDay,
+        hour: Math.floor(minutes / 60) as HourSlot,
+        minute: (minutes % 60) as MinuteSlot,
+      });
     }
   }
   
@@ -163,88 +229,191 @@ export function generateTimeSlots(): TimeSlot[] {
 /**
  * Get time slot for a specific date
  */
-export function getTimeSlot(date: Date, weekStart: Date): TimeSlot {
-  const day = Math.floor((date.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
-  const hour = date.getHours();
-  const minute = date.getMinutes() >= 30 ? 30 : 0;
+export function getTimeSlot(
+  date: Date,
+  weekStart: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES
+): TimeSlot {
+  // Whole calendar days: days with a DST change are not 24 hours long
+  const day = Math.round((startOfZonedDay(date, timeZone).getTime() - weekStart.getTime()) / DAY_MS);
+  const minutes = Math.floor(getZonedMinutes(date, timeZone) / slotMinutes) * slotMinutes;
   
   return {
     day: Math.max(0, Math.min(6, day)) as WeekDay,
-    hour: hour as HourSlot,
-    minute: minute as MinuteSlot,
+    hour: Math.floor(minutes / 60) as HourSlot,
+    minute: (minutes % 60) as MinuteSlot,
   };
 }
 
+/**
+ * Grid row (1-based) of a time slot within its day
+ */
+export function getTimeSlotRow(slot: Pick<TimeSlot, 'hour' | 'minute'>, slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES): number {
+  return Math.floor((slot.hour * 60 + slot.minute) / slotMinutes) + 1;
+}
+
 /**
  * Convert time slot to date
  */
-export function timeSlotToDate(slot: TimeSlot, weekStart: Date): Date {
-  const date = new Date(weekStart);
-  date.setDate(date.getDate() + slot.day);
-  date.setHours(slot.hour, slot.minute, 0, 0);
-  return date;
+export function timeSlotToDate(slot: TimeSlot, weekStart: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, day } = getZonedParts(weekStart, timeZone);
+  return fromZonedParts({ year, month, day: day + slot.day, hour: slot.hour, minute: slot.minute }, timeZone);
 }
 
 /**
- * Round time to nearest 30-minute slot
+ * Round time to the nearest slot (by time of day in the zone)
  */
-export function roundToTimeSlot(date: Date): Date {
-  const rounded = new Date(date);
-  const minutes = rounded.getMinutes();
-  const roundedMinutes = minutes < 15 ? 0 : minutes < 45 ? 30 : 0;
-  const hourAdjustment = minutes >= 45 ? 1 : 0;
-  
-  rounded.setMinutes(roundedMinutes);
-  rounded.setSeconds(0);
-  rounded.setMilliseconds(0);
-  rounded.setHours(rounded.getHours() + hourAdjustment);
+export function roundToTimeSlot(
+  date: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES
+): Date {
+  const { hour, minute, second, millisecond } = getZonedParts(date, timeZone);
+  const minutes = hour * 60 + minute;
+  const roundedMinutes = Math.round(minutes / slotMinutes) * slotMinutes;
   
-  return rounded;
+  return new Date(date.getTime() + ((roundedMinutes - minutes) * 60 - second) * 1000 - millisecond);
 }
 
 // Grid position calculation utilities
 
 /**
- * Calculate grid position for a schedule block
+ * Whether a block is shown in the all-day lane instead of the time grid:
+ * all-day events and blocks lasting a whole day or more
  */
-export function calculateGridPosition(block: ScheduleBlock, weekStart: Date): GridPosition {
-  const startSlot = getTimeSlot(block.startTime, weekStart);
-  const endSlot = getTimeSlot(block.endTime, weekStart);
-  
-  // Calculate column (1-7 for Sunday-Saturday)
-  const column = startSlot.day + 1;
-  
-  // Calculate row (1-48 for 30-minute slots)
-  const row = (startSlot.hour * 2) + (startSlot.minute === 30 ? 1 : 0) + 1;
-  
-  // Calculate span (duration in 30-minute slots)
-  const startSlotIndex = (startSlot.hour * 2) + (startSlot.minute === 30 ? 1 : 0);
-  const endSlotIndex = (endSlot.hour * 2) + (endSlot.minute === 30 ? 1 : 0);
-  const span = Math.max(1, endSlotIndex - startSlotIndex);
-  
-  return { column, row, span };
+export function isAllDayLaneBlock(block: ScheduleBlock): boolean {
+  return Boolean(block.allDay) ||
+    new Date(block.endTime).getTime() - new Date(block.startTime).getTime() >= DAY_MS;
 }
 
 /**
- * Check if two blocks overlap in the grid
+ * Calculate the grid positions of a block, one per day column it covers in the week.
+ * Blocks crossing midnight are split at the end of each day.
+ */
+export function calculateGridSegments(
+  block: ScheduleBlock,
+  weekStart: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES
+): GridPosition[] {
+  const slotsPerDay = getSlotsPerDay(slotMinutes);
+  const start = new Date(block.startTime);
+  const end = new Date(block.endTime);
+  const segments: GridPosition[] = [];
+
+  for (let day = 0; day < 7; day++) {
+    const dayStart = addZonedDays(weekStart, day, timeZone);
+    const dayEnd = addZonedDays(weekStart, day + 1, timeZone);
+
+    if (start >= dayEnd || end <= dayStart) {
+      continue;
+    }
+
+    // Slots by time of day (as labelled in the grid), clipped to the day. Times that are
+    // not aligned to the slot size cover the whole slots they touch
+    const startMinutes = start <= dayStart ? 0 : getZonedMinutes(start, timeZone);
+    const endMinutes = end >= dayEnd ? MINUTES_PER_DAY : getZonedMinutes(end, timeZone);
+    const startSlotIndex = Math.min(slotsPerDay - 1, Math.floor(startMinutes / slotMinutes));
+    const endSlotIndex = Math.min(slotsPerDay, Math.ceil(endMinutes / slotMinutes));
+
+    segments.push({
+      column: day + 1,
+      row: startSlotIndex + 1,
+      span: Math.max(1, endSlotIndex - startSlotIndex),
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Calculate grid position for a schedule block (its first day when it crosses midnight)
+ */
+export function calculateGridPosition(
+  block: ScheduleBlock,
+  weekStart: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES
+): GridPosition {
+  const [firstSegment] = calculateGridSegments(block, weekStart, timeZone, slotMinutes);
+  if (firstSegment) {
+    return firstSegment;
+  }
+
+  // Outside the week: keep the day and time of its start
+  const startSlot = getTimeSlot(new Date(block.startTime), weekStart, timeZone, slotMinutes);
+  return {
+    column: startSlot.day + 1,
+    row: getTimeSlotRow(startSlot, slotMinutes),
+    span: 1,
+  };
+}
+
+/**
+ * Columns covered by an event of the all-day lane in the week (1-7), or null when it is outside
+ */
+export function calculateAllDayPosition(
+  block: ScheduleBlock,
+  weekStart: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): { column: number; span: number } | null {
+  const columns = calculateGridSegments(block, weekStart, timeZone).map(segment => segment.column);
+  if (columns.length === 0) {
+    return null;
+  }
+
+  return { column: columns[0], span: columns[columns.length - 1] - columns[0] + 1 };
+}
+
+/**
+ * Calculate grid position for a time entry, clipped to the week and to the day it starts.
+ * Running entries extend until now. Returns null when the entry is outside the week.
+ */
+export function calculateTimeEntryPosition(
+  entry: TimeEntry,
+  weekStart: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES,
+  now: Date = new Date()
+): GridPosition | null {
+  const weekEnd = addZonedDays(weekStart, 7, timeZone);
+  const start = new Date(Math.max(new Date(entry.startTime).getTime(), weekStart.getTime()));
+  const end = new Date(Math.min(entry.endTime ? new Date(entry.endTime).getTime() : now.getTime(), weekEnd.getTime()));
+
+  if (end <= start) {
+    return null;
+  }
+
+  const startSlot = getTimeSlot(start, weekStart, timeZone, slotMinutes);
+  const row = getTimeSlotRow(startSlot, slotMinutes);
+
+  // Entries crossing midnight are shown until the end of their first day
+  const dayEnd = addZonedDays(startOfZonedDay(start, timeZone), 1, timeZone);
+  const endMinutes = end >= dayEnd ? MINUTES_PER_DAY : getZonedMinutes(end, timeZone);
+  const span = Math.max(1, Math.ceil(endMinutes / slotMinutes) - (row - 1));
+
+  return { column: startSlot.day + 1, row, span };
+}
+
+/**
+ * Check if two blocks overlap in the grid (also across midnight)
  */
 export function blocksOverlap(block1: ScheduleBlock, block2: ScheduleBlock): boolean {
+  // All-day events are shown apart and never overlap
   return (
-    block1.startTime < block2.endTime && 
-    block1.endTime > block2.startTime &&
-    isSameDay(block1.startTime, block2.startTime)
+    !block1.allDay &&
+    !block2.allDay &&
+    new Date(block1.startTime) < new Date(block2.endTime) &&
+    new Date(block1.endTime) > new Date(block2.startTime)
   );
 }
 
 /**
  * Check if two dates are on the same day
  */
-export function isSameDay(date1: Date, date2: Date): boolean {
-  return (
-    date1.getFullYear() === date2.getFullYear() &&
-    date1.getMonth() === date2.getMonth() &&
-    date1.getDate() === date2.getDate()
-  );
+export function isSameDay(date1: Date, date2: Date, timeZone: string = DEFAULT_TIMEZONE): boolean {
+  return startOfZonedDay(date1, timeZone).getTime() === startOfZonedDay(date2, timeZone).getTime();
 }
 
 /**
@@ -259,28 +428,38 @@ export function getOverlappingBlocks(
   );
 }
 
+/**
+ * Get a unique key for a block; occurrences of a recurring block share its id
+ */
+export function getBlockKey(block: ScheduleBlock): string {
+  return block.originalStartTime
+    ? `${block.id}:${new Date(block.originalStartTime).toISOString()}`
+    : block.id;
+}
+
 // Color and category helper functions
 
+// Palette offered for categories
+export const CATEGORY_COLORS = [
+  '#EF4444', // red-500
+  '#F97316', // orange-500
+  '#EAB308', // yellow-500
+  '#22C55E', // green-500
+  '#06B6D4', // cyan-500
+  '#3B82F6', // blue-500
+  '#8B5CF6', // violet-500
+  '#EC4899', // pink-500
+  '#F59E0B', // amber-500
+  '#10B981', // emerald-500
+  '#6366F1', // indigo-500
+  '#84CC16', // lime-500
+];
+
 /**
- * Generate a random hex color
+ * Generate a random hex color from the category palette
  */
 export function generateRandomColor(): string {
-  const colors = [
-    '#EF4444', // red-500
-    '#F97316', // orange-500
-    '#EAB308', // yellow-500
-    '#22C55E', // green-500
-    '#06B6D4', // cyan-500
-    '#3B82F6', // blue-500
-    '#8B5CF6', // violet-500
-    '#EC4899', // pink-500
-    '#F59E0B', // amber-500
-    '#10B981', // emerald-500
-    '#6366F1', // indigo-500
-    '#84CC16', // lime-500
-  ];
-  
-  return colors[Math.floor(Math.random() * colors.length)];
+  return CATEGORY_COLORS[Math.floor(Math.random() * CATEGORY_COLORS.length)];
 }
 
 /**
@@ -341,6 +520,22 @@ export function sortCategories(categories: Category[]): Category[] {
   return [...categories].sort((a, b) => a.name.localeCompare(b.name, 'es-MX'));
 }
 
+/**
+ * Sort categories as a tree: each parent is followed by its sub-categories, sorted by position and name.
+ * Categories whose parent is missing (e.g. in the trash) are shown at the top level.
+ */
+export function sortCategoriesAsTree<T extends Category>(categories: T[]): { category: T; depth: number }[] {
+  const ids = new Set(categories.map(category => category.id));
+  const childrenOf = (parentId: string | null) => categories
+    .filter(category => (category.parentId && ids.has(category.parentId) ? category.parentId : null) === parentId)
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.name.localeCompare(b.name, 'es-MX'));
+
+  const visit = (parentId: string | null, depth: number): { category: T; depth: number }[] =>
+    childrenOf(parentId).flatMap(category => [{ category, depth }, ...visit(category.id, depth + 1)]);
+
+  return visit(null, 0);
+}
+
 /**
  * Find category by name (case insensitive)
  */
@@ -353,20 +548,28 @@ export function findCategoryByName(categories: Category[], name: string): Catego
 // Validation helpers
 
 /**
- * Validate if a time is aligned to 30-minute slots
+ * Validate if a time is aligned to the slots
  */
-export function isValidTimeSlot(date: Date): boolean {
-  const minutes = date.getMinutes();
-  return minutes === 0 || minutes === 30;
+export function isValidTimeSlot(
+  date: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES
+): boolean {
+  const { minute, second } = getZonedParts(date, timeZone);
+  return minute % slotMinutes === 0 && second === 0;
 }
 
 /**
- * Validate if a block duration is valid (minimum 30 minutes)
+ * Validate if a block duration is valid (minimum one slot)
  */
-export function isValidBlockDuration(startTime: Date, endTime: Date): boolean {
+export function isValidBlockDuration(
+  startTime: Date,
+  endTime: Date,
+  slotMinutes: SlotMinutes = DEFAULT_SLOT_MINUTES
+): boolean {
   const durationMs = endTime.getTime() - startTime.getTime();
   const durationMinutes = durationMs / (1000 * 60);
-  return durationMinutes >= 30;
+  return durationMinutes >= slotMinutes;
 }
 
 /**
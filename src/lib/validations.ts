@@ -1,7 +1,28 @@
 import { z } from 'zod';
+import { RecurrenceService } from '@/lib/recurrence';
+import { DEFAULT_TIMEZONE, getZonedParts, isValidTimeZone } from '@/lib/timezone';
+import { MIN_SLOT_MINUTES, MINUTES_PER_DAY, SUPPORTED_LOCALES } from '@/lib/utils';
+import type { SlotMinutes } from '@/lib/types';
 
 // Base validation schemas
-export const scheduleBlockSchema = z.object({
+export const tagNameSchema = z.string()
+  .trim()
+  .min(1, 'La etiqueta no puede estar vacía')
+  .max(30, 'Las etiquetas deben tener menos de 30 caracteres')
+  .refine((name) => !name.includes(','), 'Las etiquetas no pueden contener comas');
+
+export const checklistItemTitleSchema = z.string()
+  .trim()
+  .min(1, 'El elemento no puede estar vacío')
+  .max(200, 'Los elementos deben tener menos de 200 caracteres');
+
+export const attendeeEmailSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .email('El correo del asistente no es válido');
+
+// Block fields; the slot checks are added by the schemas below
+const scheduleBlockFieldsSchema = z.object({
   title: z.string()
     .min(1, 'El título es requerido')
     .max(100, 'El título debe tener menos de 100 caracteres')
@@ -17,32 +38,81 @@ export const scheduleBlockSchema = z.object({
   endTime: z.date({
     message: 'La hora de fin es requerida y debe ser una fecha válida',
   }),
+  allDay: z.boolean().optional(), // startTime and endTime are then the midnights around the days
+  allowOverlap: z.boolean().optional(), // Other blocks may share its time
   categoryId: z.string()
     .min(1, 'La categoría es requerida')
     .cuid('ID de categoría inválido'),
-}).refine((data) => {
+  recurrenceRule: z.string()
+    // Reports why, e.g. a COUNT above the limit
+    .superRefine((rule, ctx) => {
+      try {
+        RecurrenceService.parse(rule);
+      } catch (error) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `La regla de recurrencia no es válida: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    })
+    .nullable()
+    .optional(),
+  tags: z.array(tagNameSchema)
+    .max(10, 'Un bloque puede tener como máximo 10 etiquetas')
+    .optional(),
+  location: z.string()
+    .max(200, 'La ubicación debe tener menos de 200 caracteres')
+    .trim()
+    .nullable()
+    .optional(),
+  meetingUrl: z.string()
+    .trim()
+    .max(500, 'El enlace debe tener menos de 500 caracteres')
+    // Only web links: the URL is rendered as a link on the block
+    .refine((url) => url === '' || /^https?:\/\/[^\s]+$/i.test(url), 'El enlace de la reunión debe empezar por http:// o https://')
+    .nullable()
+    .optional(),
+  attendees: z.array(attendeeEmailSchema)
+    .max(50, 'Un bloque puede tener como máximo 50 asistentes')
+    .optional(),
+});
+
+// Whether a time falls on a slot boundary of the zone
+const isOnSlot = (date: Date, slotMinutes: SlotMinutes, timeZone: string) => {
+  const { minute, second, millisecond } = getZonedParts(date, timeZone);
+  return minute % slotMinutes === 0 && second === 0 && millisecond === 0;
+};
+
+/**
+ * Block fields checked against a slot size: the minimum duration is one slot and times must
+ * fall on slot boundaries of the zone. Forms and routes use the slot size and zone of the user.
+ */
+export const createScheduleBlockSchema = (
+  slotMinutes: SlotMinutes = MIN_SLOT_MINUTES,
+  timeZone: string = DEFAULT_TIMEZONE
+) => scheduleBlockFieldsSchema.refine((data) => {
   return data.endTime > data.startTime;
 }, {
   message: 'La hora de fin debe ser posterior a la hora de inicio',
   path: ['endTime'],
 }).refine((data) => {
-  // Validate that the time difference is at least 30 minutes
+  // Validate that the time difference is at least one slot
   const diffMs = data.endTime.getTime() - data.startTime.getTime();
   const diffMinutes = diffMs / (1000 * 60);
-  return diffMinutes >= 30;
+  return diffMinutes >= slotMinutes;
 }, {
-  message: 'La duración mínima debe ser de 30 minutos',
+  message: `La duración mínima debe ser de ${slotMinutes} minutos`,
   path: ['endTime'],
 }).refine((data) => {
-  // Validate that times are aligned to 30-minute slots
-  const startMinutes = data.startTime.getMinutes();
-  const endMinutes = data.endTime.getMinutes();
-  return (startMinutes === 0 || startMinutes === 30) && (endMinutes === 0 || endMinutes === 30);
+  // Validate that times are aligned to the slots
+  return [data.startTime, data.endTime].every((date) => isOnSlot(date, slotMinutes, timeZone));
 }, {
-  message: 'Las horas deben estar alineadas a intervalos de 30 minutos',
+  message: `Las horas deben estar alineadas a intervalos de ${slotMinutes} minutos`,
   path: ['startTime'],
 });
 
+export const scheduleBlockSchema = createScheduleBlockSchema();
+
 export const categorySchema = z.object({
   name: z.string()
     .min(1, 'El nombre es requerido')
@@ -51,20 +121,22 @@ export const categorySchema = z.object({
   color: z.string()
     .regex(/^#[0-9A-F]{6}$/i, 'El color debe ser un código hexadecimal válido (ej: #FF5733)')
     .length(7, 'El color debe tener exactamente 7 caracteres'),
+  parentId: z.string().cuid('ID de categoría padre inválido').nullable().optional(),
+  allowOverlap: z.boolean().optional(), // Its blocks may overlap others
 });
 
 // Time slot validation
 export const timeSlotSchema = z.object({
   day: z.number().min(0).max(6),
   hour: z.number().min(0).max(23),
-  minute: z.union([z.literal(0), z.literal(30)]),
+  minute: z.number().int().min(0).max(59).multipleOf(MIN_SLOT_MINUTES),
 });
 
-// Grid position validation
+// Grid position validation (rows of the smallest slot size at most)
 export const gridPositionSchema = z.object({
   column: z.number().min(1).max(7),
-  row: z.number().min(1).max(48),
-  span: z.number().min(1).max(48),
+  row: z.number().min(1).max(MINUTES_PER_DAY / MIN_SLOT_MINUTES),
+  span: z.number().min(1).max(MINUTES_PER_DAY / MIN_SLOT_MINUTES),
 });
 
 // Week navigation validation
@@ -73,22 +145,332 @@ export const weekNavigationSchema = z.object({
   direction: z.enum(['prev', 'next']).optional(),
 });
 
-// API request schemas
-export const createBlockSchema = scheduleBlockSchema;
-export const updateBlockSchema = scheduleBlockSchema.partial().refine((data) => {
-  // If both startTime and endTime are provided, validate them
-  if (data.startTime && data.endTime) {
-    return data.endTime > data.startTime;
-  }
-  return true;
+// API request schemas, checked against the slot size and zone of the user
+// New blocks can come with their checklist; afterwards it is edited under /api/schedule/[id]/items
+export const createBlockSchemaFor = (slotMinutes: SlotMinutes, timeZone: string) =>
+  createScheduleBlockSchema(slotMinutes, timeZone).and(z.object({
+    checklist: z.array(checklistItemTitleSchema)
+      .max(50, 'Un bloque puede tener como máximo 50 elementos')
+      .optional(),
+  }));
+
+// Only the times that are sent are checked; the route validates them merged with the stored ones
+export const updateBlockSchemaFor = (slotMinutes: SlotMinutes, timeZone: string) =>
+  scheduleBlockFieldsSchema.partial().refine((data) => {
+    // If both startTime and endTime are provided, validate them
+    if (data.startTime && data.endTime) {
+      return data.endTime > data.startTime;
+    }
+    return true;
+  }, {
+    message: 'La hora de fin debe ser posterior a la hora de inicio',
+    path: ['endTime'],
+  }).refine((data) => {
+    if (data.startTime && data.endTime) {
+      return (data.endTime.getTime() - data.startTime.getTime()) / (1000 * 60) >= slotMinutes;
+    }
+    return true;
+  }, {
+    message: `La duración mínima debe ser de ${slotMinutes} minutos`,
+    path: ['endTime'],
+  }).refine((data) => {
+    return [data.startTime, data.endTime].every((date) => !date || isOnSlot(date, slotMinutes, timeZone));
+  }, {
+    message: `Las horas deben estar alineadas a intervalos de ${slotMinutes} minutos`,
+    path: ['startTime'],
+  });
+
+export const createBlockSchema = createBlockSchemaFor(MIN_SLOT_MINUTES, DEFAULT_TIMEZONE);
+export const updateBlockSchema = updateBlockSchemaFor(MIN_SLOT_MINUTES, DEFAULT_TIMEZONE);
+
+// Checklist items of a block
+export const createChecklistItemSchema = z.object({
+  title: checklistItemTitleSchema,
+  done: z.boolean().optional(),
+});
+
+export const updateChecklistItemSchema = createChecklistItemSchema.partial().refine((data) => {
+  return data.title !== undefined || data.done !== undefined;
 }, {
-  message: 'La hora de fin debe ser posterior a la hora de inicio',
-  path: ['endTime'],
+  message: 'Debe incluir el título o el estado del elemento',
+});
+
+export const reorderChecklistItemsSchema = z.object({
+  ids: z.array(z.string().cuid('ID de elemento inválido'))
+    .min(1, 'Debe incluir al menos un elemento')
+    .max(50, 'Un bloque puede tener como máximo 50 elementos'),
+});
+
+// Bulk block changes, applied all-or-nothing
+export const scheduleBatchOperationSchemaFor = (slotMinutes: SlotMinutes, timeZone: string) =>
+  z.discriminatedUnion('op', [
+    z.object({
+      op: z.literal('create'),
+      data: createBlockSchemaFor(slotMinutes, timeZone),
+    }),
+    z.object({
+      op: z.literal('update'),
+      id: z.string().cuid('ID de bloque inválido'),
+      data: updateBlockSchemaFor(slotMinutes, timeZone),
+    }),
+    z.object({
+      op: z.literal('delete'),
+      id: z.string().cuid('ID de bloque inválido'),
+    }),
+  ]);
+
+export const scheduleBatchSchemaFor = (slotMinutes: SlotMinutes, timeZone: string) => z.object({
+  operations: z.array(scheduleBatchOperationSchemaFor(slotMinutes, timeZone))
+    .min(1, 'El lote debe tener al menos una operación')
+    .max(100, 'El lote puede tener como máximo 100 operaciones'),
+});
+
+export const scheduleBatchOperationSchema = scheduleBatchOperationSchemaFor(MIN_SLOT_MINUTES, DEFAULT_TIMEZONE);
+export const scheduleBatchSchema = scheduleBatchSchemaFor(MIN_SLOT_MINUTES, DEFAULT_TIMEZONE);
+
+// Block completion status
+export const blockStatusSchema = z.enum(['planned', 'done', 'skipped', 'partial'], {
+  message: 'El estado debe ser planned, done, skipped o partial',
+});
+
+export const updateBlockStatusSchema = z.object({
+  status: blockStatusSchema,
+});
+
+// Authentication
+export const registerSchema = z.object({
+  email: z.string()
+    .trim()
+    .toLowerCase()
+    .email('El correo no es válido'),
+  password: z.string()
+    .min(8, 'La contraseña debe tener al menos 8 caracteres')
+    .max(100, 'La contraseña debe tener menos de 100 caracteres'),
+  name: z.string()
+    .max(100, 'El nombre debe tener menos de 100 caracteres')
+    .trim()
+    .optional(),
+});
+
+export const loginSchema = z.object({
+  email: z.string()
+    .trim()
+    .toLowerCase()
+    .email('El correo no es válido'),
+  password: z.string().min(1, 'La contraseña es requerida'),
+});
+
+// Workspaces
+export const workspaceRoleSchema = z.enum(['owner', 'editor', 'viewer'], {
+  message: 'El rol debe ser owner, editor o viewer',
+});
+
+export const createWorkspaceSchema = z.object({
+  name: z.string()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre debe tener menos de 100 caracteres')
+    .trim(),
+});
+
+export const addWorkspaceMemberSchema = z.object({
+  email: z.string()
+    .trim()
+    .toLowerCase()
+    .email('El correo no es válido'),
+  role: workspaceRoleSchema.default('viewer'),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: workspaceRoleSchema,
+});
+
+// Time tracking
+export const startTimerSchema = z.object({
+  blockId: z.string().cuid('ID de bloque inválido').optional(),
+  originalStartTime: z.date({
+    message: 'originalStartTime debe ser una fecha válida',
+  }).optional(),
+  categoryId: z.string().cuid('ID de categoría inválido').optional(),
+  description: z.string()
+    .max(500, 'La descripción debe tener menos de 500 caracteres')
+    .trim()
+    .optional(),
+});
+
+// Which occurrences of a recurring block an edit or delete applies to
+export const recurrenceScopeSchema = z.enum(['this', 'following', 'all'], {
+  message: 'El alcance debe ser this, following o all',
+});
+
+// Copy the blocks of a week into another week
+export const copyWeekConflictStrategySchema = z.enum(['skip', 'overwrite', 'abort'], {
+  message: 'La estrategia de conflictos debe ser skip, overwrite o abort',
+});
+
+export const copyWeekSchema = z.object({
+  sourceWeek: z.date({
+    message: 'sourceWeek debe ser una fecha válida',
+  }),
+  targetWeek: z.date({
+    message: 'targetWeek debe ser una fecha válida',
+  }),
+  categoryIds: z.array(z.string().cuid('ID de categoría inválido')).optional(),
+  days: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday
+  onConflict: copyWeekConflictStrategySchema.default('abort'),
+  dryRun: z.boolean().optional(), // Only report what would be copied and the conflicts
+});
+
+// Week templates: blocks relative to the start of a week
+export const weekTemplateBlockSchema = z.object({
+  title: z.string()
+    .min(1, 'El título es requerido')
+    .max(100, 'El título debe tener menos de 100 caracteres')
+    .trim(),
+  description: z.string()
+    .max(500, 'La descripción debe tener menos de 500 caracteres')
+    .trim()
+    .nullable()
+    .optional(),
+  weekday: z.number().int().min(0).max(6), // 0 = Sunday
+  startMinutes: z.number().int().min(0).max(MINUTES_PER_DAY - MIN_SLOT_MINUTES)
+    .multipleOf(MIN_SLOT_MINUTES, `Las horas deben estar alineadas a intervalos de ${MIN_SLOT_MINUTES} minutos`),
+  durationMinutes: z.number().int()
+    .min(MIN_SLOT_MINUTES, `La duración mínima debe ser de ${MIN_SLOT_MINUTES} minutos`)
+    .max(7 * MINUTES_PER_DAY, 'La duración máxima es de una semana')
+    .multipleOf(MIN_SLOT_MINUTES, `La duración debe ser múltiplo de ${MIN_SLOT_MINUTES} minutos`),
+  allDay: z.boolean().optional(), // startMinutes is then 0 and durationMinutes whole days
+  allowOverlap: z.boolean().optional(),
+  categoryId: z.string().cuid('ID de categoría inválido'),
+}).refine((block) => block.allDay || block.durationMinutes <= MINUTES_PER_DAY, {
+  message: 'La duración máxima es de 24 horas',
+  path: ['durationMinutes'],
+}).refine((block) => !block.allDay || (block.startMinutes === 0 && block.durationMinutes % MINUTES_PER_DAY === 0), {
+  message: 'Los bloques de todo el día empiezan a medianoche y duran días completos',
+  path: ['durationMinutes'],
+});
+
+const weekTemplateNameSchema = z.string()
+  .min(1, 'El nombre es requerido')
+  .max(50, 'El nombre debe tener menos de 50 caracteres')
+  .trim();
+
+const WEEK_MINUTES = 7 * MINUTES_PER_DAY;
+
+export const weekTemplateBlocksSchema = z.array(weekTemplateBlockSchema)
+  .min(1, 'La plantilla debe tener al menos un bloque')
+  .max(200, 'La plantilla puede tener como máximo 200 bloques')
+  // Timed blocks must not overlap each other, as when they are created. The week may start
+  // on any day, so the last day is also compared with the first one.
+  .superRefine((blocks, ctx) => {
+    const ranges = blocks.flatMap((block, index) => {
+      if (block.allDay || block.allowOverlap) return [];
+      const start = block.weekday * MINUTES_PER_DAY + block.startMinutes;
+      return [{ index, start, end: start + block.durationMinutes }];
+    });
+
+    for (const [position, range] of ranges.entries()) {
+      const other = ranges.slice(0, position).find(other =>
+        [-WEEK_MINUTES, 0, WEEK_MINUTES].some(shift =>
+          other.start + shift < range.end && range.start < other.end + shift
+        )
+      );
+
+      if (other) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Los bloques ${other.index + 1} y ${range.index + 1} de la plantilla se superponen entre sí`,
+          path: [range.index],
+        });
+        return;
+      }
+    }
+  });
+
+export const createWeekTemplateSchema = z.object({
+  name: weekTemplateNameSchema,
+  blocks: weekTemplateBlocksSchema.optional(),
+  sourceWeek: z.date({
+    message: 'sourceWeek debe ser una fecha válida',
+  }).optional(), // Save the blocks of this week instead of `blocks`
+}).refine((data) => Boolean(data.blocks) !== Boolean(data.sourceWeek), {
+  message: 'Indica los bloques de la plantilla o la semana de la que guardarlos',
+  path: ['blocks'],
+});
+
+export const updateWeekTemplateSchema = z.object({
+  name: weekTemplateNameSchema.optional(),
+  blocks: weekTemplateBlocksSchema.optional(),
+});
+
+export const applyWeekTemplateSchema = z.object({
+  week: z.date({
+    message: 'week debe ser una fecha válida',
+  }),
+  onConflict: copyWeekConflictStrategySchema.default('abort'),
+  dryRun: z.boolean().optional(), // Only report what would be created and the conflicts
+});
+
+// Version of a history entry a block is reverted to (before is used to undo the change)
+export const historyVersionSchema = z.enum(['before', 'after'], {
+  message: 'La versión debe ser before o after',
 });
 
 export const createCategorySchema = categorySchema;
 export const updateCategorySchema = categorySchema.partial();
 
+// New order of the categories, as a list of ids
+export const reorderCategoriesSchema = z.object({
+  ids: z.array(z.string().cuid('ID de categoría inválido'))
+    .min(1, 'Debe incluir al menos una categoría')
+    .max(200, 'Demasiadas categorías'),
+});
+
+// Target of a category merge (or of the blocks of a deleted category)
+export const mergeCategorySchema = z.object({
+  targetId: z.string().cuid('ID de categoría de destino inválido'),
+});
+
+// Working hours: ranges of a weekday, in minutes from midnight
+export const workingHoursRangeSchema = z.object({
+  weekday: z.number().int().min(0).max(6), // 0 = Sunday
+  startMinutes: z.number().int().min(0).max(MINUTES_PER_DAY - MIN_SLOT_MINUTES)
+    .multipleOf(MIN_SLOT_MINUTES, `Las horas deben estar alineadas a intervalos de ${MIN_SLOT_MINUTES} minutos`),
+  endMinutes: z.number().int().min(MIN_SLOT_MINUTES).max(MINUTES_PER_DAY)
+    .multipleOf(MIN_SLOT_MINUTES, `Las horas deben estar alineadas a intervalos de ${MIN_SLOT_MINUTES} minutos`),
+}).refine((range) => range.endMinutes > range.startMinutes, {
+  message: 'Cada horario debe terminar después de empezar',
+  path: ['endMinutes'],
+});
+
+export const workingHoursSchema = z.array(workingHoursRangeSchema)
+  .max(50, 'Demasiados horarios de trabajo')
+  .refine((ranges) => ranges.every((range, index) => ranges.every((other, otherIndex) =>
+    otherIndex === index ||
+    other.weekday !== range.weekday ||
+    other.endMinutes <= range.startMinutes ||
+    other.startMinutes >= range.endMinutes
+  )), 'Los horarios de un mismo día no pueden superponerse');
+
+// Settings of the signed-in user
+export const preferencesSchema = z.object({
+  timeZone: z.string()
+    .refine((timeZone) => isValidTimeZone(timeZone), 'La zona horaria no es válida'),
+  weekStartsOn: z.number().int().min(0).max(6), // 0 = Sunday, 1 = Monday...
+  slotMinutes: z.union([z.literal(15), z.literal(30), z.literal(60)], {
+    message: 'El tamaño de intervalo debe ser de 15, 30 o 60 minutos',
+  }),
+  reminderMinutes: z.number().int()
+    .min(0, 'La antelación del recordatorio no puede ser negativa')
+    .max(MINUTES_PER_DAY, 'La antelación máxima del recordatorio es de 24 horas'), // 0 = no reminder
+  defaultBlockMinutes: z.number().int()
+    .min(MIN_SLOT_MINUTES, `La duración por defecto mínima es de ${MIN_SLOT_MINUTES} minutos`)
+    .max(MINUTES_PER_DAY, 'La duración por defecto máxima es de 24 horas')
+    .multipleOf(MIN_SLOT_MINUTES, `La duración por defecto debe ser múltiplo de ${MIN_SLOT_MINUTES} minutos`),
+  locale: z.enum(SUPPORTED_LOCALES, { message: 'El idioma de las fechas no es válido' }),
+  workingHours: workingHoursSchema, // Replaces all the ranges
+});
+export const updatePreferencesSchema = preferencesSchema.partial();
+
 // Query parameter schemas
 export const weekQuerySchema = z.object({
   date: z.string().datetime().optional(),
@@ -102,8 +484,8 @@ export const blockQuerySchema = z.object({
 });
 
 // Form validation helpers
-export const validateTimeSlot = (hour: number, minute: number): boolean => {
-  return hour >= 0 && hour <= 23 && (minute === 0 || minute === 30);
+export const validateTimeSlot = (hour: number, minute: number, slotMinutes: SlotMinutes = MIN_SLOT_MINUTES): boolean => {
+  return hour >= 0 && hour <= 23 && minute >= 0 && minute < 60 && minute % slotMinutes === 0;
 };
 
 export const validateDateRange = (startDate: Date, endDate: Date): boolean => {
@@ -124,8 +506,30 @@ export type ScheduleBlockInput = z.infer<typeof scheduleBlockSchema>;
 export type CategoryInput = z.infer<typeof categorySchema>;
 export type CreateBlockInput = z.infer<typeof createBlockSchema>;
 export type UpdateBlockInput = z.infer<typeof updateBlockSchema>;
+export type CreateChecklistItemInput = z.infer<typeof createChecklistItemSchema>;
+export type UpdateChecklistItemInput = z.infer<typeof updateChecklistItemSchema>;
+export type ScheduleBatchOperationInput = z.infer<typeof scheduleBatchOperationSchema>;
+export type UpdateBlockStatusInput = z.infer<typeof updateBlockStatusSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type WorkspaceRoleInput = z.infer<typeof workspaceRoleSchema>;
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>;
+export type AddWorkspaceMemberInput = z.infer<typeof addWorkspaceMemberSchema>;
+export type UpdateWorkspaceMemberInput = z.infer<typeof updateWorkspaceMemberSchema>;
+export type StartTimerInput = z.infer<typeof startTimerSchema>;
+export type RecurrenceScopeInput = z.infer<typeof recurrenceScopeSchema>;
+export type HistoryVersionInput = z.infer<typeof historyVersionSchema>;
+export type CopyWeekInput = z.infer<typeof copyWeekSchema>;
+export type WeekTemplateBlockInput = z.infer<typeof weekTemplateBlockSchema>;
+export type CreateWeekTemplateInput = z.infer<typeof createWeekTemplateSchema>;
+export type UpdateWeekTemplateInput = z.infer<typeof updateWeekTemplateSchema>;
+export type ApplyWeekTemplateInput = z.infer<typeof applyWeekTemplateSchema>;
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type ReorderCategoriesInput = z.infer<typeof reorderCategoriesSchema>;
+export type MergeCategoryInput = z.infer<typeof mergeCategorySchema>;
+export type UpdatePreferencesInput = z.infer<typeof updatePreferencesSchema>;
+export type WorkingHoursRangeInput = z.infer<typeof workingHoursRangeSchema>;
 export type TimeSlotInput = z.infer<typeof timeSlotSchema>;
 export type GridPositionInput = z.infer<typeof gridPositionSchema>;
 export type WeekQueryInput = z.infer<typeof weekQuerySchema>;
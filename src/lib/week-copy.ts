@@ -0,0 +1,267 @@
+import { prisma } from '@/lib/prisma';
+import { addZonedDays, getZonedParts, startOfZonedWeek } from '@/lib/timezone';
+import { ScheduleOverlapService, type OverlappingBlock } from '@/lib/schedule-overlap';
+import { RecurringSeriesService } from '@/lib/recurring-series';
+import { TrashService } from '@/lib/trash';
+import { HistoryService, type BlockSnapshot, type HistoryContext } from '@/lib/history';
+import { ATTENDEES_INCLUDE, AttendeeService } from '@/lib/attendees';
+import { ConflictError, ValidationError } from '@/lib/api-utils';
+import type { CopyWeekInput } from '@/lib/validations';
+
+export interface CopyWeekConflict {
+  block: { id: string; title: string; startTime: Date; endTime: Date }; // Source block at its new time
+  conflictingBlocks: OverlappingBlock[];
+}
+
+// A block about to be created from another block (or a template block)
+export interface PlannedBlock {
+  sourceId: string;
+  title: string;
+  description: string | null;
+  startTime: Date;
+  endTime: Date;
+  allDay?: boolean;
+  timeZone?: string | null;
+  allowOverlap?: boolean;
+  categoryId: string;
+  category?: { allowOverlap: boolean }; // Whether its blocks may overlap others
+  tags?: { id: string }[];
+  location?: string | null;
+  meetingUrl?: string | null;
+  attendees?: string[]; // Emails
+}
+
+// A block removed to make room for the copies, with the history entry that can bring it back
+export type OverwrittenBlock = OverlappingBlock & { historyEntryId: string };
+
+// A block in the way of the copies. Occurrences keep their version for the history, as
+// cancelling them leaves none.
+interface Removal {
+  block: OverlappingBlock;
+  occurrence?: BlockSnapshot;
+}
+
+export type CopyWeekConflictStrategy = 'skip' | 'overwrite' | 'abort';
+
+export class WeekCopyService {
+  /**
+   * Copy the single blocks of a week into another week, keeping day and time of day in the
+   * user's time zone (and weeks starting on the user's first day of the week).
+   * Recurring blocks are not copied: their series already repeats.
+   */
+  static async copyWeek(context: HistoryContext, input: CopyWeekInput, timeZone: string, weekStartsOn: number = 0) {
+    const sourceStart = startOfZonedWeek(input.sourceWeek, timeZone, weekStartsOn);
+    const targetStart = startOfZonedWeek(input.targetWeek, timeZone, weekStartsOn);
+    // Rounded: weeks with a DST change are an hour shorter or longer
+    const weeks = Math.round((targetStart.getTime() - sourceStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
+
+    if (weeks === 0) {
+      throw new ValidationError('La semana de destino debe ser distinta de la de origen');
+    }
+
+    const sourceBlocks = await prisma.scheduleBlock.findMany({
+      where: {
+        workspaceId: context.workspaceId,
+        deletedAt: null,
+        recurrenceRule: null,
+        startTime: { gte: sourceStart, lt: addZonedDays(sourceStart, 7, timeZone) },
+        ...(input.categoryIds && { categoryId: { in: input.categoryIds } }),
+      },
+      include: {
+        category: { select: { allowOverlap: true } },
+        tags: { select: { id: true } },
+        attendees: { select: { email: true } },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const copies: PlannedBlock[] = sourceBlocks
+      .filter(block => !input.days || input.days.includes(getZonedParts(block.startTime, timeZone).weekday))
+      .map(block => ({
+        sourceId: block.id,
+        title: block.title,
+        description: block.description,
+        startTime: addZonedDays(block.startTime, weeks * 7, timeZone),
+        endTime: addZonedDays(block.endTime, weeks * 7, timeZone),
+        allDay: block.allDay,
+        timeZone,
+        allowOverlap: block.allowOverlap,
+        categoryId: block.categoryId,
+        category: block.category,
+        tags: block.tags,
+        location: block.location,
+        meetingUrl: block.meetingUrl,
+        attendees: block.attendees.map(attendee => attendee.email),
+      }));
+
+    const result = await this.placeBlocks(context, copies, input);
+
+    return { ...result, total: copies.length };
+  }
+
+  /**
+   * Create blocks in a week, checking each one against the existing blocks with the same
+   * overlap logic as `POST /api/schedule`. Conflicting blocks are skipped, replace the
+   * blocks in the way (overwrite) or cancel the whole operation (abort).
+   * Blocks that overlap each other always fail, dry runs included.
+   */
+  static async placeBlocks(
+    context: HistoryContext,
+    blocks: PlannedBlock[],
+    { onConflict, dryRun }: { onConflict: CopyWeekConflictStrategy; dryRun?: boolean }
+  ) {
+    const intervalsByBlock = blocks.map(block => ScheduleOverlapService.getBlockIntervals(block));
+
+    // The blocks must not overlap each other either (the ones allowed to overlap occupy no intervals)
+    const batchConflict = ScheduleOverlapService.findBatchConflict(
+      intervalsByBlock.map((intervals, index) => ({ index, intervals }))
+    );
+    if (batchConflict) {
+      const [first, second] = batchConflict.map(index => blocks[index]);
+      throw new ConflictError(
+        `Los bloques "${first.title}" y "${second.title}" se superponen entre sí`,
+        {
+          blocks: [first, second].map(block => ({
+            id: block.sourceId,
+            title: block.title,
+            startTime: block.startTime,
+            endTime: block.endTime,
+          })),
+        }
+      );
+    }
+
+    const conflicts: CopyWeekConflict[] = [];
+    for (const [index, block] of blocks.entries()) {
+      const conflictingBlocks = await ScheduleOverlapService.findOverlappingBlocks(
+        context.workspaceId,
+        intervalsByBlock[index]
+      );
+
+      if (conflictingBlocks.length > 0) {
+        conflicts.push({
+          block: { id: block.sourceId, title: block.title, startTime: block.startTime, endTime: block.endTime },
+          conflictingBlocks,
+        });
+      }
+    }
+
+    if (dryRun) {
+      return { created: [], conflicts, overwritten: [] };
+    }
+
+    if (conflicts.length > 0 && onConflict === 'abort') {
+      throw new ConflictError(
+        'Algunos bloques se superponen con bloques existentes',
+        { conflicts }
+      );
+    }
+
+    const removals = onConflict === 'overwrite'
+      ? await this.getRemovals(conflicts)
+      : [];
+
+    const conflictingIds = new Set(conflicts.map(conflict => conflict.block.id));
+    const blocksToCreate = onConflict === 'skip'
+      ? blocks.filter(block => !conflictingIds.has(block.sourceId))
+      : blocks;
+
+    // Removals and copies are written in one transaction: all of them happen or none does
+    const deletedAt = new Date();
+    const results = await prisma.$transaction([
+      ...removals.map(({ block }) =>
+        prisma.scheduleBlock.update({
+          where: { id: block.id },
+          data: block.originalStartTime
+            ? {
+                exceptions: {
+                  upsert: {
+                    where: { blockId_originalStartTime: { blockId: block.id, originalStartTime: block.originalStartTime } },
+                    create: { originalStartTime: block.originalStartTime, cancelled: true },
+                    update: { cancelled: true },
+                  },
+                },
+              }
+            : { deletedAt },
+          include: { category: true, tags: true, ...ATTENDEES_INCLUDE },
+        })
+      ),
+      ...blocksToCreate.map(block =>
+        prisma.scheduleBlock.create({
+          data: {
+            workspaceId: context.workspaceId,
+            title: block.title,
+            description: block.description,
+            startTime: block.startTime,
+            endTime: block.endTime,
+            allDay: block.allDay ?? false,
+            timeZone: block.timeZone ?? null,
+            allowOverlap: block.allowOverlap ?? false,
+            categoryId: block.categoryId,
+            location: block.location ?? null,
+            meetingUrl: block.meetingUrl ?? null,
+            ...(block.tags && { tags: { connect: block.tags } }),
+            ...(block.attendees && { attendees: AttendeeService.toCreate(block.attendees) }),
+          },
+          include: { category: true, tags: true, ...ATTENDEES_INCLUDE },
+        })
+      ),
+    ]);
+    const created = results.slice(removals.length);
+
+    const overwritten: OverwrittenBlock[] = [];
+    for (const [index, { block, occurrence }] of removals.entries()) {
+      const removedBlock = results[index];
+      const historyEntryId = occurrence
+        ? await HistoryService.record(context, 'block', block.id, 'delete', occurrence, null)
+        : await HistoryService.record(
+            context,
+            'block',
+            block.id,
+            'delete',
+            HistoryService.snapshotBlock({ ...removedBlock, deletedAt: null }),
+            HistoryService.snapshotBlock(removedBlock)
+          );
+      overwritten.push({ ...block, historyEntryId });
+    }
+
+    if (removals.some(removal => !removal.occurrence)) {
+      await TrashService.purgeExpired(context.workspaceId);
+    }
+
+    await HistoryService.recordMany(context, 'block', 'create', created.map(block => ({
+      entityId: block.id,
+      before: null,
+      after: HistoryService.snapshotBlock(block),
+    })));
+
+    return { created, conflicts, overwritten };
+  }
+
+  /**
+   * What has to go to make room for the copies: single blocks go to the trash and
+   * occurrences of recurring blocks are cancelled
+   */
+  private static async getRemovals(conflicts: CopyWeekConflict[]): Promise<Removal[]> {
+    const blocksInTheWay = new Map<string, OverlappingBlock>();
+    for (const conflict of conflicts) {
+      for (const block of conflict.conflictingBlocks) {
+        blocksInTheWay.set(`${block.id}:${block.originalStartTime?.toISOString() ?? ''}`, block);
+      }
+    }
+
+    const removals: Removal[] = [];
+    for (const block of blocksInTheWay.values()) {
+      if (!block.originalStartTime) {
+        removals.push({ block });
+        continue;
+      }
+
+      const series = await prisma.scheduleBlock.findUniqueOrThrow({ where: { id: block.id } });
+      const occurrence = await RecurringSeriesService.getOccurrence(series, block.originalStartTime);
+      removals.push({ block, occurrence: HistoryService.snapshotBlock(occurrence, block.originalStartTime) });
+    }
+
+    return removals;
+  }
+}
@@ -0,0 +1,216 @@
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { addZonedDays, fromZonedParts, getZonedMinutes, getZonedParts, startOfZonedWeek } from '@/lib/timezone';
+import { WeekCopyService, type PlannedBlock } from '@/lib/week-copy';
+import { ScheduleOverlapService } from '@/lib/schedule-overlap';
+import type { HistoryContext } from '@/lib/history';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/api-utils';
+import { MINUTES_PER_DAY } from '@/lib/utils';
+import {
+  weekTemplateBlockSchema,
+  weekTemplateBlocksSchema,
+  type ApplyWeekTemplateInput,
+  type CreateWeekTemplateInput,
+  type UpdateWeekTemplateInput,
+  type WeekTemplateBlockInput,
+} from '@/lib/validations';
+
+const TEMPLATE_INCLUDE = {
+  blocks: {
+    include: { category: true },
+    orderBy: [{ weekday: 'asc' as const }, { startMinutes: 'asc' as const }],
+  },
+};
+
+export class WeekTemplateService {
+  static async list(workspaceId: string) {
+    return prisma.weekTemplate.findMany({
+      where: { workspaceId },
+      include: TEMPLATE_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  static async get(workspaceId: string, id: string) {
+    const template = await prisma.weekTemplate.findFirst({
+      where: { id, workspaceId },
+      include: TEMPLATE_INCLUDE,
+    });
+
+    if (!template) {
+      throw new NotFoundError('Plantilla no encontrada');
+    }
+
+    return template;
+  }
+
+  /**
+   * Create a template from the given blocks or from the single blocks of a week
+   * (read in the user's time zone and first day of the week)
+   */
+  static async create(
+    workspaceId: string,
+    { name, blocks, sourceWeek }: CreateWeekTemplateInput,
+    timeZone: string,
+    weekStartsOn: number = 0
+  ) {
+    const templateBlocks = sourceWeek
+      ? await this.getWeekBlocks(workspaceId, sourceWeek, timeZone, weekStartsOn)
+      : blocks!;
+
+    await this.assertUniqueName(workspaceId, name);
+    await this.assertCategories(workspaceId, templateBlocks);
+
+    return prisma.weekTemplate.create({
+      data: {
+        workspaceId,
+        name,
+        blocks: { create: templateBlocks },
+      },
+      include: TEMPLATE_INCLUDE,
+    });
+  }
+
+  /**
+   * Rename a template and/or replace its blocks
+   */
+  static async update(workspaceId: string, id: string, { name, blocks }: UpdateWeekTemplateInput) {
+    const template = await this.get(workspaceId, id);
+
+    if (name && name !== template.name) {
+      await this.assertUniqueName(workspaceId, name);
+    }
+    if (blocks) {
+      await this.assertCategories(workspaceId, blocks);
+    }
+
+    return prisma.weekTemplate.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(blocks && { blocks: { deleteMany: {}, create: blocks } }),
+      },
+      include: TEMPLATE_INCLUDE,
+    });
+  }
+
+  static async delete(workspaceId: string, id: string): Promise<void> {
+    await this.get(workspaceId, id);
+    await prisma.weekTemplate.delete({ where: { id } });
+  }
+
+  /**
+   * Create the template blocks in the given week of the user's time zone.
+   * Blocks whose category is in the trash are left out.
+   */
+  static async apply(
+    context: HistoryContext,
+    id: string,
+    { week, onConflict, dryRun }: ApplyWeekTemplateInput,
+    timeZone: string,
+    weekStartsOn: number = 0
+  ) {
+    const template = await this.get(context.workspaceId, id);
+    const { year, month, day } = getZonedParts(startOfZonedWeek(week, timeZone, weekStartsOn), timeZone);
+
+    const blocks: PlannedBlock[] = template.blocks
+      .filter(block => !block.category.deletedAt)
+      .map(block => {
+        const startTime = fromZonedParts({
+          year,
+          month,
+          // Template days are weekdays: count them from the first day of the week
+          day: day + (block.weekday - weekStartsOn + 7) % 7,
+          hour: Math.floor(block.startMinutes / 60),
+          minute: block.startMinutes % 60,
+        }, timeZone);
+
+        return {
+          sourceId: block.id,
+          title: block.title,
+          description: block.description,
+          startTime,
+          // All-day blocks last whole days of the zone, whatever their length in minutes
+          endTime: block.allDay
+            ? addZonedDays(startTime, block.durationMinutes / MINUTES_PER_DAY, timeZone)
+            : addMinutes(startTime, block.durationMinutes),
+          allDay: block.allDay,
+          timeZone,
+          allowOverlap: block.allowOverlap,
+          categoryId: block.categoryId,
+          category: block.category,
+        };
+      });
+
+    const result = await WeekCopyService.placeBlocks(context, blocks, { onConflict, dryRun });
+
+    return { ...result, total: blocks.length };
+  }
+
+  /**
+   * Single blocks of a week as template blocks (recurring blocks already repeat on their own).
+   * Blocks that do not fit in a template, such as timed blocks longer than a day, are left out.
+   * Overlaps allowed by the category are kept on the block, so the template stays valid.
+   */
+  private static async getWeekBlocks(
+    workspaceId: string,
+    week: Date,
+    timeZone: string,
+    weekStartsOn: number
+  ): Promise<WeekTemplateBlockInput[]> {
+    const weekStart = startOfZonedWeek(week, timeZone, weekStartsOn);
+    const blocks = await prisma.scheduleBlock.findMany({
+      where: {
+        workspaceId,
+        deletedAt: null,
+        recurrenceRule: null,
+        startTime: { gte: weekStart, lt: addZonedDays(weekStart, 7, timeZone) },
+      },
+      include: { category: { select: { allowOverlap: true } } },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const templateBlocks = blocks
+      .map(block => {
+        const durationMinutes = differenceInMinutes(block.endTime, block.startTime);
+        return {
+          title: block.title,
+          description: block.description,
+          weekday: getZonedParts(block.startTime, timeZone).weekday,
+          startMinutes: getZonedMinutes(block.startTime, timeZone),
+          // Days with a DST change are an hour shorter or longer
+          durationMinutes: block.allDay
+            ? Math.round(durationMinutes / MINUTES_PER_DAY) * MINUTES_PER_DAY
+            : durationMinutes,
+          allDay: block.allDay,
+          allowOverlap: ScheduleOverlapService.allowsOverlap(block),
+          categoryId: block.categoryId,
+        };
+      })
+      .filter(block => weekTemplateBlockSchema.safeParse(block).success);
+
+    if (templateBlocks.length === 0) {
+      throw new ValidationError('La semana no tiene bloques para guardar como plantilla');
+    }
+
+    return weekTemplateBlocksSchema.parse(templateBlocks);
+  }
+
+  private static async assertUniqueName(workspaceId: string, name: string): Promise<void> {
+    const existing = await prisma.weekTemplate.findFirst({ where: { workspaceId, name } });
+    if (existing) {
+      throw new ConflictError('Ya existe una plantilla con ese nombre');
+    }
+  }
+
+  private static async assertCategories(workspaceId: string, blocks: WeekTemplateBlockInput[]): Promise<void> {
+    const categoryIds = [...new Set(blocks.map(block => block.categoryId))];
+    const count = await prisma.category.count({
+      where: { id: { in: categoryIds }, workspaceId, deletedAt: null },
+    });
+
+    if (count !== categoryIds.length) {
+      throw new ValidationError('La categoría especificada no existe');
+    }
+  }
+}
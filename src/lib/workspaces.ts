@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { AuthService, type AuthUser } from '@/lib/auth';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '@/lib/api-utils';
+import type { WorkspaceRole } from '@/lib/types';
+
+export const WORKSPACE_COOKIE_NAME = 'planico_workspace';
+
+// Each role includes the permissions of the ones below it
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+const ROLE_ERRORS: Record<WorkspaceRole, string> = {
+  viewer: 'No eres miembro de este espacio',
+  editor: 'Necesitas permisos de edición en este espacio',
+  owner: 'Solo los propietarios pueden gestionar este espacio',
+};
+
+export interface WorkspaceAccess {
+  user: AuthUser;
+  workspaceId: string;
+  role: WorkspaceRole;
+}
+
+export class WorkspaceService {
+  static hasRole(role: string, required: WorkspaceRole): boolean {
+    return (ROLE_RANK[role as WorkspaceRole] ?? -1) >= ROLE_RANK[required];
+  }
+
+  /**
+   * Workspace the request works on: the one selected with the workspace cookie,
+   * or the user's personal workspace. Throws when the role is below `required`.
+   */
+  static async requireAccess(request: NextRequest, required: WorkspaceRole = 'viewer'): Promise<WorkspaceAccess> {
+    const user = await AuthService.requireUser(request);
+    const selectedId = request.cookies.get(WORKSPACE_COOKIE_NAME)?.value;
+
+    const membership = (selectedId && await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId: selectedId, userId: user.id } },
+    })) || await this.getPersonalMembership(user.id);
+
+    if (!this.hasRole(membership.role, required)) {
+      throw new ForbiddenError(ROLE_ERRORS[required]);
+    }
+
+    return { user, workspaceId: membership.workspaceId, role: membership.role as WorkspaceRole };
+  }
+
+  /**
+   * Access to a specific workspace (member management, switching)
+   */
+  static async requireWorkspaceRole(
+    request: NextRequest,
+    workspaceId: string,
+    required: WorkspaceRole = 'viewer'
+  ): Promise<WorkspaceAccess> {
+    const user = await AuthService.requireUser(request);
+
+    const membership = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: user.id } },
+    });
+
+    if (!membership) {
+      throw new NotFoundError('Espacio de trabajo no encontrado');
+    }
+
+    if (!this.hasRole(membership.role, required)) {
+      throw new ForbiddenError(ROLE_ERRORS[required]);
+    }
+
+    return { user, workspaceId, role: membership.role as WorkspaceRole };
+  }
+
+  static async listForUser(userId: string, currentWorkspaceId?: string) {
+    const memberships = await prisma.workspaceMember.findMany({
+      where: { userId },
+      include: { workspace: true },
+      orderBy: [{ workspace: { isPersonal: 'desc' } }, { workspace: { name: 'asc' } }],
+    });
+
+    return memberships.map(({ workspace, role }) => ({
+      id: workspace.id,
+      name: workspace.name,
+      isPersonal: workspace.isPersonal,
+      role: role as WorkspaceRole,
+      isCurrent: workspace.id === currentWorkspaceId,
+    }));
+  }
+
+  static async createWorkspace(userId: string, name: string) {
+    const workspace = await prisma.workspace.create({
+      data: {
+        name,
+        members: { create: { userId, role: 'owner' } },
+      },
+    });
+
+    return { ...workspace, role: 'owner' as const };
+  }
+
+  static async listMembers(workspaceId: string) {
+    return prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  static async addMember(workspaceId: string, email: string, role: WorkspaceRole) {
+    const workspace = await prisma.workspace.findUnique({ where: { id: workspaceId } });
+    if (!workspace) {
+      throw new NotFoundError('Espacio de trabajo no encontrado');
+    }
+    if (workspace.isPersonal) {
+      throw new ValidationError('El espacio personal no se puede compartir');
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      throw new NotFoundError('No existe ninguna cuenta con ese correo');
+    }
+
+    const existingMember = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: user.id } },
+    });
+    if (existingMember) {
+      throw new ConflictError('El usuario ya es miembro de este espacio');
+    }
+
+    return prisma.workspaceMember.create({
+      data: { workspaceId, userId: user.id, role },
+      include: { user: { select: { id: true, email: true, name: true } } },
+    });
+  }
+
+  static async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+    const member = await this.getMember(workspaceId, userId);
+
+    if (member.role === 'owner' && role !== 'owner') {
+      await this.assertAnotherOwner(workspaceId, userId);
+    }
+
+    return prisma.workspaceMember.update({
+      where: { id: member.id },
+      data: { role },
+      include: { user: { select: { id: true, email: true, name: true } } },
+    });
+  }
+
+  static async removeMember(workspaceId: string, userId: string): Promise<void> {
+    const member = await this.getMember(workspaceId, userId);
+
+    if (member.role === 'owner') {
+      await this.assertAnotherOwner(workspaceId, userId);
+    }
+
+    await prisma.workspaceMember.delete({ where: { id: member.id } });
+  }
+
+  static setWorkspaceCookie(response: NextResponse, workspaceId: string): NextResponse {
+    response.cookies.set(WORKSPACE_COOKIE_NAME, workspaceId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 365 * 24 * 60 * 60,
+    });
+    return response;
+  }
+
+  /**
+   * Personal workspace of the user, created when missing
+   */
+  private static async getPersonalMembership(userId: string) {
+    const membership = await prisma.workspaceMember.findFirst({
+      where: { userId, workspace: { isPersonal: true } },
+    });
+
+    if (membership) {
+      return membership;
+    }
+
+    return prisma.workspaceMember.create({
+      data: {
+        role: 'owner',
+        user: { connect: { id: userId } },
+        workspace: { create: { name: 'Personal', isPersonal: true } },
+      },
+    });
+  }
+
+  private static async getMember(workspaceId: string, userId: string) {
+    const member = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Miembro no encontrado');
+    }
+
+    return member;
+  }
+
+  // A workspace always keeps at least one owner
+  private static async assertAnotherOwner(workspaceId: string, userId: string): Promise<void> {
+    const otherOwners = await prisma.workspaceMember.count({
+      where: { workspaceId, role: 'owner', userId: { not: userId } },
+    });
+
+    if (otherOwners === 0) {
+      throw new ValidationError('El espacio debe tener al menos un propietario');
+    }
+  }
+}
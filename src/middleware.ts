@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Same name as SESSION_COOKIE_NAME in lib/auth (not imported: the middleware runs on the edge runtime)
+const SESSION_COOKIE_NAME = 'planico_session';
+
+/**
+ * Send visitors without a session cookie to the login page.
+ * The session itself is validated by the API routes.
+ */
+export function middleware(request: NextRequest) {
+  if (!request.cookies.has(SESSION_COOKIE_NAME)) {
+    const loginUrl = new URL('/login', request.url);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|login|favicon.ico).*)'],
+};